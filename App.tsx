@@ -1,25 +1,49 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import Camera, { CameraHandle } from './components/Camera';
 import AudioRing from './components/AudioRing';
+import ReplayControls from './components/ReplayControls';
 import { audioService } from './services/audioService';
-import { classifyIntent, analyzeImage, analyzeWalkingSafety, getWalkingDirections } from './services/geminiService';
-import { AppState, IntentType, NavigationPlan, EmergencySeverity } from './types';
+import { classifyIntent, analyzeImage, askAboutImage, analyzeWalkingSafety, locateObject, analyzeCrossing, analyzeDocumentFraming, getWalkingDirections, getVisionProvider } from './services/geminiService';
+import { hazardTracker } from './services/hazardTracker';
+import { hazardFrameGate } from './services/frameGate';
+import { requestScheduler } from './services/requestScheduler';
+import { imageQuality, describeIssue } from './services/imageQuality';
+import { documentFramer } from './services/documentFraming';
+import { SentenceStream } from './services/sentenceStream';
+import { OffRouteDetector, RouteProgress, trackablePlan } from './services/navigationService';
+import { emergencyService, phoneFromSpeech, spokenPhone } from './services/emergencyService';
+import { motionService } from './services/motionService';
+import { distressFusion } from './services/distressFusion';
+import { settingsService } from './services/settingsService';
+import { visualSession } from './services/visualSession';
+import { journalService } from './services/journalService';
+import { placesService } from './services/placesService';
+import { documentReader, spellOut } from './services/documentReader';
+import { describeTarget, objectSearch } from './services/objectSearch';
+import { crossingMonitor } from './services/crossingMonitor';
+import { hapticService, turnDirection } from './services/hapticService';
+import { WalkingReplay, walkingRecorder } from './services/walkingReplay';
+import { classifyCheckReply, getLocale, isConfirmation, isSupportedLocale } from './services/locales';
+import { AppState, IntentType, NavigationPlan, EmergencySeverity, WalkingRecording, WalkingHazard } from './types';
 
 // Constants
-const WELCOME_MESSAGE = "SightMate ready. Press to speak.";
 const WALKING_LOOP_DELAY = 100; // 100ms - Effectively continuous, limited by API speed
+const SEARCH_LOOP_DELAY = 100;
+const CROSSING_LOOP_DELAY = 0; // Crossing frames go back to back
+// Crossing watchdog: idle this long past the planned wait means the loop died; one frame pending this long is abandoned
+const CROSSING_STALL_MS = 8000;
+const CROSSING_HUNG_MS = 20000;
+const SHOW_DEV_TOOLS = new URLSearchParams(window.location.search).has('devtools');
+// Document reader gestures on the main button
+const SWIPE_MIN_PX = 60;
+const LONG_PRESS_MS = 600;
+// Aiming guidance before a still picture gives up and takes it anyway after this long
+const AIM_GUIDANCE_MS = 5000;
+const FRAMING_LOOP_DELAY = 300;
 
 // Companion Phrases (Local Fallback for low latency & reliability)
-const COMPANION_PHRASES = [
-  "I'm walking right here with you.",
-  "You're doing great, stay confident.",
-  "I'm watching out for you.",
-  "Everything looks good, keep going.",
-  "I'm here, just let me know if you need anything.",
-  "Nice and steady.",
-  "You are doing wonderful.",
-  "The path ahead seems clear."
-];
+// Spoken text in the user's language (services/locales.ts)
+const phrases = () => getLocale(settingsService.get().locale).phrases;
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
@@ -32,11 +56,22 @@ const App: React.FC = () => {
   // -- Navigation State --
   const [navPlan, setNavPlan] = useState<NavigationPlan | null>(null);
   const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
-  const navTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const navWatchIdRef = useRef<number | null>(null);
+  const routeProgressRef = useRef<RouteProgress | null>(null);
+  const offRouteDetectorRef = useRef<OffRouteDetector | null>(null);
+  const isReroutingRef = useRef<boolean>(false);
 
   // -- Emergency State --
   const emergencyTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const emergencySeverityRef = useRef<EmergencySeverity>('low');
+  const emergencyDetectorRef = useRef<string>('unknown');
+  const emergencyActionIdRef = useRef<number>(0); // Bumped on cancel so an alert still being prepared is never sent
+  const lastFrameRef = useRef<string | null>(null);
+
+  // -- Walking Recordings (dev tools) --
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [isReplaying, setIsReplaying] = useState<boolean>(false);
+  const walkingReplayRef = useRef<WalkingReplay | null>(null);
   
   const cameraRef = useRef<CameraHandle>(null);
   
@@ -44,11 +79,14 @@ const App: React.FC = () => {
   const abortControllerRef = useRef<AbortController | null>(null);
   const interactionIdRef = useRef<number>(0); 
   const lastButtonPressRef = useRef<number>(0); 
+  const gestureStartRef = useRef<{ x: number; y: number; at: number } | null>(null);
+  const gestureHandledRef = useRef<boolean>(false); // Swallows the click that ends a swipe or long press
   
   // Companion Timer Ref
   const lastCompanionMsgRef = useRef<number>(Date.now());
   // Watchdog Timer Ref
   const lastLoopTimeRef = useRef<number>(Date.now());
+  const loopDelayRef = useRef<number>(0); // Planned wait before the next loop run, which isn't a stall
   const watchdogTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // -- Animation Refs --
@@ -60,8 +98,11 @@ const App: React.FC = () => {
   const isCompanionModeRef = useRef(isCompanionMode);
   const appStateRef = useRef(appState);
   const navPlanRef = useRef(navPlan);
-  const stepIndexRef = useRef(currentStepIndex);
   const isAnalyzingFrameRef = useRef(false); 
+  const isSearchingFrameRef = useRef(false);
+  const isCrossingRef = useRef(false);
+  const isCrossingFrameRef = useRef(false);
+  const crossingLoopIdRef = useRef(0); // Bumped on every (re)start; an older loop stops at its next check
 
   // Sync refs
   useEffect(() => {
@@ -70,14 +111,30 @@ const App: React.FC = () => {
     isCompanionModeRef.current = isCompanionMode;
     appStateRef.current = appState;
     navPlanRef.current = navPlan;
-    stepIndexRef.current = currentStepIndex;
 
     // Automatic State Inference
     if (appState === AppState.IDLE) {
         if (isNavigating) setAppState(AppState.NAVIGATING);
         else if (isWalkingFeatureActive) setAppState(AppState.WALKING);
     }
-  }, [isWalkingFeatureActive, isNavigating, isCompanionMode, appState, navPlan, currentStepIndex]);
+  }, [isWalkingFeatureActive, isNavigating, isCompanionMode, appState, navPlan]);
+
+  // Journal every AppState transition
+  useEffect(() => {
+      journalService.record('state', { state: appState });
+  }, [appState]);
+
+  // Forget tracked hazards once walking and navigation are both off
+  useEffect(() => {
+      if (!isWalkingFeatureActive && !isNavigating) {
+          hazardTracker.reset();
+          if (hazardFrameGate.skippedCount > 0) console.log(`WalkingMode: ${hazardFrameGate.skippedCount} hazard requests skipped on unchanged frames.`);
+          hazardFrameGate.reset();
+          requestScheduler.resetCoverage();
+          // Walking mode switched off mid-replay: end it early
+          if (walkingReplayRef.current) finishReplay(walkingReplayRef.current);
+      }
+  }, [isWalkingFeatureActive, isNavigating]);
 
   // --- Watchdog Logic (Prevent Freezing) ---
   useEffect(() => {
@@ -85,56 +142,97 @@ const App: React.FC = () => {
       
       watchdogTimerRef.current = setInterval(() => {
           const isActive = appStateRef.current === AppState.WALKING || appStateRef.current === AppState.NAVIGATING;
+          const stalled = Date.now() - lastLoopTimeRef.current > 2000 + loopDelayRef.current;
+          if (appStateRef.current === AppState.CROSSING) {
+              // A slow frame is still a live loop: restarting under it would run two loops speaking over each other
+              const idleFor = Date.now() - lastLoopTimeRef.current;
+              const dead = isCrossingFrameRef.current ? idleFor > CROSSING_HUNG_MS : idleFor > CROSSING_STALL_MS + loopDelayRef.current;
+              if (dead) {
+                  console.warn("CrossingMode: Watchdog restart.");
+                  startCrossingLoop();
+              }
+              return;
+          }
           // If active AND no activity for 2 seconds -> Restart
-          if (isActive && (Date.now() - lastLoopTimeRef.current > 2000)) {
+          if (isActive && stalled) {
               console.warn("WalkingMode: Watchdog restart.");
               isAnalyzingFrameRef.current = false; // Reset lock
               runWalkingLoop(); // Restart
-              audioService.speak("Walking mode active."); // Failsafe notification
+              audioService.speak(phrases().walkingRestarted); // Failsafe notification
           }
       }, 2000); // Check every 2s
 
       return () => { if (watchdogTimerRef.current) clearInterval(watchdogTimerRef.current); };
   }, []);
 
-  // --- Distress Detection Setup ---
+  // --- Hands-Free Wake Phrase ---
   useEffect(() => {
-      // 1. Continuous Monitoring Callback
-      const handleDistress = (type: string, severity: EmergencySeverity) => {
-          // If already handling emergency, ignore unless escalation (e.g., keyword_high vs noise)
-          if (appStateRef.current === AppState.EMERGENCY_CHECK || 
-              appStateRef.current === AppState.EMERGENCY_ACTING) {
-              return;
-          }
-          
-          // Don't interrupt user speaking to AI
-          if (appStateRef.current === AppState.LISTENING) return;
-
-          console.warn(`Distress Detected: ${type} [${severity}]`);
-          
-          // Trigger Emergency Protocol
-          triggerEmergencyCheck(severity);
+      const apply = (handsFree: boolean) => {
+          if (handsFree) audioService.startWakeListener(handleWake);
+          else audioService.stopWakeListener();
+      };
+      apply(settingsService.get().handsFree);
+      const unsubscribe = settingsService.subscribe(settings => apply(settings.handsFree));
+      return () => {
+          unsubscribe();
+          audioService.stopWakeListener();
       };
+  }, []);
 
-      audioService.startDistressListener(handleDistress);
+  // --- Distress Detection Setup ---
+  useEffect(() => {
+      // Continuous monitoring: microphone (keywords, loud noises) and motion sensors (fall signature)
+      audioService.startDistressListener(reportDistress);
+      motionService.start(reportDistress);
 
       return () => {
           audioService.stopDistressListener();
+          motionService.stop();
       };
   }, []);
 
+  // Single entry point for every distress detector. Signals are fused so two detectors agreeing escalate to 'high'.
+  const reportDistress = (type: string, severity: EmergencySeverity) => {
+      const fused = distressFusion.report(type, severity);
+      if (!fused) {
+          console.log(`Distress signal noted (uncorroborated): ${type} [${severity}]`);
+          return;
+      }
+
+      // If already handling emergency, only escalate the severity of the running check
+      if (appStateRef.current === AppState.EMERGENCY_CHECK || 
+          appStateRef.current === AppState.EMERGENCY_ACTING) {
+          if (fused.severity === 'high' && emergencySeverityRef.current !== 'high') {
+              console.warn(`Distress escalated by ${fused.detector}`);
+              emergencySeverityRef.current = 'high';
+              emergencyDetectorRef.current = fused.detector;
+          }
+          return;
+      }
+      
+      // Don't interrupt user speaking to AI
+      if (appStateRef.current === AppState.LISTENING) return;
+
+      console.warn(`Distress Detected: ${fused.detector} [${fused.severity}]`);
+      journalService.record('emergency', { event: 'detected', severity: fused.severity, detector: fused.detector, corroborated: fused.corroborated });
+      
+      // Trigger Emergency Protocol
+      triggerEmergencyCheck(fused.severity, fused.detector);
+  };
+
   // --- EMERGENCY PROTOCOL LOGIC ---
-  const triggerEmergencyCheck = async (severity: EmergencySeverity) => {
+  const triggerEmergencyCheck = async (severity: EmergencySeverity, detector: string) => {
       if (abortControllerRef.current) abortControllerRef.current.abort();
       audioService.stopSpeaking();
-      if (navTimerRef.current) clearTimeout(navTimerRef.current);
       if (emergencyTimerRef.current) clearTimeout(emergencyTimerRef.current);
 
       emergencySeverityRef.current = severity;
+      emergencyDetectorRef.current = detector;
       setAppState(AppState.EMERGENCY_CHECK);
+      hapticService.playEmergency('check');
       
       // Step 1: Verification
-      await audioService.speak("It sounds like something is wrong. Are you okay?", true);
+      await audioService.speak(phrases().areYouOkay, 'emergency');
 
       // Start Listening for response (active 30s listen)
       performEmergencyVerification(1);
@@ -154,12 +252,14 @@ const App: React.FC = () => {
                // Silence / Timeout
                handleNoResponse(attempt);
            } else {
-               const cleaned = response.toLowerCase();
-               if (cleaned.includes("ok") || cleaned.includes("fine") || cleaned.includes("good") || cleaned.includes("safe") || cleaned.includes("yes")) {
+               const reply = classifyCheckReply(response, settingsService.get().locale);
+               if (reply === 'safe') {
                    // SAFE
-                   await audioService.speak("I'm glad you are safe. Resuming.");
+                   distressFusion.reset();
+                   journalService.record('emergency', { event: 'user_safe', response });
+                   await audioService.speak(phrases().gladYouAreSafe, 'emergency');
                    restoreState();
-               } else if (cleaned.includes("no") || cleaned.includes("help") || cleaned.includes("hurt") || cleaned.includes("pain") || cleaned.includes("call")) {
+               } else if (reply === 'danger') {
                    // CONFIRMED DANGER
                    triggerEmergencyAction();
                } else {
@@ -181,7 +281,7 @@ const App: React.FC = () => {
       const maxAttempts = emergencySeverityRef.current === 'high' ? 1 : 2;
 
       if (attempt < maxAttempts) {
-          await audioService.speak("I didn't hear you. Please say 'I'm okay' if you are safe.", true);
+          await audioService.speak(phrases().askAgain, 'emergency');
           performEmergencyVerification(attempt + 1);
       } else {
           // TIMEOUT REACHED -> ALERT
@@ -190,17 +290,68 @@ const App: React.FC = () => {
   };
 
   const triggerEmergencyAction = async () => {
+      const actionId = ++emergencyActionIdRef.current;
+      const cancelled = () => emergencyActionIdRef.current !== actionId;
       setAppState(AppState.EMERGENCY_ACTING);
-      
-      // Simulate Alert
       audioService.playSound('warning'); // distinct alert sound
-      await audioService.speak("Emergency help has been contacted. Sending your location now.", true);
-      
-      // Keep state in Emergency Acting to prevent auto-resume
-      // In real app, this would make API call to backend
-      console.log("SENDING ALERT: Location sent. Last severity: " + emergencySeverityRef.current);
+      hapticService.playEmergency('alerting');
 
-      // Optional: keep monitoring
+      if (emergencyService.getContacts().length === 0) {
+          await audioService.speak(phrases().noContactsToAlert, 'emergency');
+          return;
+      }
+      if (!emergencyService.getContacts().some(contact => emergencyService.canReach(contact))) {
+          await audioService.speak(phrases().noAlertChannel, 'emergency');
+          return;
+      }
+      audioService.speak(phrases().alertingContacts, 'emergency');
+
+      // Gather location and a fresh frame (fall back to the last walking frame, e.g. phone face down)
+      let location: { latitude: number; longitude: number; accuracy: number } | null = null;
+      try {
+          const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
+              navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 5000, enableHighAccuracy: true });
+          });
+          location = { latitude: pos.coords.latitude, longitude: pos.coords.longitude, accuracy: pos.coords.accuracy };
+          journalService.recordPosition(pos.coords);
+      } catch (e) {
+          console.warn("Emergency: No GPS fix for alert.");
+      }
+      if (cancelled()) return;
+      const frame = (await cameraRef.current?.capture(true, true)) || lastFrameRef.current;
+      if (cancelled()) return;
+
+      const alert = emergencyService.createAlert({
+          severity: emergencySeverityRef.current,
+          detector: emergencyDetectorRef.current,
+          location,
+          frame
+      });
+      journalService.record('emergency', { event: 'alert_sent', alertId: alert.id, severity: alert.severity, detector: alert.detector, location: alert.location });
+
+      // Keep state in Emergency Acting to prevent auto-resume. Escalation runs until someone acknowledges.
+      await emergencyService.dispatch(alert, (event) => {
+          journalService.record('emergency', { event: event.type, alertId: alert.id, contact: 'contact' in event ? event.contact.name : undefined });
+          if (appStateRef.current !== AppState.EMERGENCY_ACTING) return;
+          switch (event.type) {
+              case 'notifying':
+                  audioService.speak(phrases().alerting(event.contact.name), 'emergency');
+                  break;
+              case 'failed':
+                  audioService.speak(phrases().unreachable(event.contact.name), 'emergency');
+                  break;
+              case 'acknowledged':
+                  audioService.playSound('success');
+                  audioService.speak(phrases().alertReceived(event.contact.name), 'emergency');
+                  break;
+              case 'exhausted':
+                  audioService.speak(phrases().nobodyResponded, 'emergency');
+                  break;
+              case 'no_channel':
+                  audioService.speak(phrases().noAlertChannel, 'emergency');
+                  break;
+          }
+      });
   };
 
   useEffect(() => {
@@ -208,56 +359,160 @@ const App: React.FC = () => {
         if (!isAnalyzingFrameRef.current) {
             runWalkingLoop();
         }
-        
-        if (isNavigating && navPlan) {
-            if (navTimerRef.current) clearTimeout(navTimerRef.current);
-            startNavigationLoop(); 
-        }
-    } else {
-        if (navTimerRef.current) clearTimeout(navTimerRef.current);
     }
-  }, [appState, isNavigating, navPlan]);
+  }, [appState]);
 
   useEffect(() => {
-    audioService.speak(WELCOME_MESSAGE);
+    if (appState === AppState.SEARCHING && !isSearchingFrameRef.current) runSearchLoop();
+    if (appState === AppState.CROSSING && !isCrossingFrameRef.current) startCrossingLoop();
+  }, [appState]);
+
+  // Walking without a route: keep a thinned GPS track for the journal (navigation journals its own fixes)
+  useEffect(() => {
+    if (!isWalkingFeatureActive || isNavigating || !navigator.geolocation) return;
+    const watchId = navigator.geolocation.watchPosition(
+        (pos) => journalService.recordPosition(pos.coords),
+        (err) => console.warn("Journal: GPS error", err),
+        { enableHighAccuracy: true, maximumAge: 5000, timeout: 30000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [isWalkingFeatureActive, isNavigating]);
+
+  // GPS tracking runs for the whole route, even while listening, so progress isn't lost
+  useEffect(() => {
+    if (isNavigating && navPlan) startNavigationTracking(navPlan);
+    else stopNavigationTracking();
+  }, [isNavigating, navPlan]);
+
+  useEffect(() => {
+    audioService.speak(phrases().welcome);
     return () => {
-        if (navTimerRef.current) clearTimeout(navTimerRef.current);
+        stopNavigationTracking();
         if (emergencyTimerRef.current) clearTimeout(emergencyTimerRef.current);
         if (abortControllerRef.current) abortControllerRef.current.abort();
     }
   }, []);
 
   // --- Navigation Logic ---
-  const startNavigationLoop = () => {
-      if (!isNavigatingRef.current || !navPlanRef.current || appStateRef.current !== AppState.NAVIGATING) return;
+  const startNavigationTracking = (plan: NavigationPlan) => {
+      // Carry the reroute cooldown over to the new plan so a fresh route doesn't immediately reroute again
+      const lastReroute = offRouteDetectorRef.current?.lastReroute ?? 0;
+      stopNavigationTracking();
+      const tracked = trackablePlan(plan);
+      routeProgressRef.current = tracked ? new RouteProgress(tracked, settingsService.get().locale) : null;
+      // Guessed step points would trigger false reroutes
+      offRouteDetectorRef.current = plan.estimated ? null : new OffRouteDetector(plan, lastReroute);
+
+      if (!navigator.geolocation) {
+          audioService.speak(phrases().noGps, 'navigation');
+          return;
+      }
 
-      const steps = navPlanRef.current.steps;
-      const index = stepIndexRef.current;
+      let gpsErrorAnnounced = false;
+      navWatchIdRef.current = navigator.geolocation.watchPosition(
+          (pos) => {
+              gpsErrorAnnounced = false;
+              handleNavigationPosition(pos);
+          },
+          (err) => {
+              console.warn("Navigation: GPS error", err);
+              if (gpsErrorAnnounced) return;
+              gpsErrorAnnounced = true;
+              audioService.speak(err.code === err.PERMISSION_DENIED
+                  ? phrases().needLocationAccess
+                  : phrases().gpsLost, 'navigation');
+          },
+          { enableHighAccuracy: true, maximumAge: 1000, timeout: 15000 }
+      );
+  };
 
-      if (index >= steps.length) {
-          audioService.speak("You have arrived.");
-          setIsNavigating(false);
-          setNavPlan(null);
-          setAppState(isWalkingFeatureActiveRef.current ? AppState.WALKING : AppState.IDLE);
+  const stopNavigationTracking = () => {
+      if (navWatchIdRef.current !== null) {
+          navigator.geolocation.clearWatch(navWatchIdRef.current);
+          navWatchIdRef.current = null;
+      }
+      routeProgressRef.current = null;
+      offRouteDetectorRef.current = null;
+  };
+
+  const handleNavigationPosition = (pos: GeolocationPosition) => {
+      journalService.recordPosition(pos.coords);
+      const progress = routeProgressRef.current;
+      if (!progress || !isNavigatingRef.current) return;
+
+      const events = progress.update(pos.coords, pos.coords.accuracy);
+      setCurrentStepIndex(progress.stepIndex);
+
+      // Off-route check against the remaining route geometry
+      const deviation = offRouteDetectorRef.current?.update(pos.coords, progress.stepIndex, pos.coords.accuracy);
+      if (deviation === 'off_route') {
+          rerouteFrom(pos.coords);
           return;
       }
+      if (deviation === 'back_on_route') journalService.record('navigation', { event: 'back_on_route' });
+      if (deviation === 'back_on_route' && appStateRef.current === AppState.NAVIGATING) {
+          audioService.speak(phrases().backOnRoute, 'navigation');
+      }
 
-      const stepText = steps[index];
-      
-      if (!audioService.isSpeaking) {
-        audioService.playSound('navigation');
-        audioService.speak(stepText).then(() => {
-            if (appStateRef.current !== AppState.NAVIGATING) return;
-            const waitTime = 14000; 
-            navTimerRef.current = setTimeout(() => {
-                if (isNavigatingRef.current && appStateRef.current === AppState.NAVIGATING) {
-                    setCurrentStepIndex(prev => prev + 1);
-                    startNavigationLoop(); 
-                }
-            }, waitTime);
-        });
-      } else {
-          navTimerRef.current = setTimeout(startNavigationLoop, 3000);
+      for (const event of events) {
+          journalService.record('navigation', { event: event.type, text: event.text, stepIndex: progress.stepIndex });
+
+          if (event.type === 'arrived') {
+              stopNavigationTracking();
+              hapticService.playArrived();
+              if (!settingsService.get().hapticsOnly) audioService.speak(event.text, 'navigation');
+              setIsNavigating(false);
+              setNavPlan(null);
+              if (appStateRef.current === AppState.NAVIGATING) {
+                  setAppState(isWalkingFeatureActiveRef.current ? AppState.WALKING : AppState.IDLE);
+              }
+              return;
+          }
+
+          // RouteProgress announces each step once, so these are queued whatever the app is doing (the queue holds
+          // them until an answer finishes), except during an emergency
+          if (appStateRef.current === AppState.EMERGENCY_CHECK || appStateRef.current === AppState.EMERGENCY_ACTING) continue;
+
+          // Turns vibrate as they come up. Vibrations only: those, and "continue", aren't spoken;
+          // anything without a left or right ("head north", "cross the street") still is.
+          const turn = event.type === 'continue' ? null : turnDirection(event.text, settingsService.get().locale);
+          if (turn) hapticService.playTurn(turn);
+          if (settingsService.get().hapticsOnly && (turn || event.type === 'continue')) continue;
+
+          // Queued as navigation speech: waits for answers to finish, yields to hazards
+          const cue = event.type === 'continue' ? undefined : () => audioService.playSound('navigation');
+          audioService.speak(event.text, 'navigation', { onStart: cue });
+      }
+  };
+
+
+  const rerouteFrom = async (coords: GeolocationCoordinates) => {
+      const plan = navPlanRef.current;
+      if (!plan || isReroutingRef.current) return;
+      isReroutingRef.current = true;
+
+      console.warn("Navigation: Off route. Re-planning to", plan.destination);
+      journalService.record('navigation', { event: 'off_route', destination: plan.destination });
+      if (appStateRef.current === AppState.NAVIGATING) {
+          audioService.playSound('warning');
+          audioService.speak(phrases().offRoute, 'navigation');
+      }
+
+      try {
+          const newPlan = await getWalkingDirections(plan.destination, coords, undefined, plan.destinationPoint);
+          // User may have stopped navigating while we were planning
+          if (!isNavigatingRef.current || navPlanRef.current !== plan) return;
+
+          journalService.record('navigation', { event: newPlan ? 'rerouted' : 'reroute_failed', destination: plan.destination, steps: newPlan?.steps });
+          if (newPlan) {
+              setNavPlan(newPlan);
+              setCurrentStepIndex(0);
+              audioService.speak(phrases().newRoute, 'navigation');
+          } else {
+              audioService.speak(phrases().noNewRoute, 'navigation');
+          }
+      } finally {
+          isReroutingRef.current = false;
       }
   };
 
@@ -284,8 +539,13 @@ const App: React.FC = () => {
     isAnalyzingFrameRef.current = true;
 
     try {
-        // 2. FORCE FRAME CAPTURE
-        let frame = await cameraRef.current?.capture(true, true);
+        // 2. FORCE FRAME CAPTURE (or the next recorded frame when replaying)
+        const replay = walkingReplayRef.current;
+        let frame = replay ? await replay.nextFrame() : await cameraRef.current?.capture(true, true);
+        if (!frame && replay) {
+            if (replay.isFinished) finishReplay(replay);
+            return;
+        }
         if (!frame) {
             // Retry once immediately
             await new Promise(r => setTimeout(r, 100));
@@ -297,42 +557,87 @@ const App: React.FC = () => {
             return; // Skip cycle, finally will run next loop
         }
         console.log("WalkingMode: Frame captured.");
+        const capturedAt = Date.now();
+        lastFrameRef.current = frame;
+
+        // Blurred, covered or badly exposed frames give vague verdicts and false falls; most are dropped
+        // Every frame is recorded with what became of it, so a replay drops and reuses the same frames
+        const quality = replay ? null : cameraRef.current?.getLastQuality();
+        if (replay ? replay.dropped : quality && imageQuality.dropWalkingFrame(quality, capturedAt)) {
+            console.log("WalkingMode: Dropped unusable frame.", quality?.issues);
+            walkingRecorder.record(frame, null, capturedAt, 0, 'dropped');
+            return;
+        }
 
-        // 3. HAZARD REQUEST
-        console.log("WalkingMode: Hazard request sent.");
-        const hazard = await analyzeWalkingSafety(frame, abortControllerRef.current?.signal);
+        // 3. HAZARD REQUEST (skipped when the live scene hasn't changed since the last analysed frame)
+        const signature = replay ? null : cameraRef.current?.getLastSignature() ?? null;
+        const reused = replay ? replay.reuse() : hazardFrameGate.reuse(signature, capturedAt);
+        let hazard: WalkingHazard | null;
+        if (reused) {
+            hazard = reused.verdict;
+            walkingRecorder.record(frame, hazard, capturedAt, 0, 'reused');
+        } else {
+            console.log("WalkingMode: Hazard request sent.");
+            hazard = replay
+                ? await replay.analyze(frame, abortControllerRef.current?.signal)
+                : await analyzeWalkingSafety(frame, abortControllerRef.current?.signal);
+            walkingRecorder.record(frame, hazard, capturedAt, Date.now() - capturedAt, 'analysed');
+            // A failed request (null) is retried on the next frame; a fall is never reused, the emergency flow takes over
+            if (hazard && hazard.category !== 'fall') hazardFrameGate.store(signature, hazard, capturedAt);
+        }
+        if (hazard) requestScheduler.noteHazardCheck();
 
         // Visual Fall Detection Check
         if (hazard && hazard.hazard_type && hazard.category === 'fall') {
-             triggerEmergencyCheck('high');
+             reportDistress('visual_fall', 'high');
              return; // Stop loop logic here, emergency state takes over
         }
 
         if (appStateRef.current === AppState.WALKING || appStateRef.current === AppState.NAVIGATING) {
-            if (hazard && hazard.hazard_type !== 'none' && hazard.message) {
-                // HAZARD DETECTED: Priority Speak (Interrupt)
-                console.log("WalkingMode: Speaking hazard ->", hazard.message);
+            // Replays run on recording time so hazards clear exactly as they did on the original walk
+            const update = hazardTracker.update(hazard, replay ? replay.now() : Date.now());
+            const hapticsOnly = settingsService.get().hapticsOnly;
+
+            if (update.announce && update.announce.hazard.message) {
+                // NEW / ESCALATED / MOVED HAZARD: Priority Speak (Interrupt)
+                console.log(`WalkingMode: Speaking ${update.announce.change} hazard ->`, update.announce.hazard.message);
+                journalService.record('hazard', { change: update.announce.change, ...update.announce.hazard });
                 
                 // 5. OVERRIDE COMPANION
-                audioService.stopSpeaking();
-                await audioService.speak(hazard.message, true); // True = Priority
+                hapticService.playHazard(update.announce.hazard);
+                if (!hapticsOnly) await audioService.playHazardEarcon(update.announce.hazard);
+
+                // A hazard that only switched sides is conveyed by the panned earcon alone, unless it's serious
+                if (!hapticsOnly && (update.announce.change !== 'moved' || update.announce.hazard.severity === 'high')) {
+                    await audioService.speak(update.announce.hazard.message, 'hazard'); // Preempts navigation, answers and companion
+                }
                 
                 // Reset Companion Timer so we don't speak immediately after a warning
                 lastCompanionMsgRef.current = Date.now(); 
             } 
-            else {
-                // COMPANION MODE LOGIC
+            // Vibrations only: no cleared hazards, companion phrases or "Path clear"
+            else if (!hapticsOnly && update.cleared.length > 0) {
+                // Tracked hazard left the frame
+                const names = update.cleared.map(h => h.description || h.hazard_type);
+                console.log("WalkingMode: Hazards cleared ->", names);
+                update.cleared.forEach(h => journalService.record('hazard_cleared', { ...h }));
+                await audioService.speak(phrases().cleared(names), 'answer', { maxAgeMs: 3000 });
+                lastCompanionMsgRef.current = Date.now();
+            }
+            else if (!hapticsOnly && hazardTracker.getTracked().length === 0) {
+                // COMPANION MODE LOGIC (stays quiet while an announced hazard is still in view)
                 // Check: Active? Time elapsed? Not speaking?
                 if (isCompanionModeRef.current && !audioService.isSpeaking) {
                     const now = Date.now();
-                    if (now - lastCompanionMsgRef.current > 15000) { // Every 15s roughly
-                        const phrase = COMPANION_PHRASES[Math.floor(Math.random() * COMPANION_PHRASES.length)];
-                        audioService.speak(phrase); // Standard priority, will queue if busy
+                    if (now - lastCompanionMsgRef.current > settingsService.get().companionIntervalMs) { // Every 15s by default
+                        const companion = phrases().companion;
+                        const phrase = companion[Math.floor(Math.random() * companion.length)];
+                        audioService.speak(phrase, 'companion'); // Lowest priority, dropped if it goes stale in the queue
                         lastCompanionMsgRef.current = now;
                     }
-                } else if (!isCompanionModeRef.current && Math.random() > 0.95 && !audioService.isSpeaking) { 
+                } else if (!isCompanionModeRef.current && !reused && Math.random() < settingsService.get().pathClearProbability && !audioService.isSpeaking) { 
                     // Rare "Path clear" confirmation if companion mode is OFF
-                    await audioService.speak("Path clear.");
+                    await audioService.speak(phrases().pathClear, 'companion');
                 }
             }
         }
@@ -341,14 +646,151 @@ const App: React.FC = () => {
     } finally {
         isAnalyzingFrameRef.current = false;
         
-        // Ensure we loop again if still active
+        // Ensure we loop again if still active, slower when the request budget is running low
         if ((appStateRef.current === AppState.WALKING || appStateRef.current === AppState.NAVIGATING) &&
             appStateRef.current !== AppState.LISTENING) {
-            setTimeout(runWalkingLoop, WALKING_LOOP_DELAY);
+            const delay = Math.max(WALKING_LOOP_DELAY, requestScheduler.backgroundDelay());
+            loopDelayRef.current = delay;
+            const coverage = walkingReplayRef.current ? null : requestScheduler.coverageChange(delay);
+            if (coverage === 'slowed') {
+                audioService.speak(phrases().coverageSlowed, 'navigation');
+            } else if (coverage === 'restored') {
+                audioService.speak(phrases().coverageRestored, 'answer', { maxAgeMs: 5000 });
+            }
+            setTimeout(runWalkingLoop, delay);
+        }
+    }
+  };
+
+  // --- Object Search Loop ---
+  // Same shape as the walking loop: one frame at a time, stopping as soon as the state leaves SEARCHING
+  // (a tap, an emergency). restoreState() puts it back in SEARCHING while a search is active.
+  const runSearchLoop = async () => {
+    const target = objectSearch.getTarget();
+    if (appStateRef.current !== AppState.SEARCHING || !target) return;
+    if (isSearchingFrameRef.current) return;
+    isSearchingFrameRef.current = true;
+
+    try {
+        const frame = await cameraRef.current?.capture(true, true);
+        if (!frame) return;
+        lastFrameRef.current = frame;
+
+        const sighting = await locateObject(frame, target, abortControllerRef.current?.signal);
+        if (appStateRef.current !== AppState.SEARCHING || objectSearch.getTarget() !== target) return;
+
+        const step = objectSearch.update(sighting);
+        if (step.found) audioService.playSound('success');
+        if (step.say) await audioService.speak(step.say, 'answer', { maxAgeMs: 2000 });
+        if (step.done) {
+            journalService.record('search', { event: step.found ? 'found' : 'gave_up', target });
+            restoreState();
+        }
+    } catch (e) {
+        console.warn("Search: Loop Error", e);
+    } finally {
+        isSearchingFrameRef.current = false;
+        if (appStateRef.current === AppState.SEARCHING) setTimeout(runSearchLoop, Math.max(SEARCH_LOOP_DELAY, requestScheduler.backgroundDelay()));
+    }
+  };
+
+  // --- Crossing Loop ---
+  // Takes over from the walking loop while crossing: frames run back to back, and vehicle warnings
+  // preempt everything but emergencies. Speech isn't awaited so a new frame is never held up by the last announcement.
+  // A new loop supersedes any older one still waiting on a frame or a timer
+  const startCrossingLoop = () => {
+    crossingLoopIdRef.current++;
+    isCrossingFrameRef.current = false;
+    runCrossingLoop(crossingLoopIdRef.current);
+  };
+
+  const runCrossingLoop = async (loopId: number) => {
+    if (loopId !== crossingLoopIdRef.current) return;
+    lastLoopTimeRef.current = Date.now();
+    if (appStateRef.current !== AppState.CROSSING || !isCrossingRef.current) return;
+    if (isCrossingFrameRef.current) return;
+    isCrossingFrameRef.current = true;
+
+    try {
+        const frame = await cameraRef.current?.capture(true, true);
+        if (!frame) return;
+        lastFrameRef.current = frame;
+
+        const observation = await analyzeCrossing(frame, abortControllerRef.current?.signal);
+        if (loopId !== crossingLoopIdRef.current) return;
+        if (appStateRef.current !== AppState.CROSSING || !isCrossingRef.current) return;
+
+        const update = crossingMonitor.update(observation);
+        if (update.expired) {
+            isCrossingRef.current = false;
+            journalService.record('crossing', { event: 'timed_out' });
+            await audioService.speak(phrases().crossingTimedOut);
+            restoreState();
+            return;
+        }
+        for (const announcement of update.announcements) {
+            journalService.record('crossing', { event: announcement.kind, text: announcement.text });
+            if (announcement.earcon) hapticService.playCrossing(announcement.earcon);
+            // Vibrations only: an announcement with its own signal isn't spoken
+            if (announcement.earcon && settingsService.get().hapticsOnly) continue;
+            if (announcement.earcon) await audioService.playCrossingEarcon(announcement.earcon, observation?.vehicleDirection);
+            audioService.speak(announcement.text, announcement.priority, { maxAgeMs: 3000 });
+        }
+    } catch (e) {
+        console.warn("CrossingMode: Loop Error", e);
+    } finally {
+        // A superseded loop leaves the in-flight flag and the timer to the loop that replaced it
+        if (loopId === crossingLoopIdRef.current) {
+            isCrossingFrameRef.current = false;
+            lastLoopTimeRef.current = Date.now();
+            if (appStateRef.current === AppState.CROSSING) {
+                loopDelayRef.current = Math.max(CROSSING_LOOP_DELAY, requestScheduler.crossingDelay());
+                setTimeout(() => runCrossingLoop(loopId), loopDelayRef.current);
+            }
         }
     }
   };
 
+  // --- Walking Recordings ---
+  const toggleRecording = () => {
+      if (walkingRecorder.isRecording) {
+          const recording = walkingRecorder.stop();
+          walkingRecorder.download(recording);
+          setIsRecording(false);
+          return;
+      }
+      walkingRecorder.start(getVisionProvider().name);
+      setIsRecording(true);
+  };
+
+  // Feed a recording through the real walking loop in place of the camera and the model
+  const startReplay = (recording: WalkingRecording, speed: number) => {
+      if (walkingRecorder.isRecording) return;
+      hazardTracker.reset();
+      const replay = new WalkingReplay(recording, speed);
+      replay.start();
+      walkingReplayRef.current = replay;
+      setIsReplaying(true);
+      setIsWalkingFeatureActive(true);
+      setAppState(AppState.WALKING);
+  };
+
+  const finishReplay = (replay: WalkingReplay) => {
+      if (walkingReplayRef.current !== replay) return;
+      walkingReplayRef.current = null;
+      const report = replay.finish();
+      // The comparison is for whoever is debugging with ?devtools, not for everyday sessions
+      if (SHOW_DEV_TOOLS) {
+          console.log("Replay: finished", report.matches ? "(hazard announcements match)" : "(hazard announcements differ)");
+          console.table(report.expected.filter(a => a.priority === 'hazard'));
+          console.table(report.actual.filter(a => a.priority === 'hazard'));
+      }
+      setIsReplaying(false);
+      setIsWalkingFeatureActive(false);
+      setAppState(AppState.IDLE);
+      audioService.speak(phrases().replayFinished(report.matches));
+  };
+
   const handleError = useCallback((message: string) => {
     setAppState(AppState.ERROR);
     audioService.playSound('error');
@@ -357,7 +799,9 @@ const App: React.FC = () => {
   }, []);
 
   const restoreState = () => {
-    if (isNavigatingRef.current) setAppState(AppState.NAVIGATING);
+    if (isCrossingRef.current) setAppState(AppState.CROSSING);
+    else if (objectSearch.isActive) setAppState(AppState.SEARCHING);
+    else if (isNavigatingRef.current) setAppState(AppState.NAVIGATING);
     else if (isWalkingFeatureActiveRef.current) setAppState(AppState.WALKING);
     else setAppState(AppState.IDLE);
   };
@@ -366,7 +810,7 @@ const App: React.FC = () => {
     if (interactionIdRef.current !== commandId) return;
 
     if (!transcript) {
-        audioService.speak("I didn't hear you.");
+        audioService.speak(phrases().didntHear);
         restoreState();
         return;
     }
@@ -375,14 +819,107 @@ const App: React.FC = () => {
     audioService.playSound('end'); // Confirm received
 
     try {
-      const intent = await classifyIntent(transcript, signal);
+      let intent = await classifyIntent(transcript, signal, {
+          hasVisualContext: visualSession.isActive(),
+          isNavigating: isNavigatingRef.current,
+          isWalking: isWalkingFeatureActiveRef.current,
+          hasDocument: documentReader.hasDocument(),
+          isSearching: objectSearch.isActive,
+          isCrossing: isCrossingRef.current
+      });
       if (interactionIdRef.current !== commandId) return;
       
-      console.log("Detected Intent:", intent);
+      journalService.record('intent', { ...intent });
+
+      // Follow-up about the last picture: answer against the same frame, no new capture
+      if (intent.type === IntentType.FOLLOW_UP) {
+          const frame = visualSession.getFrame();
+          if (frame) {
+              setAppState(AppState.ANALYZING);
+              const answer = await askAboutImage(frame, visualSession.getHistory(), transcript, signal);
+              if (interactionIdRef.current !== commandId) return;
+              visualSession.addExchange(transcript, answer);
+
+              setAppState(AppState.SPEAKING);
+              await audioService.speak(answer);
+              restoreState();
+              return;
+          }
+          // The picture is too old to ask about: look again with the question as the request
+          intent = { ...intent, type: IntentType.DESCRIBE };
+      }
+      if (intent.type === IntentType.NEW_PICTURE) {
+          visualSession.reset();
+          intent = { ...intent, type: IntentType.DESCRIBE };
+      }
+
+      if (intent.type === IntentType.READER_CONTROL) {
+          if (!documentReader.hasDocument()) {
+              await audioService.speak(phrases().noDocument);
+              restoreState();
+              return;
+          }
+          switch (intent.readerAction) {
+              case 'pause':
+                  // Opening the microphone already stopped the reading; the cursor stays on that sentence
+                  await audioService.speak(phrases().paused);
+                  restoreState();
+                  return;
+              case 'spell': {
+                  const word = documentReader.wordToSpell(intent.value);
+                  await audioService.speak(word ? spellOut(word) : phrases().whichWord);
+                  restoreState();
+                  return;
+              }
+              case 'add_page': {
+                  setAppState(AppState.CAPTURING);
+                  if (!(await frameDocument(phrases().frameNextPage, commandId, signal))) return;
+
+                  const imageBase64 = await captureStill(IntentType.READ_TEXT, commandId);
+                  if (interactionIdRef.current !== commandId) return;
+                  if (!imageBase64) {
+                      handleError(phrases().cameraError);
+                      return;
+                  }
+                  setAppState(AppState.ANALYZING);
+                  const pageText = await analyzeImage(imageBase64, { ...intent, type: IntentType.READ_TEXT }, undefined, signal);
+                  if (interactionIdRef.current !== commandId) return;
+                  const page = documentReader.addPage(pageText, settingsService.get().locale);
+                  visualSession.start(imageBase64, IntentType.READ_TEXT, transcript, pageText);
+                  await audioService.speak(phrases().pageNumber(page));
+                  break;
+              }
+              case 'back':
+                  documentReader.back();
+                  break;
+              case 'forward':
+                  if (!documentReader.forward()) {
+                      await audioService.speak(phrases().lastParagraph);
+                      restoreState();
+                      return;
+                  }
+                  break;
+              case 'repeat':
+                  documentReader.repeat();
+                  break;
+              case 'restart':
+                  documentReader.restart();
+                  break;
+              default: // 'resume'
+                  if (documentReader.isAtEnd) {
+                      await audioService.speak(phrases().endOfDocumentHint);
+                      restoreState();
+                      return;
+                  }
+          }
+          if (interactionIdRef.current !== commandId) return;
+          await readDocument(commandId);
+          return;
+      }
 
       if (intent.type === IntentType.COMPANION_MODE_ON) {
           setIsCompanionMode(true);
-          await audioService.speak("I'm here with you now. Let's go together.");
+          await audioService.speak(phrases().companionOn);
           lastCompanionMsgRef.current = Date.now(); // Reset timer
           if (!isWalkingFeatureActiveRef.current) {
               setIsWalkingFeatureActive(true);
@@ -394,19 +931,92 @@ const App: React.FC = () => {
       }
       if (intent.type === IntentType.COMPANION_MODE_OFF) {
           setIsCompanionMode(false);
-          await audioService.speak("Quiet mode enabled.");
+          await audioService.speak(phrases().companionOff);
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.HANDS_FREE_ON) {
+          settingsService.update({ handsFree: true });
+          await audioService.speak(phrases().handsFreeOn(settingsService.get().wakePhrase));
+          restoreState();
+          return;
+      }
+      if (intent.type === IntentType.HANDS_FREE_OFF) {
+          settingsService.update({ handsFree: false });
+          await audioService.speak(phrases().handsFreeOff);
+          restoreState();
+          return;
+      }
+      if (intent.type === IntentType.HAPTICS_ONLY_ON) {
+          settingsService.update({ hapticsOnly: true });
+          await audioService.speak(phrases().hapticsOnlyOn);
+          restoreState();
+          return;
+      }
+      if (intent.type === IntentType.HAPTICS_ONLY_OFF) {
+          settingsService.update({ hapticsOnly: false });
+          await audioService.speak(phrases().hapticsOnlyOff);
+          restoreState();
+          return;
+      }
+      if (intent.type === IntentType.HAPTICS_TUTORIAL) {
+          setAppState(AppState.SPEAKING);
+          await hapticService.playTutorial(() => interactionIdRef.current === commandId, settingsService.get().locale);
+          if (interactionIdRef.current !== commandId) return;
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.CHANGE_SETTING) {
+          if (!intent.setting) {
+              await audioService.speak(phrases().whichSetting);
+              restoreState();
+              return;
+          }
+          if (intent.setting === 'language') {
+              if (!intent.locale || !isSupportedLocale(intent.locale)) {
+                  await audioService.speak(phrases().languageUnsupported);
+              } else {
+                  // The old voice choice belongs to the old language
+                  settingsService.update({ locale: intent.locale, voiceName: null });
+                  await audioService.speak(getLocale(intent.locale).switchedConfirmation);
+              }
+              restoreState();
+              return;
+          }
+          if (intent.setting === 'wake_phrase') {
+              if (!intent.value) {
+                  await audioService.speak(phrases().whatWakePhrase);
+              } else {
+                  const { wakePhrase, handsFree } = settingsService.update({ wakePhrase: intent.value });
+                  await audioService.speak(phrases().wakePhraseSet(wakePhrase, handsFree));
+              }
+              restoreState();
+              return;
+          }
+          const adjustment = intent.adjustment || 'increase';
+          const confirmation = intent.setting === 'voice'
+              ? audioService.changeVoice(adjustment)
+              : settingsService.adjust(intent.setting, adjustment);
+          // Spoken with the new settings applied, so the user hears the change
+          await audioService.speak(confirmation);
           restoreState();
           return;
       }
 
       if (intent.type === IntentType.NAVIGATE) {
           if (!intent.destination) {
-              await audioService.speak("Where would you like to go?");
+              await audioService.speak(phrases().whereTo);
               restoreState();
               return;
           }
 
-          audioService.speak(`Calculating walking route to ${intent.destination}.`);
+          // "Take me home": a saved label resolves to its exact coordinates
+          const saved = placesService.find(intent.destination);
+          const destinationPoint = saved ? { latitude: saved.latitude, longitude: saved.longitude } : undefined;
+
+          audioService.speak(phrases().calculatingRoute(intent.destination));
           let coords: GeolocationCoordinates | null = null;
           try {
               const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
@@ -416,9 +1026,10 @@ const App: React.FC = () => {
           } catch (e) {}
 
           if (interactionIdRef.current !== commandId) return;
-          const plan = await getWalkingDirections(intent.destination, coords, signal);
+          const plan = await getWalkingDirections(saved ? saved.label : intent.destination, coords, signal, destinationPoint);
           if (interactionIdRef.current !== commandId) return;
           
+          journalService.record('navigation', { event: plan ? 'route' : 'route_not_found', destination: plan?.destination ?? intent.destination, steps: plan?.steps });
           if (plan) {
               setNavPlan(plan);
               setCurrentStepIndex(0);
@@ -428,18 +1039,177 @@ const App: React.FC = () => {
               lastCompanionMsgRef.current = Date.now(); // Reset timer
 
               setAppState(AppState.NAVIGATING); 
-              await audioService.speak(`Route found. ${plan.totalTime}. Starting navigation.`);
+              if (plan.estimated) {
+                  // No map data: the turns can't be announced as they come up, so say the whole route now
+                  const directions = plan.steps.map(step => step.instruction.trim().replace(/[.!]*$/, '.')).join(' ');
+                  const arrival = plan.destinationPoint ? phrases().arrivalAnnounced : phrases().sayStopOnArrival;
+                  await audioService.speak(`${phrases().routeFound(plan.totalTime)} ${phrases().approximateRoute(directions)} ${arrival}`);
+              } else {
+                  await audioService.speak(`${phrases().routeFound(plan.totalTime)} ${phrases().startingNavigation}`);
+              }
+          } else {
+              audioService.speak(phrases().locationNotFound);
+              restoreState();
+          }
+          return;
+      }
+
+      if (intent.type === IntentType.SAVE_PLACE) {
+          if (!intent.placeLabel) {
+              await audioService.speak(phrases().whichPlaceName);
+              restoreState();
+              return;
+          }
+          audioService.speak(phrases().gettingExactLocation);
+          let fix: GeolocationCoordinates | null = null;
+          try {
+              const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
+                  navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 10000, enableHighAccuracy: true, maximumAge: 0 });
+              });
+              fix = pos.coords;
+          } catch (e) {}
+          if (interactionIdRef.current !== commandId) return;
+
+          if (!fix) {
+              await audioService.speak(phrases().noGpsFix);
+          } else {
+              const replaced = placesService.find(intent.placeLabel) !== null;
+              const place = placesService.savePlace(intent.placeLabel, fix);
+              journalService.recordPosition(fix);
+              // A rough fix is still saved, but the user should know arrival may be announced early or late
+              const accuracyNote = fix.accuracy > 30 ? ` ${phrases().roughFix(Math.round(fix.accuracy))}` : '';
+              await audioService.speak(`${phrases().placeSaved(place.label, replaced)}${accuracyNote}`);
+          }
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.LIST_PLACES) {
+          const labels = placesService.list().map(p => p.label);
+          await audioService.speak(labels.length === 0 ? phrases().noPlaces : phrases().places(labels));
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.DELETE_PLACE) {
+          if (!intent.placeLabel) {
+              await audioService.speak(phrases().whichPlaceToDelete);
+          } else {
+              const removed = placesService.removePlace(intent.placeLabel);
+              await audioService.speak(removed ? phrases().placeDeleted(removed.label) : phrases().noSuchPlace(intent.placeLabel));
+          }
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.ADD_CONTACT) {
+          const name = intent.contactName;
+          if (!name) {
+              await audioService.speak(phrases().whoToAdd);
+              restoreState();
+              return;
+          }
+          const phone = phoneFromSpeech(await askFor(phrases().askPhone(name), commandId));
+          if (interactionIdRef.current !== commandId) return;
+          if (!phone) {
+              await audioService.speak(phrases().noPhoneHeard(name));
+              restoreState();
+              return;
+          }
+          const answer = await askFor(phrases().confirmContact(name, spokenPhone(phone)), commandId);
+          if (interactionIdRef.current !== commandId) return;
+          if (!isConfirmation(answer, settingsService.get().locale)) {
+              await audioService.speak(phrases().contactNotAdded(name));
+              restoreState();
+              return;
+          }
+          const { contact, replaced } = emergencyService.saveContact(emergencyService.voiceContact(name, phone));
+          const gatewayNote = emergencyService.canReach(contact) ? '' : ` ${phrases().smsNotConfigured}`;
+          await audioService.speak(`${phrases().contactSaved(name, replaced)}${gatewayNote}`);
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.LIST_CONTACTS) {
+          const names = emergencyService.getContacts().map(c => c.name);
+          await audioService.speak(names.length === 0 ? phrases().noContacts : phrases().contacts(names));
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.REMOVE_CONTACT) {
+          if (!intent.contactName) {
+              await audioService.speak(phrases().whichContact);
           } else {
-              audioService.speak("I couldn't find that location.");
+              const removed = emergencyService.removeContactByName(intent.contactName);
+              await audioService.speak(removed ? phrases().contactRemoved(removed.name) : phrases().noSuchContact(intent.contactName));
+          }
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.FIND_OBJECT) {
+          if (!intent.target) {
+              await audioService.speak(phrases().whatToFind);
+              restoreState();
+              return;
+          }
+          if (isCrossingRef.current) {
+              await audioService.speak(phrases().finishCrossingFirst);
               restoreState();
+              return;
+          }
+          const locale = settingsService.get().locale;
+          objectSearch.start(intent.target, locale);
+          journalService.record('search', { event: 'started', target: intent.target });
+          const paused = isWalkingFeatureActiveRef.current || isNavigatingRef.current;
+          await audioService.speak(phrases().lookingFor(describeTarget(intent.target, locale), paused));
+          if (interactionIdRef.current !== commandId) return;
+          restoreState();
+          return;
+      }
+      if (intent.type === IntentType.STOP_SEARCH) {
+          const target = objectSearch.getTarget();
+          objectSearch.stop();
+          if (target) journalService.record('search', { event: 'cancelled', target });
+          await audioService.speak(target ? phrases().stoppedLooking : phrases().okay);
+          restoreState();
+          return;
+      }
+
+      if (intent.type === IntentType.CROSSING_MODE_ON) {
+          // One camera loop at a time: the crossing matters more than a search
+          if (objectSearch.isActive) {
+              journalService.record('search', { event: 'cancelled', target: objectSearch.getTarget() });
+              objectSearch.stop();
           }
+          crossingMonitor.start(settingsService.get().locale);
+          isCrossingRef.current = true;
+          journalService.record('crossing', { event: 'started' });
+          await audioService.speak(phrases().crossingOn);
+          if (interactionIdRef.current !== commandId) return;
+          restoreState();
+          return;
+      }
+      if (intent.type === IntentType.CROSSING_MODE_OFF) {
+          const wasCrossing = isCrossingRef.current;
+          isCrossingRef.current = false;
+          if (wasCrossing) journalService.record('crossing', { event: 'stopped' });
+          await audioService.speak(wasCrossing ? phrases().crossingOff : phrases().okay);
+          restoreState();
           return;
       }
 
       if (intent.type === IntentType.STOP_NAVIGATION) {
+          // A bare "stop" with nothing running: the button press already silenced us
+          if (!isNavigatingRef.current) {
+              await audioService.speak(phrases().okay);
+              restoreState();
+              return;
+          }
           setIsNavigating(false);
           setNavPlan(null);
-          await audioService.speak("Navigation stopped.");
+          await audioService.speak(phrases().navigationStopped);
           if (isWalkingFeatureActiveRef.current) setAppState(AppState.WALKING);
           else setAppState(AppState.IDLE);
           return;
@@ -449,14 +1219,14 @@ const App: React.FC = () => {
         setIsWalkingFeatureActive(true);
         setIsCompanionMode(true); // AUTO-ENABLE COMPANION ON WALKING
         lastCompanionMsgRef.current = Date.now(); // Reset timer
-        await audioService.speak("Walking mode active. I'm with you.");
+        await audioService.speak(phrases().walkingOn);
         setAppState(AppState.WALKING); 
         return; 
       }
       if (intent.type === IntentType.WALKING_MODE_OFF) {
         setIsWalkingFeatureActive(false);
         setIsCompanionMode(false); // AUTO-DISABLE COMPANION
-        await audioService.speak("Walking mode disabled.");
+        await audioService.speak(phrases().walkingOff);
         setAppState(AppState.IDLE);
         return; 
       }
@@ -472,37 +1242,68 @@ const App: React.FC = () => {
           let location: GeolocationCoordinates | undefined;
           if (intent.type === IntentType.WHERE_AM_I) {
              setAppState(AppState.PROCESSING_INTENT);
-             audioService.speak("Locating...");
+             audioService.speak(phrases().locating);
              try {
                  const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
                      navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 6000 });
                  });
                  location = pos.coords;
+                 journalService.recordPosition(pos.coords);
              } catch (e) {
-                 audioService.speak("GPS signal lost. Checking visual cues.");
+                 audioService.speak(phrases().noGpsCheckingVisually);
              }
           }
 
           if (interactionIdRef.current !== commandId) return;
           setAppState(AppState.CAPTURING);
-          if (intent.type !== IntentType.WHERE_AM_I) audioService.speak("Checking..."); 
-          
-          await new Promise(r => setTimeout(r, 400)); 
-          if (interactionIdRef.current !== commandId) return;
+          if (intent.type === IntentType.READ_TEXT) {
+              // The picture is taken by the framing assistant once the whole page is in view
+              if (!(await frameDocument(phrases().framePage, commandId, signal))) return;
+          } else {
+              if (intent.type !== IntentType.WHERE_AM_I) audioService.speak(phrases().checking); 
+              await new Promise(r => setTimeout(r, 400)); 
+              if (interactionIdRef.current !== commandId) return;
+          }
 
-          const imageBase64 = await cameraRef.current?.capture(false, false);
+          const imageBase64 = await captureStill(intent.type, commandId);
+          if (interactionIdRef.current !== commandId) return;
           if (!imageBase64) {
-            handleError("Camera error.");
+            handleError(phrases().cameraError);
             return;
           }
 
           setAppState(AppState.ANALYZING);
-          
-          const analysis = await analyzeImage(imageBase64, intent, location, signal);
+
+          // Text is read through the document reader so it can be paused, skipped and extended with more pages
+          if (intent.type === IntentType.READ_TEXT) {
+              const text = await analyzeImage(imageBase64, intent, location, signal);
+              if (interactionIdRef.current !== commandId) return;
+              visualSession.start(imageBase64, intent.type, transcript, text);
+              documentReader.open(text, settingsService.get().locale);
+              await readDocument(commandId);
+              return;
+          }
+
+          // Other answers are spoken sentence by sentence while the rest is still being generated
+          const sentences = new SentenceStream(settingsService.get().locale);
+          let lastSentence: Promise<boolean> = Promise.resolve(true);
+          let speaking = false;
+          const say = (sentence: string) => {
+              if (interactionIdRef.current !== commandId) return;
+              if (!speaking) {
+                  speaking = true;
+                  setAppState(AppState.SPEAKING);
+              }
+              lastSentence = audioService.speak(sentence);
+          };
+
+          const analysis = await analyzeImage(imageBase64, intent, location, signal, delta => sentences.push(delta).forEach(say));
           if (interactionIdRef.current !== commandId) return;
-          
-          setAppState(AppState.SPEAKING);
-          await audioService.speak(analysis);
+          visualSession.start(imageBase64, intent.type, transcript, analysis);
+          // Nothing streamed (an error message, or a provider that doesn't stream): speak the whole answer
+          const rest = sentences.text ? sentences.flush() : analysis;
+          if (rest) say(rest);
+          await lastSentence;
           restoreState();
           return; 
       }
@@ -510,25 +1311,152 @@ const App: React.FC = () => {
     } catch (err) {
       if ((err as Error).message === "Aborted") return;
       if (interactionIdRef.current !== commandId) return;
-      handleError("Error processing request.");
+      handleError(phrases().requestError);
     }
   };
 
+  // Ask a question and listen for the answer within the same command. '' when nothing was heard or the command was replaced.
+  const askFor = async (question: string, commandId: number): Promise<string> => {
+      await audioService.speak(question);
+      if (interactionIdRef.current !== commandId) return '';
+      setAppState(AppState.LISTENING);
+      try {
+          return await audioService.listen(15);
+      } catch (e) {
+          return '';
+      } finally {
+          if (interactionIdRef.current === commandId) setAppState(AppState.PROCESSING_INTENT);
+      }
+  };
+
+  // Guide the phone over a page until all of it is in view and steady. Resolves false if the command was replaced;
+  // the picture itself is then taken with captureStill.
+  const frameDocument = async (intro: string, commandId: number, signal: AbortSignal): Promise<boolean> => {
+      documentFramer.start(settingsService.get().locale);
+      await audioService.speak(intro, 'answer');
+      while (interactionIdRef.current === commandId) {
+          const frame = await cameraRef.current?.capture(true, true);
+          if (!frame) return true; // Camera trouble is reported by the capture that follows
+          const framing = await analyzeDocumentFraming(frame, signal);
+          if (interactionIdRef.current !== commandId) return false;
+
+          const blurred = cameraRef.current?.getLastQuality()?.issues.includes('blurry') ?? false;
+          const steady = !blurred && imageQuality.aimingIssue(IntentType.READ_TEXT) !== 'moving';
+          const step = documentFramer.update(framing, steady);
+          if (step.say) await audioService.speak(step.say, 'answer');
+          if (step.capture) return interactionIdRef.current === commandId;
+          await new Promise(r => setTimeout(r, FRAMING_LOOP_DELAY));
+      }
+      return false;
+  };
+
+  // Take a still picture for a question: talk the user into aiming the phone first, then retake once if the
+  // frame came out blurred, covered or badly exposed. Returns null if the camera failed or the command was replaced.
+  // Pages are aimed by frameDocument instead.
+  const captureStill = async (intentType: IntentType, commandId: number): Promise<string | null> => {
+      if (intentType === IntentType.DESCRIBE) {
+          const deadline = Date.now() + AIM_GUIDANCE_MS;
+          let issue = imageQuality.aimingIssue(intentType);
+          while (issue && Date.now() < deadline) {
+              await audioService.speak(describeIssue(issue, settingsService.get().locale), 'answer');
+              await new Promise(r => setTimeout(r, 700));
+              if (interactionIdRef.current !== commandId) return null;
+              issue = imageQuality.aimingIssue(intentType);
+          }
+      }
+
+      const image = await cameraRef.current?.capture(false, false);
+      const quality = cameraRef.current?.getLastQuality();
+      if (!image || !quality || quality.usable || interactionIdRef.current !== commandId) return image ?? null;
+
+      console.log("Capture: Retaking, frame quality", quality.issues, Math.round(quality.sharpness));
+      await audioService.speak(`${describeIssue(quality.issues[0], settingsService.get().locale)} ${phrases().tryingAgain}`, 'answer');
+      await new Promise(r => setTimeout(r, 800));
+      if (interactionIdRef.current !== commandId) return null;
+      // The second picture is sent whatever its quality; a poor answer beats none
+      return (await cameraRef.current?.capture(false, true)) ?? image;
+  };
+
+  // Read the open document from its cursor. Stops early when a tap, gesture or new command takes over.
+  const readDocument = async (commandId: number) => {
+      setAppState(AppState.SPEAKING);
+      const finished = await documentReader.read();
+      if (interactionIdRef.current !== commandId) return;
+      if (finished) {
+          await audioService.speak(phrases().endOfPage(documentReader.pages));
+      }
+      restoreState();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+      gestureStartRef.current = { x: event.clientX, y: event.clientY, at: Date.now() };
+      gestureHandledRef.current = false;
+  };
+
+  // While a document is open: swipe right / left for the next / previous paragraph, long press to pause or continue.
+  // A plain tap still opens the microphone.
+  const handlePointerUp = (event: React.PointerEvent) => {
+      const start = gestureStartRef.current;
+      gestureStartRef.current = null;
+      if (!start || !documentReader.hasDocument()) return;
+      const state = appStateRef.current;
+      if (state !== AppState.IDLE && state !== AppState.WALKING && state !== AppState.NAVIGATING && state !== AppState.SPEAKING) return;
+
+      const dx = event.clientX - start.x;
+      const dy = event.clientY - start.y;
+      if (Math.abs(dx) >= SWIPE_MIN_PX && Math.abs(dx) > 2 * Math.abs(dy)) {
+          gestureHandledRef.current = true;
+          handleReaderGesture(dx > 0 ? 'forward' : 'back');
+      } else if (Date.now() - start.at >= LONG_PRESS_MS && Math.abs(dx) < SWIPE_MIN_PX && Math.abs(dy) < SWIPE_MIN_PX) {
+          gestureHandledRef.current = true;
+          handleReaderGesture(documentReader.isReading ? 'pause' : 'resume');
+      }
+  };
+
+  const handleReaderGesture = (action: 'back' | 'forward' | 'pause' | 'resume') => {
+      audioService.vibrate(30);
+      if (action === 'resume' && documentReader.isAtEnd) {
+          audioService.speak(phrases().endOfDocument);
+          return;
+      }
+      if (action === 'forward' && !documentReader.forward()) {
+          audioService.speak(phrases().lastParagraph);
+          return;
+      }
+      if (action === 'back') documentReader.back();
+      if (action === 'pause') documentReader.pause();
+
+      const commandId = Date.now();
+      interactionIdRef.current = commandId;
+      if (action === 'pause') restoreState();
+      else readDocument(commandId);
+  };
+
   const handleButtonPress = async () => {
+    if (gestureHandledRef.current) {
+        gestureHandledRef.current = false;
+        return;
+    }
     const now = Date.now();
     if (now - lastButtonPressRef.current < 300) return;
     lastButtonPressRef.current = now;
 
     if (appStateRef.current === AppState.EMERGENCY_CHECK) {
         // User manually cancelled emergency check
-        audioService.speak("Emergency check cancelled.");
+        distressFusion.reset();
+        journalService.record('emergency', { event: 'check_cancelled' });
+        audioService.speak(phrases().checkCancelled, 'emergency');
         restoreState();
         return;
     }
     
     if (appStateRef.current === AppState.EMERGENCY_ACTING) {
-        // Reset from triggered state
-        audioService.speak("Emergency mode reset.");
+        // Reset from triggered state. Anyone already alerted gets a false-alarm notice.
+        emergencyActionIdRef.current++;
+        emergencyService.cancel();
+        distressFusion.reset();
+        journalService.record('emergency', { event: 'alert_cancelled' });
+        audioService.speak(phrases().emergencyReset, 'emergency');
         restoreState();
         return;
     }
@@ -538,7 +1466,24 @@ const App: React.FC = () => {
         return; 
     }
 
-    const currentInteractionId = now;
+    motionService.requestPermission(); // iOS only grants motion access from a user gesture
+    imageQuality.requestPermission(); // Likewise for orientation, used to guide aiming
+    audioService.vibrate(50);
+    startCommandCapture();
+  };
+
+  // Hands-free: the wake phrase opens a command exactly like a tap, but never cancels an emergency
+  const handleWake = () => {
+    const state = appStateRef.current;
+    if (state !== AppState.IDLE && state !== AppState.WALKING && state !== AppState.NAVIGATING && state !== AppState.SEARCHING && state !== AppState.CROSSING) return;
+    lastButtonPressRef.current = Date.now();
+    audioService.vibrate([40, 60, 40]); // Double pulse: woken by voice rather than a tap
+    startCommandCapture();
+  };
+
+  // Listen for one command and run it (the 'start' chime plays as the microphone opens)
+  const startCommandCapture = async () => {
+    const currentInteractionId = Date.now();
     interactionIdRef.current = currentInteractionId;
 
     if (abortControllerRef.current) abortControllerRef.current.abort();
@@ -546,10 +1491,7 @@ const App: React.FC = () => {
     const signal = abortControllerRef.current.signal;
 
     audioService.stopSpeaking();
-    if (navTimerRef.current) clearTimeout(navTimerRef.current);
-    
     setAppState(AppState.LISTENING);
-    audioService.vibrate(50);
     
     try {
         let transcript = await audioService.listen();
@@ -557,7 +1499,7 @@ const App: React.FC = () => {
         if (interactionIdRef.current !== currentInteractionId) return;
 
         if (!transcript || transcript.trim().length < 2) {
-             await audioService.speak("I didn’t hear you, please try again.", true);
+             await audioService.speak(phrases().didntHearTryAgain);
              restoreState();
              return;
         }
@@ -577,6 +1519,8 @@ const App: React.FC = () => {
         
     if (appState === AppState.NAVIGATING) return 'bg-emerald-500 shadow-[0_0_60px_rgba(16,185,129,0.6)] animate-pulse scale-105 border-4 border-blue-400';
     if (appState === AppState.WALKING) return 'bg-amber-400 shadow-[0_0_50px_rgba(251,191,36,0.5)] animate-pulse scale-105';
+    if (appState === AppState.CROSSING) return 'bg-orange-500 shadow-[0_0_60px_rgba(249,115,22,0.6)] animate-pulse scale-105 border-4 border-white';
+    if (appState === AppState.SEARCHING) return 'bg-sky-500 shadow-[0_0_50px_rgba(14,165,233,0.5)] animate-pulse';
     switch (appState) {
       case AppState.LISTENING: return 'bg-rose-500 shadow-rose-400'; 
       case AppState.PROCESSING_INTENT: 
@@ -592,6 +1536,8 @@ const App: React.FC = () => {
       if (appState === AppState.EMERGENCY_ACTING) return "EMERGENCY ALERT SENT";
       if (appState === AppState.NAVIGATING) return "Navigating & Safe Walking";
       if (appState === AppState.WALKING) return "Walking Mode Active";
+      if (appState === AppState.SEARCHING) return "Searching...";
+      if (appState === AppState.CROSSING) return "Crossing Mode Active";
       if (appState === AppState.LISTENING) return "Listening...";
       return "SightMate";
   }
@@ -620,8 +1566,10 @@ const App: React.FC = () => {
             <button
             ref={buttonRef}
             onClick={handleButtonPress}
+            onPointerDown={handlePointerDown}
+            onPointerUp={handlePointerUp}
             className={`
-                relative w-72 h-72 rounded-full flex flex-col items-center justify-center
+                relative w-72 h-72 rounded-full flex flex-col items-center justify-center touch-none
                 transition-transform duration-75 ease-out shadow-2xl z-10
                 ${getButtonStyles()}
             `}
@@ -651,6 +1599,21 @@ const App: React.FC = () => {
              )}
         </div>
       </div>
+
+      {SHOW_DEV_TOOLS && (
+          <ReplayControls
+              isRecording={isRecording}
+              isReplaying={isReplaying}
+              onToggleRecording={toggleRecording}
+              onReplay={startReplay}
+          />
+      )}
+
+      {/* Session journal export, for reviewing a walk with a caregiver */}
+      <div className="absolute bottom-4 z-10 flex gap-3 text-xs text-slate-500">
+          <button onClick={() => journalService.download('json')} aria-label="Export session journal as JSON" className="underline">Export journal</button>
+          <button onClick={() => journalService.download('gpx')} aria-label="Export walk as GPX track" className="underline">Export GPX</button>
+      </div>
     </div>
   );
 };
@@ -1,22 +1,72 @@
 import React, { useRef, useEffect, useImperativeHandle, forwardRef, useState } from 'react';
 import { audioService } from '../services/audioService';
+import { imageQuality, assessFrame, QUALITY_WIDTH } from '../services/imageQuality';
+import { getLocale } from '../services/locales';
+import { settingsService } from '../services/settingsService';
+import { FrameQuality, FrameSignature } from '../types';
 
 export interface CameraHandle {
   capture: (lowRes?: boolean, silent?: boolean) => Promise<string | null>;
   isReady: () => boolean;
+  // Signature of the most recent capture, for skipping model calls on an unchanged scene
+  getLastSignature: () => FrameSignature | null;
+  // Sharpness, exposure and occlusion of the most recent capture
+  getLastQuality: () => FrameQuality | null;
 }
 
+// Small enough to compute on every capture, big enough to notice a bike entering a corner of the frame
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+const phrases = () => getLocale(settingsService.get().locale).phrases;
+
 const Camera = forwardRef<CameraHandle>((_, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isCameraReady, setIsCameraReady] = useState(false);
   const streamRef = useRef<MediaStream | null>(null);
+  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastSignatureRef = useRef<FrameSignature | null>(null);
+  const qualityCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastQualityRef = useRef<FrameQuality | null>(null);
+
+  // Downsample the captured frame to a grayscale thumbnail
+  const computeSignature = (source: HTMLCanvasElement): FrameSignature | null => {
+    if (!signatureCanvasRef.current) {
+        signatureCanvasRef.current = document.createElement('canvas');
+        signatureCanvasRef.current.width = SIGNATURE_WIDTH;
+        signatureCanvasRef.current.height = SIGNATURE_HEIGHT;
+    }
+    const ctx = signatureCanvasRef.current.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    const data = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT).data;
+    const luma = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+    for (let i = 0; i < luma.length; i++) {
+        luma[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    }
+    return { luma, width: SIGNATURE_WIDTH, height: SIGNATURE_HEIGHT, capturedAt: Date.now() };
+  };
+
+  // Assess the captured frame at a fixed small width, so thresholds don't depend on the camera resolution
+  const computeQuality = (source: HTMLCanvasElement): FrameQuality | null => {
+    if (!qualityCanvasRef.current) qualityCanvasRef.current = document.createElement('canvas');
+    const qualityCanvas = qualityCanvasRef.current;
+    qualityCanvas.width = QUALITY_WIDTH;
+    qualityCanvas.height = Math.max(1, Math.round(source.height * QUALITY_WIDTH / source.width));
+    const ctx = qualityCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, qualityCanvas.width, qualityCanvas.height);
+    const data = ctx.getImageData(0, 0, qualityCanvas.width, qualityCanvas.height).data;
+    return assessFrame(data, qualityCanvas.width, qualityCanvas.height);
+  };
 
   useEffect(() => {
     let mounted = true;
+    imageQuality.start(); // Phone orientation, for aiming guidance before a capture
 
     const startCamera = async () => {
-      audioService.speak("Opening camera...");
+      audioService.speak(phrases().cameraOpening);
       
       try {
         let mediaStream: MediaStream;
@@ -65,18 +115,18 @@ const Camera = forwardRef<CameraHandle>((_, ref) => {
                     
                     if (mounted) {
                         setIsCameraReady(true);
-                        audioService.speak("Camera ready.");
+                        audioService.speak(phrases().cameraReady);
                     }
                 } catch (e) {
                     console.error("Video play error:", e);
-                    audioService.speak("Camera error. Please restart app.");
+                    audioService.speak(phrases().cameraFailed);
                 }
             };
         }
 
       } catch (err) {
         console.error("Camera Init Error:", err);
-        if (mounted) audioService.speak("Camera error: please check permissions.");
+        if (mounted) audioService.speak(phrases().cameraPermission);
       }
     };
 
@@ -84,6 +134,7 @@ const Camera = forwardRef<CameraHandle>((_, ref) => {
 
     return () => {
       mounted = false;
+      imageQuality.stop();
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
@@ -92,11 +143,13 @@ const Camera = forwardRef<CameraHandle>((_, ref) => {
 
   useImperativeHandle(ref, () => ({
     isReady: () => isCameraReady,
+    getLastSignature: () => lastSignatureRef.current,
+    getLastQuality: () => lastQualityRef.current,
     
     // 6. Proper Capture Flow
     capture: async (lowRes = false, silent = false) => {
         if (!isCameraReady || !videoRef.current || !canvasRef.current) {
-            if (!silent) audioService.speak("Camera is loading...");
+            if (!silent) audioService.speak(phrases().cameraLoading);
             return null;
         }
 
@@ -116,7 +169,7 @@ const Camera = forwardRef<CameraHandle>((_, ref) => {
         canvas.height = video.videoHeight * scale;
 
         // 7. Add Spoken Feedback
-        if (!silent) audioService.speak("Capturing image...");
+        if (!silent) audioService.speak(phrases().capturing);
 
         // g. Draw video frame to canvas
         ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
@@ -136,7 +189,7 @@ const Camera = forwardRef<CameraHandle>((_, ref) => {
         let brightness = checkBrightness();
 
         if (brightness < 15) { // Threshold for "black" or very dark
-             if (!silent) audioService.speak("The image appears to be black. Trying again...");
+             if (!silent) audioService.speak(phrases().imageBlack);
              
              // Wait for exposure adjustment
              await new Promise(r => setTimeout(r, 600));
@@ -144,12 +197,15 @@ const Camera = forwardRef<CameraHandle>((_, ref) => {
              brightness = checkBrightness();
              
              if (brightness < 15) {
-                 if (!silent) audioService.speak("Image is still too dark. Please ensure camera is not covered.");
+                 if (!silent) audioService.speak(phrases().imageStillDark);
                  // We return the image anyway, Gemini might handle it or we could return null
              }
         }
 
-        if (!silent) audioService.speak("Image captured. Processing...");
+        if (!silent) audioService.speak(phrases().imageCaptured);
+
+        lastSignatureRef.current = computeSignature(canvas);
+        lastQualityRef.current = computeQuality(canvas);
 
         // h. Convert to base64
         return canvas.toDataURL('image/jpeg', lowRes ? 0.5 : 0.8);
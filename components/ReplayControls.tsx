@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { WalkingRecording } from '../types';
+import { parseRecording } from '../services/walkingReplay';
+
+interface ReplayControlsProps {
+  isRecording: boolean;
+  isReplaying: boolean;
+  onToggleRecording: () => void;
+  onReplay: (recording: WalkingRecording, speed: number) => void;
+}
+
+// Developer controls for recording and replaying walking sessions. Shown with ?devtools in the URL.
+const ReplayControls: React.FC<ReplayControlsProps> = ({ isRecording, isReplaying, onToggleRecording, onReplay }) => {
+  const [speed, setSpeed] = useState<number>(1);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow loading the same file twice
+    if (!file) return;
+    try {
+      onReplay(parseRecording(await file.text()), speed);
+    } catch (e) {
+      console.warn("Replay: Could not load recording", e);
+    }
+  };
+
+  return (
+    <div className="absolute top-4 right-4 z-20 flex flex-col gap-2 p-3 rounded-lg bg-white/80 text-xs text-slate-700 shadow">
+      <button onClick={onToggleRecording} disabled={isReplaying} className="underline text-left">
+        {isRecording ? '■ Stop recording & save' : '● Record walk'}
+      </button>
+      <label className="flex items-center gap-2">
+        Replay speed
+        <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))}>
+          <option value={1}>1×</option>
+          <option value={2}>2×</option>
+          <option value={4}>4×</option>
+        </select>
+      </label>
+      <label className={isRecording || isReplaying ? 'opacity-50' : 'cursor-pointer underline'}>
+        {isReplaying ? 'Replaying…' : 'Replay recording…'}
+        <input type="file" accept="application/json" className="hidden" disabled={isRecording || isReplaying} onChange={handleFile} />
+      </label>
+    </div>
+  );
+};
+
+export default ReplayControls;
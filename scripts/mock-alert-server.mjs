@@ -0,0 +1,89 @@
+// Local stand-in for the emergency webhook and SMS gateway (see services/emergencyService.ts for the protocol).
+//
+//   npm run mock:alerts
+//
+// Then in .env.local, either of:
+//   ALERT_WEBHOOK_URL=http://localhost:4010/webhook   (alerts include the camera frame)
+//   SMS_GATEWAY_URL=http://localhost:4010/sms          (text only)
+// and add a contact in the app: "add emergency contact Sam".
+//
+// Acknowledge an alert with:  curl -X POST http://localhost:4010/ack/<alertId>
+// or set MOCK_AUTO_ACK_MS to acknowledge automatically after a delay.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 4010);
+const AUTO_ACK_MS = Number(process.env.MOCK_AUTO_ACK_MS || 0);
+
+const acknowledged = new Set();
+
+const readBody = (req) => new Promise((resolve) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+        try { resolve(data ? JSON.parse(data) : {}); } catch (e) { resolve({}); }
+    });
+});
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+    });
+    res.end(JSON.stringify(body));
+};
+
+const scheduleAutoAck = (alertId) => {
+    if (AUTO_ACK_MS > 0) setTimeout(() => {
+        acknowledged.add(alertId);
+        console.log(`[ack] ${alertId} (auto)`);
+    }, AUTO_ACK_MS);
+};
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    if (req.method === 'OPTIONS') return send(res, 204, {});
+
+    // Webhook channel
+    if (parts[0] === 'webhook' && req.method === 'POST') {
+        const body = await readBody(req);
+        if (body.event === 'alert') {
+            const { alert } = body;
+            console.log(`[webhook] ALERT ${alert.id} for ${body.contact?.name} (${body.contact?.phone || 'no phone'}): ${alert.message}`);
+            console.log(`          location=${body.mapsUrl || 'unknown'} frame=${alert.frame ? `${alert.frame.length} chars` : 'none'}`);
+            scheduleAutoAck(alert.id);
+        } else {
+            console.log(`[webhook] ${body.event} ${body.alertId}`);
+        }
+        return send(res, 200, { ok: true });
+    }
+    if (parts[0] === 'webhook' && req.method === 'GET' && parts[1]) {
+        return send(res, 200, { acknowledged: acknowledged.has(parts[1]) });
+    }
+
+    // SMS gateway channel
+    if (parts[0] === 'sms' && parts[1] === 'messages' && req.method === 'POST') {
+        const body = await readBody(req);
+        console.log(`[sms] to ${body.to}: ${body.body}`);
+        if (body.alertId) scheduleAutoAck(body.alertId);
+        return send(res, 200, { ok: true });
+    }
+    if (parts[0] === 'sms' && parts[1] === 'alerts' && parts[3] === 'ack' && req.method === 'GET') {
+        return send(res, 200, { acknowledged: acknowledged.has(parts[2]) });
+    }
+
+    // Manual acknowledgement
+    if (parts[0] === 'ack' && parts[1] && req.method === 'POST') {
+        acknowledged.add(parts[1]);
+        console.log(`[ack] ${parts[1]}`);
+        return send(res, 200, { ok: true });
+    }
+
+    send(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => console.log(`Mock alert server listening on http://localhost:${PORT}`));
@@ -1,4 +1,52 @@
-import { EmergencySeverity } from "../types";
+import { CrossingEarcon, CrossingObservation, EmergencySeverity, SettingAdjustment, SpeechPriority, WalkingHazard } from "../types";
+import { settingsService } from "./settingsService";
+import { getLocale, includesAny } from "./locales";
+
+export interface SpeakOptions {
+  // Drop the message if it hasn't started within this many ms (defaults per class below)
+  maxAgeMs?: number;
+  // Fired when the utterance actually starts, e.g. to play a cue sound right before it
+  onStart?: () => void;
+  // Fired with each word as the engine reaches it (not every engine reports word boundaries)
+  onWord?: (word: string) => void;
+}
+
+interface QueuedUtterance {
+  text: string;
+  priority: SpeechPriority;
+  enqueuedAt: number;
+  expiresAt: number | null;
+  spokenChars: number;
+  onStart?: () => void;
+  onWord?: (word: string) => void;
+  resolve: (spoken: boolean) => void;
+}
+
+// Speech Queue Policy
+const SPEECH_RANK: Record<SpeechPriority, number> = { emergency: 4, hazard: 3, navigation: 2, answer: 1, companion: 0 };
+const SPEECH_MAX_AGE: Partial<Record<SpeechPriority, number>> = { hazard: 3000, companion: 5000 };
+// What happens to an utterance when a higher class cuts in
+const SPEECH_INTERRUPT_POLICY: Record<SpeechPriority, 'resume' | 'requeue' | 'drop'> = {
+  emergency: 'requeue',
+  hazard: 'drop',
+  navigation: 'requeue',
+  answer: 'resume',
+  companion: 'drop'
+};
+
+// Hazard Earcon Mapping
+const EARCON_PAN: Record<WalkingHazard['direction'], number> = { left: -0.9, center: 0, right: 0.9, unknown: 0 };
+const EARCON_PITCH: Record<WalkingHazard['severity'], number> = { low: 440, medium: 660, high: 988 };
+const EARCON_TEMPO: Record<WalkingHazard['distance'], { beeps: number; interval: number }> = {
+  far: { beeps: 1, interval: 0 },
+  unknown: { beeps: 1, interval: 0 },
+  medium: { beeps: 2, interval: 0.3 },
+  near: { beeps: 3, interval: 0.2 } // Each beep rings ~0.16s (playTone's release), so beeps must be further apart to stay separate
+};
+
+// Hands-free: ignore the wake phrase this long after we stop speaking (speaker echo), and after a wake
+const WAKE_ECHO_GUARD_MS = 800;
+const WAKE_COOLDOWN_MS = 3000;
 
 // AudioService handles Speech Recognition, Synthesis, and Sound Effects
 export class AudioService {
@@ -30,9 +78,17 @@ export class AudioService {
   private voices: SpeechSynthesisVoice[] = [];
   public isSpeaking: boolean = false;
   private currentUtterance: SpeechSynthesisUtterance | null = null;
+  private currentItem: QueuedUtterance | null = null;
+  private speechQueue: QueuedUtterance[] = [];
 
   // Distress Callback
   private onDistressCallback: ((type: string, severity: EmergencySeverity) => void) | null = null;
+  private spokenListeners: ((text: string, priority: SpeechPriority) => void)[] = [];
+
+  // Hands-free wake phrase
+  private onWakeCallback: (() => void) | null = null;
+  private lastSpeechEndedAt: number = 0;
+  private lastWakeAt: number = 0;
   private noiseCheckInterval: any = null;
 
   constructor() {
@@ -52,12 +108,21 @@ export class AudioService {
       this.backgroundRecognition = new SpeechRecognition();
       this.backgroundRecognition.continuous = true;
       this.backgroundRecognition.interimResults = true;
-      this.backgroundRecognition.lang = 'en-US';
+      this.backgroundRecognition.lang = settingsService.get().locale;
       this.backgroundRecognition.maxAlternatives = 1;
 
       this.setupBackgroundRecognition();
     }
 
+    // Follow locale changes: restart keyword monitoring in the new language
+    settingsService.subscribe((settings) => {
+      if (!this.backgroundRecognition || this.backgroundRecognition.lang === settings.locale) return;
+      this.backgroundRecognition.lang = settings.locale;
+      if (this.isMonitoring && !this.isListening) {
+          try { this.backgroundRecognition.stop(); } catch (e) {} // onend restarts it
+      }
+    });
+
     this.initAudioContext();
   }
 
@@ -124,37 +189,40 @@ export class AudioService {
       return Math.min(Math.max(average / 128.0, 0), 1.0); 
   }
 
-  // --- Background Monitoring (Distress) ---
+  // --- Background Monitoring (Distress & Wake Phrase) ---
+
+  // Background recognition serves both the distress keywords and the hands-free wake phrase
+  private get backgroundWanted(): boolean {
+      return this.isMonitoring || this.onWakeCallback !== null;
+  }
 
   private setupBackgroundRecognition() {
       if (!this.backgroundRecognition) return;
 
       this.backgroundRecognition.onresult = (event: any) => {
-          if (!this.isMonitoring || this.isListening) return;
+          if (this.isListening) return;
           
           const results = event.results;
           const lastResult = results[results.length - 1];
           const transcript = lastResult[0].transcript.toLowerCase().trim();
 
+          if (this.onWakeCallback && this.heardWakePhrase(transcript)) {
+              this.lastWakeAt = Date.now();
+              this.onWakeCallback();
+              return;
+          }
+          if (!this.isMonitoring) return;
+
+          const locale = getLocale(settingsService.get().locale);
+
           // High Severity Keywords
-          if (transcript.includes('help') || 
-              transcript.includes('emergency') || 
-              transcript.includes('call 911') ||
-              transcript.includes('scream') || // Metaphorical, but sometimes STT picks up sounds
-              transcript.includes('no no no')) {
-              
+          if (includesAny(transcript, locale.distressHigh)) {
               if (this.onDistressCallback) this.onDistressCallback('keyword_high', 'high');
               return;
           }
 
           // Medium Severity Keywords
-          if (transcript.includes('ouch') || 
-              transcript.includes('hurt') || 
-              transcript.includes('pain') ||
-              transcript.includes('fell') ||
-              transcript.includes('falling') ||
-              transcript.includes('stop it')) {
-              
+          if (includesAny(transcript, locale.distressMedium)) {
               if (this.onDistressCallback) this.onDistressCallback('keyword_med', 'medium');
           }
       };
@@ -162,18 +230,43 @@ export class AudioService {
       this.backgroundRecognition.onerror = (e: any) => {};
       
       this.backgroundRecognition.onend = () => {
-          if (this.isMonitoring && !this.isListening) {
+          if (this.backgroundWanted && !this.isListening) {
               try {
                   this.backgroundRecognition.start();
               } catch (e) {
                   setTimeout(() => {
-                      if (this.isMonitoring && !this.isListening) try { this.backgroundRecognition.start(); } catch(e){}
+                      if (this.backgroundWanted && !this.isListening) try { this.backgroundRecognition.start(); } catch(e){}
                   }, 1000);
               }
           }
       };
   }
 
+  // Spacing and punctuation are ignored ("hey sight mate"). Nothing counts while we are talking, or just
+  // after, so our own voice (e.g. "SightMate ready") can't wake us.
+  private heardWakePhrase(transcript: string): boolean {
+      const now = Date.now();
+      if (this.isSpeaking || now - this.lastSpeechEndedAt < WAKE_ECHO_GUARD_MS) return false;
+      if (now - this.lastWakeAt < WAKE_COOLDOWN_MS) return false; // Interim results repeat the phrase
+      const compact = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+      const phrase = compact(settingsService.get().wakePhrase);
+      return phrase.length > 0 && compact(transcript).includes(phrase);
+  }
+
+  startWakeListener(callback: () => void) {
+      this.onWakeCallback = callback;
+      if (!this.isListening && this.backgroundRecognition) {
+          try { this.backgroundRecognition.start(); } catch (e) { } // Already running for distress keywords
+      }
+  }
+
+  stopWakeListener() {
+      this.onWakeCallback = null;
+      if (!this.backgroundWanted) {
+          try { this.backgroundRecognition?.stop(); } catch (e) {}
+      }
+  }
+
   // Monitor Amplitude for loud noises (Thuds, Screams, Crashes)
   private startNoiseListener() {
       if (this.noiseCheckInterval) clearInterval(this.noiseCheckInterval);
@@ -186,9 +279,9 @@ export class AudioService {
           
           const amp = this.getAmplitude();
           
-          // Thresholds
+          // Thresholds (user setting, default 0.85)
           // 0.8 is very loud (near clipping). 0.6 is loud speech.
-          if (amp > 0.85) {
+          if (amp > settingsService.get().distressNoiseThreshold) {
                console.log("LOUD NOISE DETECTED:", amp);
                if (this.onDistressCallback) this.onDistressCallback('loud_noise', 'medium');
                // Debounce
@@ -219,20 +312,31 @@ export class AudioService {
   stopDistressListener() {
       this.isMonitoring = false;
       if (this.noiseCheckInterval) clearInterval(this.noiseCheckInterval);
-      try { this.backgroundRecognition.stop(); } catch (e) {}
+      if (!this.backgroundWanted) {
+          try { this.backgroundRecognition.stop(); } catch (e) {}
+      }
   }
 
   // --- Sound Generation ---
 
-  private playTone(freq: number, startTime: number, duration: number, vol: number = 0.1) {
-    if (!this.audioContext) return;
+  // pan: -1 (full left) .. 1 (full right). Returns when the tone falls silent, in AudioContext time.
+  private playTone(freq: number, startTime: number, duration: number, vol: number = 0.1, pan: number = 0, wave: OscillatorType = 'sine'): number {
+    if (!this.audioContext) return startTime;
     const osc = this.audioContext.createOscillator();
     const gain = this.audioContext.createGain();
     
-    osc.type = 'sine'; 
+    osc.type = wave; 
     osc.frequency.setValueAtTime(freq, startTime);
     osc.connect(gain);
-    gain.connect(this.audioContext.destination);
+
+    if (pan !== 0 && this.audioContext.createStereoPanner) {
+        const panner = this.audioContext.createStereoPanner();
+        panner.pan.setValueAtTime(pan, startTime);
+        gain.connect(panner);
+        panner.connect(this.audioContext.destination);
+    } else {
+        gain.connect(this.audioContext.destination);
+    }
 
     gain.gain.setValueAtTime(0, startTime);
     gain.gain.linearRampToValueAtTime(vol, startTime + 0.05);
@@ -241,6 +345,13 @@ export class AudioService {
 
     osc.start(startTime);
     osc.stop(startTime + duration + 0.15);
+    return startTime + duration + 0.15;
+  }
+
+  // Resolves once the AudioContext clock reaches endTime, so callers can wait for scheduled tones to finish
+  private untilSilent(endTime: number): Promise<void> {
+    const remainingMs = this.audioContext ? (endTime - this.audioContext.currentTime) * 1000 : 0;
+    return new Promise(resolve => setTimeout(resolve, Math.max(0, remainingMs)));
   }
 
   async playSound(type: 'start' | 'end' | 'success' | 'error' | 'warning' | 'navigation') {
@@ -281,22 +392,120 @@ export class AudioService {
     }
   }
 
+  // Directional hazard earcon: panned to the hazard's side, pitch rises with severity, beeps get faster as it gets closer.
+  // Short enough (about half a second) to land before the spoken warning; resolves when the last beep ends.
+  async playHazardEarcon(hazard: Pick<WalkingHazard, 'direction' | 'distance' | 'severity'>) {
+    if (!this.audioContext) this.initAudioContext();
+    if (!this.audioContext) return;
+
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    const pan = EARCON_PAN[hazard.direction];
+    const freq = EARCON_PITCH[hazard.severity];
+    const { beeps, interval } = EARCON_TEMPO[hazard.distance];
+    const wave: OscillatorType = hazard.severity === 'high' ? 'square' : 'triangle';
+    const now = this.audioContext.currentTime;
+
+    let end = now;
+    for (let i = 0; i < beeps; i++) {
+        end = this.playTone(freq, now + i * interval, 0.06, 0.12, pan, wave);
+    }
+    await this.untilSilent(end);
+  }
+
+  // Crossing earcons, deliberately unlike the hazard and UI sounds: rapid ticks for WALK (like accessible
+  // pedestrian signals), a low slow pair for DON'T WALK, a single tick per countdown announcement, a sweep
+  // on the side to step towards when drifting, and a harsh low buzz on the vehicle's side. Resolves when it ends.
+  async playCrossingEarcon(earcon: CrossingEarcon, vehicleDirection: CrossingObservation['vehicleDirection'] = 'unknown') {
+    if (!this.audioContext) this.initAudioContext();
+    if (!this.audioContext) return;
+
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+
+    const now = this.audioContext.currentTime;
+    let end = now;
+    switch (earcon) {
+      case 'walk':
+        for (let i = 0; i < 6; i++) end = this.playTone(1760, now + i * 0.07, 0.02, 0.12, 0, 'square');
+        break;
+      case 'dont_walk':
+        this.playTone(330, now, 0.25, 0.15, 0, 'sawtooth');
+        end = this.playTone(262, now + 0.35, 0.35, 0.15, 0, 'sawtooth');
+        break;
+      case 'countdown':
+        end = this.playTone(1175, now, 0.05, 0.12, 0, 'square');
+        break;
+      case 'veer_left': // Drifting left: the sound comes from the right, where the user should step
+      case 'veer_right': {
+        const side = earcon === 'veer_left' ? 0.9 : -0.9;
+        this.playTone(600, now, 0.08, 0.12, side, 'sine');
+        this.playTone(900, now + 0.08, 0.08, 0.12, side, 'sine');
+        end = this.playTone(1200, now + 0.16, 0.1, 0.12, side, 'sine');
+        break;
+      }
+      case 'vehicle':
+        this.playTone(150, now, 0.3, 0.2, EARCON_PAN[vehicleDirection], 'square');
+        end = this.playTone(150, now + 0.35, 0.3, 0.2, EARCON_PAN[vehicleDirection], 'square');
+        break;
+    }
+    await this.untilSilent(end);
+  }
+
   // --- TTS ---
 
   getPreferredVoice(): SpeechSynthesisVoice | null {
     if (this.voices.length === 0) {
         this.voices = this.synthesis.getVoices();
     }
+
+    // User's explicit choice wins
+    const chosen = settingsService.get().voiceName;
+    if (chosen) {
+        const found = this.voices.find(v => v.name === chosen);
+        if (found) return found;
+    }
     
-    const preferredNames = ['Google US English', 'Samantha', 'Microsoft Zira', 'Karen', 'Victoria'];
-    for (const name of preferredNames) {
-        const found = this.voices.find(v => v.name.includes(name));
+    const locale = getLocale(settingsService.get().locale);
+    const sameLanguage = this.getLocaleVoices();
+    for (const name of locale.preferredVoices) {
+        const found = sameLanguage.find(v => v.name.includes(name));
         if (found) return found;
     }
-    return this.voices.find(v => v.lang === 'en-US') || null;
+    return sameLanguage.find(v => v.lang.replace('_', '-') === locale.code) || sameLanguage[0] || null;
+  }
+
+  // Installed voices that speak the current locale's language (any region)
+  private getLocaleVoices(): SpeechSynthesisVoice[] {
+    const language = settingsService.get().locale.split('-')[0];
+    return this.voices.filter(v => v.lang.toLowerCase().startsWith(language));
+  }
+
+  // "Use a different voice": step through the installed voices for the current language. Returns the confirmation to say.
+  changeVoice(adjustment: SettingAdjustment): string {
+    const phrases = getLocale(settingsService.get().locale).phrases;
+    if (adjustment === 'reset') {
+        settingsService.update({ voiceName: null });
+        return phrases.usualVoice;
+    }
+
+    if (this.voices.length === 0) this.voices = this.synthesis.getVoices();
+    const candidates = this.getLocaleVoices();
+    if (candidates.length < 2) return phrases.noOtherVoices;
+
+    const current = this.getPreferredVoice();
+    const index = current ? candidates.findIndex(v => v.name === current.name) : -1;
+    const next = candidates[(index + 1) % candidates.length];
+    settingsService.update({ voiceName: next.name });
+    return phrases.voiceChanged(next.name);
   }
 
-  speak(text: string, priority: boolean = false): Promise<void> {
+  // Queue an utterance. Higher classes preempt lower ones; equal or lower classes wait their turn.
+  // Resolves true once the text has been spoken, false when it is dropped (stale, interrupted companion, stopSpeaking).
+  speak(text: string, priority: SpeechPriority = 'answer', options: SpeakOptions = {}): Promise<boolean> {
     const cleanText = text.replace(/<[^>]*>/g, ''); 
 
     // Ensure AudioContext is active (mobile browsers sometimes suspend it)
@@ -305,46 +514,159 @@ export class AudioService {
     }
 
     return new Promise((resolve) => {
-      // Immediate cancellation if priority
-      if (priority || this.isSpeaking) {
-        this.synthesis.cancel();
+      const now = Date.now();
+      const maxAge = options.maxAgeMs ?? SPEECH_MAX_AGE[priority];
+      const item: QueuedUtterance = {
+          text: cleanText,
+          priority,
+          enqueuedAt: now,
+          expiresAt: maxAge !== undefined ? now + maxAge : null,
+          spokenChars: 0,
+          onStart: options.onStart,
+          onWord: options.onWord,
+          resolve
+      };
+
+      if (priority === 'hazard') {
+          // Only the latest hazard matters. Drop any older pending ones.
+          this.speechQueue = this.speechQueue.filter(q => {
+              if (q.priority !== 'hazard') return true;
+              q.resolve(false);
+              return false;
+          });
       }
 
-      this.isSpeaking = true;
-      const utterance = new SpeechSynthesisUtterance(cleanText);
-      this.currentUtterance = utterance;
-      
-      const voice = this.getPreferredVoice();
-      if (voice) utterance.voice = voice;
-      
-      utterance.rate = 1.1;  
-      utterance.pitch = 1.0; 
-      utterance.volume = 1.0; 
-
-      utterance.onend = () => {
-          this.isSpeaking = false;
-          this.currentUtterance = null;
-          resolve();
-      };
-      
-      utterance.onerror = () => {
-          this.isSpeaking = false;
-          this.currentUtterance = null;
-          // Even on error, resolve so chain continues
-          resolve();
-      };
+      this.enqueue(item, false);
 
-      this.synthesis.speak(utterance);
+      const current = this.currentItem;
+      if (current) {
+          const preempts = SPEECH_RANK[priority] > SPEECH_RANK[current.priority] ||
+                           (priority === 'hazard' && current.priority === 'hazard');
+          if (preempts) this.interruptCurrent();
+      }
+
+      this.pumpSpeechQueue();
     });
   }
 
+  // Insert keeping the queue ordered by class, FIFO within a class.
+  // Resumed items go to the front of their class so they finish before newer messages of the same kind.
+  private enqueue(item: QueuedUtterance, atFrontOfClass: boolean) {
+    const rank = SPEECH_RANK[item.priority];
+    let index = this.speechQueue.findIndex(q => atFrontOfClass ? SPEECH_RANK[q.priority] <= rank : SPEECH_RANK[q.priority] < rank);
+    if (index === -1) index = this.speechQueue.length;
+    this.speechQueue.splice(index, 0, item);
+  }
+
+  private interruptCurrent() {
+    const item = this.currentItem;
+    if (!item) return;
+    this.currentItem = null;
+    this.currentUtterance = null;
+
+    const policy = SPEECH_INTERRUPT_POLICY[item.priority];
+    if (policy === 'drop') {
+        item.resolve(false);
+    } else {
+        // Resume from the start of the sentence that was cut off, or repeat the whole message
+        let resumeAt = 0;
+        if (policy === 'resume' && item.spokenChars > 0) {
+            const spoken = item.text.slice(0, item.spokenChars);
+            const sentenceEnd = Math.max(spoken.lastIndexOf('. '), spoken.lastIndexOf('! '), spoken.lastIndexOf('? '));
+            if (sentenceEnd !== -1) resumeAt = sentenceEnd + 2;
+        }
+        item.text = item.text.slice(resumeAt);
+        item.spokenChars = 0;
+        this.enqueue(item, true);
+    }
+
+    this.synthesis.cancel();
+  }
+
+  private pumpSpeechQueue() {
+    if (this.currentItem) return;
+
+    const now = Date.now();
+    while (this.speechQueue.length > 0) {
+        const next = this.speechQueue.shift()!;
+        if (next.expiresAt !== null && now > next.expiresAt) {
+            // Stale (e.g. a companion phrase that waited behind a long answer)
+            next.resolve(false);
+            continue;
+        }
+        this.startUtterance(next);
+        return;
+    }
+
+    this.isSpeaking = false;
+  }
+
+  private startUtterance(item: QueuedUtterance) {
+    this.isSpeaking = true;
+    this.currentItem = item;
+
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    this.currentUtterance = utterance;
+    
+    const voice = this.getPreferredVoice();
+    if (voice) utterance.voice = voice;
+    utterance.lang = voice ? voice.lang : settingsService.get().locale;
+    
+    utterance.rate = settingsService.get().speechRate;  
+    utterance.pitch = 1.0; 
+    utterance.volume = 1.0; 
+
+    utterance.onboundary = (event: SpeechSynthesisEvent) => {
+        if (this.currentItem !== item) return;
+        item.spokenChars = event.charIndex;
+        if (item.onWord && event.name !== 'sentence') {
+            const word = item.text.slice(event.charIndex).match(/^[^\s.,;:!?"“”()]+/);
+            if (word) item.onWord(word[0]);
+        }
+    };
+
+    const finish = (spoken: boolean) => {
+        // Ignore late events from an utterance we already interrupted or cancelled
+        if (this.currentItem !== item) return;
+        this.currentItem = null;
+        this.currentUtterance = null;
+        this.lastSpeechEndedAt = Date.now();
+        item.resolve(spoken);
+        this.pumpSpeechQueue();
+    };
+
+    utterance.onend = () => finish(true);
+    // Even on error, resolve so chain continues
+    utterance.onerror = () => finish(false);
+
+    if (item.onStart) item.onStart();
+    this.spokenListeners.forEach(listener => listener(item.text, item.priority));
+    this.synthesis.speak(utterance);
+  }
+
+  // Observe every utterance as it starts (walking recordings compare what the user actually heard)
+  onSpoken(listener: (text: string, priority: SpeechPriority) => void): () => void {
+    this.spokenListeners.push(listener);
+    return () => { this.spokenListeners = this.spokenListeners.filter(l => l !== listener); };
+  }
+
+  // Clear the whole queue and stop immediately
   stopSpeaking() {
+    const pending = this.speechQueue;
+    const current = this.currentItem;
+    this.speechQueue = [];
+    this.currentItem = null;
+    this.currentUtterance = null;
+
     // Synchronous immediate stop
     if (this.synthesis.speaking || this.synthesis.pending) {
         this.synthesis.cancel();
     }
     this.isSpeaking = false;
-    this.currentUtterance = null;
+    if (current) this.lastSpeechEndedAt = Date.now();
+
+    if (current) current.resolve(false);
+    pending.forEach(q => q.resolve(false));
   }
 
   // --- PTT Listening (Instant & Robust) ---
@@ -375,7 +697,7 @@ export class AudioService {
 
       // 1. INSTANT INTERRUPT (No awaiting)
       this.stopSpeaking();
-      if (this.isMonitoring) {
+      if (this.backgroundWanted) {
           try { this.backgroundRecognition.stop(); } catch(e){}
       }
       
@@ -413,7 +735,7 @@ export class AudioService {
           this.recognition = new SpeechRecognition();
           this.recognition.continuous = true; 
           this.recognition.interimResults = true;
-          this.recognition.lang = 'en-US';
+          this.recognition.lang = settingsService.get().locale;
           
           this.sessionTranscript = "";
 
@@ -435,7 +757,7 @@ export class AudioService {
           this.recognition.onerror = (event: any) => {
               if (event.error === 'not-allowed') {
                   this._finalizeAndResolve();
-                  this.speak("Microphone access denied.");
+                  this.speak(getLocale(settingsService.get().locale).phrases.microphoneDenied);
               } else if (event.error === 'no-speech') {
                   // Ignore, will just close or restart logic
               }
@@ -471,9 +793,9 @@ export class AudioService {
   private _resetSilenceTimer() {
       if (this.silenceTimer) clearTimeout(this.silenceTimer);
       this.silenceTimer = setTimeout(() => {
-          // 2.5s of TRUE silence triggers stop
+          // N seconds of TRUE silence triggers stop (user setting, default 2.5s)
           this.stopListening();
-      }, 2500);
+      }, settingsService.get().silenceTimeoutMs);
   }
 
   private _finalizeAndResolve() {
@@ -493,6 +815,8 @@ export class AudioService {
       if (this.isMonitoring) {
           // Restart noise detection if it was stopped
           this.startNoiseListener();
+      }
+      if (this.backgroundWanted) {
           setTimeout(() => {
               try { this.backgroundRecognition.start(); } catch(e){}
           }, 500);
@@ -0,0 +1,164 @@
+import { CrossingEarcon, CrossingObservation, SpeechPriority } from "../types";
+import { DEFAULT_LOCALE, getLocale } from "./locales";
+
+// CrossingMonitor follows the pedestrian signal, the user's heading on the crosswalk and approaching
+// vehicles across consecutive frames at a street crossing. It speaks only when something changes:
+// a new signal state, the start of a drift off the zebra stripes, a vehicle starting to approach.
+// Each change needs to be seen on consecutive frames, so one misread frame doesn't flip the signal.
+
+export interface CrossingAnnouncement {
+    kind: 'signal' | 'veer' | 'vehicle';
+    earcon: CrossingEarcon | null;
+    text: string;
+    priority: SpeechPriority;
+}
+
+export interface CrossingUpdate {
+    announcements: CrossingAnnouncement[];
+    expired: boolean; // Crossing mode has run for its maximum time
+}
+
+// Consecutive frames needed before a new signal state or a drift is believed
+const SIGNAL_CONFIRM_FRAMES = 2;
+const VEER_CONFIRM_FRAMES = 2;
+// Observations below this confidence are skipped
+const MIN_CONFIDENCE = 0.4;
+// Remind a user who is still drifting, or still has a vehicle approaching, this often
+const VEER_REPEAT_MS = 3000;
+const VEHICLE_REPEAT_MS = 4000;
+// Countdowns are announced when they start and once more when time is nearly up
+const COUNTDOWN_WARNING_SECONDS = 5;
+// Crossing mode switches itself off after this long; a crossing takes well under a minute
+const CROSSING_TIMEOUT_MS = 3 * 60 * 1000;
+
+type Signal = CrossingObservation['signal'];
+type Alignment = CrossingObservation['alignment'];
+
+export class CrossingMonitor {
+    private localeCode = DEFAULT_LOCALE;
+    private startedAt = 0;
+    private signal: Signal = 'unknown';           // Confirmed signal state
+    private pendingSignal: { signal: Signal; frames: number } | null = null;
+    private countdownWarned = false;
+    private alignment: Alignment = 'aligned';     // Confirmed heading
+    private pendingAlignment: { alignment: Alignment; frames: number } | null = null;
+    private lastVeerWarningAt = 0;
+    private vehicleApproaching = false;
+    private lastVehicleWarningAt = 0;
+
+    start(localeCode: string, now: number = Date.now()) {
+        this.localeCode = localeCode;
+        this.startedAt = now;
+        this.signal = 'unknown';
+        this.pendingSignal = null;
+        this.countdownWarned = false;
+        this.alignment = 'aligned';
+        this.pendingAlignment = null;
+        this.lastVeerWarningAt = 0;
+        this.vehicleApproaching = false;
+        this.lastVehicleWarningAt = 0;
+    }
+
+    private get phrases() {
+        return getLocale(this.localeCode).phrases;
+    }
+
+    getSignal(): Signal {
+        return this.signal;
+    }
+
+    // Feed the result of one analysed frame (null = the model failed on this frame)
+    update(observation: CrossingObservation | null, now: number = Date.now()): CrossingUpdate {
+        if (now - this.startedAt > CROSSING_TIMEOUT_MS) return { announcements: [], expired: true };
+        if (!observation || observation.confidence < MIN_CONFIDENCE) return { announcements: [], expired: false };
+
+        const announcements: CrossingAnnouncement[] = [];
+        // Vehicles first: they matter more than the signal and preempt everything else
+        const vehicle = this.updateVehicle(observation, now);
+        if (vehicle) announcements.push(vehicle);
+        const signal = this.updateSignal(observation);
+        if (signal) announcements.push(signal);
+        const veer = this.updateAlignment(observation.alignment, now);
+        if (veer) announcements.push(veer);
+        return { announcements, expired: false };
+    }
+
+    private updateVehicle(observation: CrossingObservation, now: number): CrossingAnnouncement | null {
+        const approaching = observation.vehicle === 'approaching';
+        const wasApproaching = this.vehicleApproaching;
+        this.vehicleApproaching = approaching;
+        if (!approaching) return null;
+        if (wasApproaching && now - this.lastVehicleWarningAt < VEHICLE_REPEAT_MS) return null;
+        this.lastVehicleWarningAt = now;
+        return { kind: 'vehicle', earcon: 'vehicle', text: this.phrases.vehicleApproaching(observation.vehicleDirection), priority: 'hazard' };
+    }
+
+    private updateSignal(observation: CrossingObservation): CrossingAnnouncement | null {
+        const reading = observation.signal;
+        // A signal that can't be read keeps the last confirmed state
+        if (reading === 'unknown') return null;
+
+        if (reading === this.signal) {
+            this.pendingSignal = null;
+            return this.countdownReminder(observation);
+        }
+        this.pendingSignal = this.pendingSignal?.signal === reading
+            ? { signal: reading, frames: this.pendingSignal.frames + 1 }
+            : { signal: reading, frames: 1 };
+        if (this.pendingSignal.frames < SIGNAL_CONFIRM_FRAMES) return null;
+
+        this.signal = reading;
+        this.pendingSignal = null;
+        this.countdownWarned = false;
+        switch (reading) {
+            case 'walk':
+                return { kind: 'signal', earcon: 'walk', text: this.phrases.signalWalk, priority: 'navigation' };
+            case 'dont_walk':
+                return { kind: 'signal', earcon: 'dont_walk', text: this.phrases.signalDontWalk, priority: 'navigation' };
+            default: {
+                const seconds = observation.countdownSeconds;
+                if (seconds !== null && seconds <= COUNTDOWN_WARNING_SECONDS) this.countdownWarned = true;
+                return { kind: 'signal', earcon: 'countdown', text: this.phrases.signalCountdown(seconds), priority: 'navigation' };
+            }
+        }
+    }
+
+    private countdownReminder(observation: CrossingObservation): CrossingAnnouncement | null {
+        const seconds = observation.countdownSeconds;
+        if (this.signal !== 'countdown' || this.countdownWarned || seconds === null || seconds > COUNTDOWN_WARNING_SECONDS) return null;
+        this.countdownWarned = true;
+        return { kind: 'signal', earcon: 'countdown', text: this.phrases.secondsLeft(seconds), priority: 'navigation' };
+    }
+
+    private updateAlignment(reading: Alignment, now: number): CrossingAnnouncement | null {
+        // Without visible stripes there's nothing to be aligned with; keep the last state
+        if (reading === 'no_crosswalk') return null;
+
+        if (reading === this.alignment) {
+            this.pendingAlignment = null;
+            if (reading === 'aligned' || now - this.lastVeerWarningAt < VEER_REPEAT_MS) return null;
+            return this.veerWarning(reading, now);
+        }
+        this.pendingAlignment = this.pendingAlignment?.alignment === reading
+            ? { alignment: reading, frames: this.pendingAlignment.frames + 1 }
+            : { alignment: reading, frames: 1 };
+        if (this.pendingAlignment.frames < VEER_CONFIRM_FRAMES) return null;
+
+        const wasDrifting = this.alignment !== 'aligned';
+        this.alignment = reading;
+        this.pendingAlignment = null;
+        if (reading === 'aligned') {
+            return wasDrifting ? { kind: 'veer', earcon: null, text: this.phrases.backOnCrossing, priority: 'navigation' } : null;
+        }
+        return this.veerWarning(reading, now);
+    }
+
+    private veerWarning(alignment: Alignment, now: number): CrossingAnnouncement {
+        this.lastVeerWarningAt = now;
+        return alignment === 'drifting_left'
+            ? { kind: 'veer', earcon: 'veer_left', text: this.phrases.driftingLeft, priority: 'navigation' }
+            : { kind: 'veer', earcon: 'veer_right', text: this.phrases.driftingRight, priority: 'navigation' };
+    }
+}
+
+export const crossingMonitor = new CrossingMonitor();
@@ -0,0 +1,59 @@
+import { EmergencySeverity } from "../types";
+
+// DistressFusion combines the independent emergency detectors (microphone, camera, motion sensors).
+// A single detector reports at its own severity; any two different detectors agreeing within a short
+// window escalate straight to 'high'.
+
+export type DistressSource = 'audio' | 'visual' | 'motion';
+
+export interface DistressSignal {
+    source: DistressSource;
+    type: string; // Detector-specific: 'keyword_high', 'loud_noise', 'visual_fall', 'motion_fall', ...
+    severity: EmergencySeverity;
+    at: number;
+}
+
+export interface FusedDistress {
+    severity: EmergencySeverity;
+    detector: string; // e.g. 'motion_fall' or 'motion_fall+visual_fall'
+    corroborated: boolean;
+}
+
+// Two signals this close together are treated as the same incident
+const AGREEMENT_WINDOW_MS = 10000;
+
+export const sourceOf = (type: string): DistressSource => {
+    if (type.startsWith('motion')) return 'motion';
+    if (type.startsWith('visual')) return 'visual';
+    return 'audio';
+};
+
+export class DistressFusion {
+    private signals: DistressSignal[] = [];
+
+    reset() {
+        this.signals = [];
+    }
+
+    // Returns the fused verdict, or null if this signal alone isn't enough to act on
+    report(type: string, severity: EmergencySeverity, now: number = Date.now()): FusedDistress | null {
+        const signal: DistressSignal = { source: sourceOf(type), type, severity, at: now };
+        this.signals = this.signals.filter(s => now - s.at <= AGREEMENT_WINDOW_MS);
+        this.signals.push(signal);
+
+        // Latest signal per source inside the window
+        const bySource = new Map<DistressSource, DistressSignal>();
+        this.signals.forEach(s => bySource.set(s.source, s));
+
+        if (bySource.size >= 2) {
+            const detector = Array.from(bySource.values()).map(s => s.type).join('+');
+            return { severity: 'high', detector, corroborated: true };
+        }
+
+        // Uncorroborated low-severity signals (e.g. phone dropped and picked up) are only remembered
+        if (severity === 'low') return null;
+        return { severity, detector: type, corroborated: false };
+    }
+}
+
+export const distressFusion = new DistressFusion();
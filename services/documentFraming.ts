@@ -0,0 +1,79 @@
+import { DocumentFraming, FrameEdge } from "../types";
+import { DEFAULT_LOCALE, getLocale } from "./locales";
+
+// DocumentFramer guides the phone over a page before it is read: which way to move, closer or further away,
+// which edge is cut off. Once the whole page has been in view on consecutive frames and the phone is steady,
+// it tells the caller to take the picture, so the user never has to find the button again.
+
+export interface FramingStep {
+    say: string | null; // Guidance to speak now
+    capture: boolean;   // Take the picture now
+}
+
+// The page must be framed on this many frames in a row
+const READY_FRAMES = 2;
+// Readings below this confidence are skipped
+const MIN_CONFIDENCE = 0.5;
+// Say the same guidance again only after this long
+const REPEAT_AFTER_MS = 3000;
+// Take the picture as it is after this long
+const FRAMING_TIMEOUT_MS = 20000;
+
+const OPPOSITE: Record<FrameEdge, FrameEdge> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' };
+
+// What the user should change, or null when the page is framed
+export const framingGuidance = (framing: DocumentFraming, localeCode: string): string | null => {
+    const phrases = getLocale(localeCode).phrases;
+    if (!framing.pageVisible) return phrases.framingNoPage;
+    const cutOff = framing.cutOff;
+    if (framing.size === 'too_close' || cutOff.some(edge => cutOff.includes(OPPOSITE[edge]))) {
+        return phrases.framingTooClose;
+    }
+    if (cutOff.length > 0) return phrases.framingCutOff(cutOff);
+    if (framing.size === 'too_small') return phrases.framingCloser(framing.offset);
+    if (framing.offset !== 'centered') return phrases.framingShift(framing.offset);
+    return null;
+};
+
+export class DocumentFramer {
+    private localeCode = DEFAULT_LOCALE;
+    private startedAt = 0;
+    private readyFrames = 0;
+    private lastSaid: { text: string; at: number } | null = null;
+
+    start(localeCode: string, now: number = Date.now()) {
+        this.localeCode = localeCode;
+        this.startedAt = now;
+        this.readyFrames = 0;
+        this.lastSaid = { text: '', at: now }; // The opening instruction counts as guidance
+    }
+
+    // Feed one analysed preview frame (null = the model failed on it). steady: the phone isn't moving and the frame isn't blurred.
+    update(framing: DocumentFraming | null, steady: boolean, now: number = Date.now()): FramingStep {
+        const phrases = getLocale(this.localeCode).phrases;
+        if (now - this.startedAt > FRAMING_TIMEOUT_MS) {
+            return { say: phrases.framingTimeout, capture: true };
+        }
+        if (!framing || framing.confidence < MIN_CONFIDENCE) return { say: null, capture: false };
+
+        const guidance = framingGuidance(framing, this.localeCode);
+        if (guidance) {
+            this.readyFrames = 0;
+            return this.guide(guidance, now);
+        }
+        this.readyFrames++;
+        if (!steady) return this.guide(phrases.framingHoldStill, now);
+        if (this.readyFrames >= READY_FRAMES) return { say: phrases.framingReady, capture: true };
+        return { say: null, capture: false };
+    }
+
+    // Spoken when it changes, or repeated once it has gone unsaid for a while
+    private guide(text: string, now: number): FramingStep {
+        const last = this.lastSaid;
+        if (last && last.text === text && now - last.at < REPEAT_AFTER_MS) return { say: null, capture: false };
+        this.lastSaid = { text, at: now };
+        return { say: text, capture: false };
+    }
+}
+
+export const documentFramer = new DocumentFramer();
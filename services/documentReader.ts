@@ -0,0 +1,170 @@
+import { audioService } from "./audioService";
+
+// DocumentReader turns OCR output into paragraphs and sentences and reads it one sentence at a time,
+// keeping a cursor so a long letter can be paused, skipped back, re-heard from the top or spelled out.
+// Pages added later ("add another page") extend the same document.
+
+// A document nobody has touched for this long is closed, so "continue" goes back to meaning something else
+const DOCUMENT_IDLE_MS = 30 * 60 * 1000;
+
+interface Sentence {
+    text: string;
+    paragraph: number; // Index into the whole document, across pages
+    page: number;      // 1-based
+}
+
+// Intl.Segmenter knows abbreviations and non-Latin punctuation; the regex is for engines without it
+export const splitSentences = (paragraph: string, localeCode: string): string[] => {
+    const lines = paragraph.split('\n').map(l => l.trim()).filter(Boolean);
+    if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+        const segmenter = new Intl.Segmenter(localeCode, { granularity: 'sentence' });
+        return lines.flatMap(line => Array.from(segmenter.segment(line), s => s.segment.trim())).filter(Boolean);
+    }
+    return lines.flatMap(line => line.split(/(?<=[.!?…।])\s+/)).map(s => s.trim()).filter(Boolean);
+};
+
+// "Pharmacy" -> "Pharmacy. P, h, a, r, m, a, c, y."
+export const spellOut = (word: string): string => `${word}. ${Array.from(word).filter(c => c.trim()).join(', ')}.`;
+
+export class DocumentReader {
+    private sentences: Sentence[] = [];
+    private paragraphCount = 0;
+    private pageCount = 0;
+    private cursor = 0; // Next sentence to read
+    private currentWord: string | null = null; // Last word the engine reported, for "spell that word"
+    private runId = 0;
+    private reading = false;
+    private lastUsedAt = 0;
+
+    hasDocument(now: number = Date.now()): boolean {
+        if (this.sentences.length > 0 && now - this.lastUsedAt > DOCUMENT_IDLE_MS) this.close();
+        return this.sentences.length > 0;
+    }
+
+    get isReading(): boolean {
+        return this.reading;
+    }
+
+    get pages(): number {
+        return this.pageCount;
+    }
+
+    get isAtEnd(): boolean {
+        return this.cursor >= this.sentences.length;
+    }
+
+    // Replace whatever was open with a new one-page document
+    open(text: string, localeCode: string) {
+        this.close();
+        this.addPage(text, localeCode);
+    }
+
+    // Append a page and move the cursor to its first sentence. Returns the new page number.
+    addPage(text: string, localeCode: string): number {
+        this.pause();
+        const page = ++this.pageCount;
+        const start = this.sentences.length;
+        // The OCR prompt separates paragraphs with blank lines; single line breaks are lines of an address or list
+        for (const paragraph of text.split(/\n\s*\n/)) {
+            const sentences = splitSentences(paragraph, localeCode);
+            if (sentences.length === 0) continue;
+            sentences.forEach(text => this.sentences.push({ text, paragraph: this.paragraphCount, page }));
+            this.paragraphCount++;
+        }
+        this.cursor = start;
+        this.touch();
+        return page;
+    }
+
+    close() {
+        this.pause();
+        this.sentences = [];
+        this.paragraphCount = 0;
+        this.pageCount = 0;
+        this.cursor = 0;
+        this.currentWord = null;
+    }
+
+    // Read from the cursor until the end, or until something else takes over the speaker.
+    // Resolves true if the end of the document was reached. An interrupted sentence is read again on resume.
+    async read(): Promise<boolean> {
+        const run = ++this.runId;
+        this.reading = true;
+        try {
+            while (this.cursor < this.sentences.length) {
+                const sentence = this.sentences[this.cursor];
+                this.currentWord = null;
+                this.touch();
+                const spoken = await audioService.speak(sentence.text, 'answer', {
+                    onWord: (word) => { if (run === this.runId) this.currentWord = word; }
+                });
+                if (run !== this.runId || !spoken) return false;
+                this.cursor++;
+            }
+            return true;
+        } finally {
+            if (run === this.runId) this.reading = false;
+        }
+    }
+
+    // Stop reading and keep the cursor on the sentence that was cut off
+    pause() {
+        if (!this.reading) return;
+        this.runId++;
+        this.reading = false;
+        audioService.stopSpeaking();
+    }
+
+    // Start of the previous paragraph ("go back a paragraph"); from the end, the last paragraph
+    back() {
+        const current = this.isAtEnd ? this.paragraphCount : this.sentences[this.cursor].paragraph;
+        this.moveToParagraph(Math.max(0, current - 1));
+    }
+
+    // Start of the next paragraph. Returns false if there isn't one.
+    forward(): boolean {
+        if (this.isAtEnd) return false;
+        const next = this.sentences[this.cursor].paragraph + 1;
+        if (next >= this.paragraphCount) return false;
+        this.moveToParagraph(next);
+        return true;
+    }
+
+    // Start of the paragraph being read
+    repeat() {
+        if (this.isAtEnd) this.back();
+        else this.moveToParagraph(this.sentences[this.cursor].paragraph);
+    }
+
+    restart() {
+        this.pause();
+        this.cursor = 0;
+        this.touch();
+    }
+
+    // The word to spell: the one asked for as it appears in the document, else the last word heard
+    wordToSpell(asked?: string): string | null {
+        if (asked) {
+            const wanted = asked.toLowerCase();
+            for (const sentence of this.sentences) {
+                const found = sentence.text.split(/[\s.,;:!?"“”()]+/).find(w => w.toLowerCase() === wanted);
+                if (found) return found;
+            }
+            return asked;
+        }
+        return this.currentWord;
+    }
+
+    private moveToParagraph(paragraph: number) {
+        this.pause();
+        const index = this.sentences.findIndex(s => s.paragraph === paragraph);
+        this.cursor = index === -1 ? 0 : index;
+        this.touch();
+    }
+
+    private touch(now: number = Date.now()) {
+        this.lastUsedAt = now;
+    }
+}
+
+export const documentReader = new DocumentReader();
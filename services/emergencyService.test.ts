@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { EmergencyAlert } from '../types';
+import { EmergencyService, EscalationEvent, createSmsGatewayAdapter, createWebhookAdapter } from './emergencyService';
+
+const alert: EmergencyAlert = {
+    id: 'alert-1',
+    createdAt: 0,
+    severity: 'high',
+    detector: 'keyword_high',
+    location: null,
+    frame: null,
+    message: 'SightMate emergency'
+};
+
+describe('alert channels', () => {
+    it('reach a voice-added contact only when configured', () => {
+        const sam = { id: '1', name: 'Sam', channel: 'webhook' as const, phone: '+15550100' };
+        expect(createWebhookAdapter(undefined).canReach(sam)).toBe(false);
+        expect(createWebhookAdapter('http://localhost:4010/webhook').canReach(sam)).toBe(true);
+        expect(createSmsGatewayAdapter(undefined).canReach({ ...sam, channel: 'sms' })).toBe(false);
+        expect(createSmsGatewayAdapter('http://localhost:4010/sms').canReach({ ...sam, channel: 'sms' })).toBe(true);
+    });
+});
+
+describe('EmergencyService.dispatch', () => {
+    it('gives up once when no contact can be reached', async () => {
+        const service = new EmergencyService();
+        // Neither channel configured
+        service.registerAdapter(createWebhookAdapter(undefined));
+        service.registerAdapter(createSmsGatewayAdapter(undefined));
+        service.saveContact(service.voiceContact('Sam', '+15550100'));
+        const events: EscalationEvent['type'][] = [];
+        const result = await service.dispatch(alert, event => events.push(event.type));
+        expect(events).toEqual(['no_channel']);
+        expect(result).toEqual({ acknowledgedBy: null, notified: [] });
+        expect(service.isEscalating()).toBe(false);
+    });
+});
@@ -0,0 +1,295 @@
+import { AlertAdapter, EmergencyAlert, EmergencyContact } from "../types";
+
+// EmergencyService keeps the emergency contacts list and escalates an alert through it,
+// one contact at a time, until somebody acknowledges.
+//
+// HTTP protocol spoken by the built-in adapters (scripts/mock-alert-server.mjs implements it for local testing):
+//   Webhook:  POST {webhookUrl}                 { event: 'alert', contact, alert, mapsUrl }  |  { event: 'cancelled', alertId }
+//             GET  {webhookUrl}/{alertId}       -> { acknowledged: boolean }
+//   SMS:      POST {SMS_GATEWAY_URL}/messages   { to, body, alertId }
+//             GET  {SMS_GATEWAY_URL}/alerts/{alertId}/ack?to={phone} -> { acknowledged: boolean }
+
+const CONTACTS_STORAGE_KEY = 'sightmate.emergencyContacts';
+const ACK_POLL_INTERVAL_MS = 5000;
+const ACK_TIMEOUT_MS = 60000; // Per contact, before moving on to the next one
+const MAX_ROUNDS = 3;         // Times we go through the whole list before giving up
+const MIN_PHONE_DIGITS = 6;
+
+export type EscalationEvent =
+    | { type: 'notifying'; contact: EmergencyContact }
+    | { type: 'failed'; contact: EmergencyContact; error: unknown }
+    | { type: 'acknowledged'; contact: EmergencyContact }
+    | { type: 'exhausted' }
+    | { type: 'no_channel' }; // None of the contacts can be reached with the channels configured
+
+export type EscalationResult = { acknowledgedBy: EmergencyContact | null; notified: EmergencyContact[] };
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) { reject(new Error("Aborted")); return; }
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error("Aborted"));
+        }, { once: true });
+    });
+};
+
+const postJson = async (url: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal
+    });
+    if (!response.ok) throw new Error(`Alert delivery failed (${response.status})`);
+};
+
+const getAcknowledged = async (url: string, signal?: AbortSignal): Promise<boolean> => {
+    const response = await fetch(url, { signal });
+    if (!response.ok) return false;
+    const json = await response.json();
+    return json.acknowledged === true;
+};
+
+export const mapsLink = (alert: EmergencyAlert): string | null => {
+    return alert.location ? `https://maps.google.com/?q=${alert.location.latitude},${alert.location.longitude}` : null;
+};
+
+// --- Adapters ---
+
+// A contact's own URL, or the device-wide ALERT_WEBHOOK_URL, which forwards alerts to the contact's phone
+export const createWebhookAdapter = (defaultUrl: string | undefined): AlertAdapter => {
+    const urlFor = (contact: EmergencyContact) => (contact.webhookUrl || defaultUrl || '').replace(/\/$/, '');
+    return {
+        channel: 'webhook',
+        canReach: (contact) => !!urlFor(contact),
+        send: async (contact, alert, signal) => {
+            const url = urlFor(contact);
+            if (!url) throw new Error(`No webhook URL for ${contact.name}`);
+            await postJson(url, { event: 'alert', contact: { name: contact.name, phone: contact.phone }, alert, mapsUrl: mapsLink(alert) }, signal);
+        },
+        acknowledged: async (contact, alert, signal) => {
+            const url = urlFor(contact);
+            if (!url) return false;
+            return getAcknowledged(`${url}/${alert.id}`, signal);
+        },
+        cancel: async (contact, alert) => {
+            const url = urlFor(contact);
+            if (!url) return;
+            await postJson(url, { event: 'cancelled', alertId: alert.id });
+        }
+    };
+};
+
+export const createSmsGatewayAdapter = (gatewayUrl: string | undefined): AlertAdapter => {
+    const base = (gatewayUrl || '').replace(/\/$/, '');
+    return {
+        channel: 'sms',
+        canReach: (contact) => !!base && !!contact.phone,
+        send: async (contact, alert, signal) => {
+            if (!base) throw new Error("No SMS gateway configured");
+            if (!contact.phone) throw new Error(`No phone number for ${contact.name}`);
+            const link = mapsLink(alert);
+            // SMS can't carry the camera frame; the webhook channel does
+            const body = `${alert.message} Location: ${link || 'unknown'}. Reply OK to acknowledge.`;
+            await postJson(`${base}/messages`, { to: contact.phone, body, alertId: alert.id }, signal);
+        },
+        acknowledged: async (contact, alert, signal) => {
+            if (!base || !contact.phone) return false;
+            return getAcknowledged(`${base}/alerts/${alert.id}/ack?to=${encodeURIComponent(contact.phone)}`, signal);
+        },
+        cancel: async (contact, alert) => {
+            if (!base || !contact.phone) return;
+            await postJson(`${base}/messages`, { to: contact.phone, body: "False alarm: I'm safe now. No help needed.", alertId: alert.id });
+        }
+    };
+};
+
+// "+1 555 0100" / "555-0100" as recognised from speech -> "+15550100". null when it's too short to be a number.
+export const phoneFromSpeech = (text: string): string | null => {
+    const phone = text.replace(/[^\d+]/g, '').replace(/(?!^)\+/g, '');
+    return phone.replace('+', '').length >= MIN_PHONE_DIGITS ? phone : null;
+};
+
+// Read back one digit at a time: "+ 1 5 5 5 ...". The voice says the plus sign in its own language.
+export const spokenPhone = (phone: string): string => (phone.startsWith('+') ? '+ ' : '') + phone.replace('+', '').split('').join(' ');
+
+const generateId = (): string => {
+    return typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+export class EmergencyService {
+    private contacts: EmergencyContact[] = [];
+    private adapters: Partial<Record<EmergencyContact['channel'], AlertAdapter>> = {};
+    private escalation: AbortController | null = null;
+    private activeAlert: EmergencyAlert | null = null;
+    private notified: EmergencyContact[] = [];
+
+    constructor() {
+        this.registerAdapter(createWebhookAdapter(process.env.ALERT_WEBHOOK_URL));
+        this.registerAdapter(createSmsGatewayAdapter(process.env.SMS_GATEWAY_URL));
+        this.loadContacts();
+    }
+
+    registerAdapter(adapter: AlertAdapter) {
+        this.adapters[adapter.channel] = adapter;
+    }
+
+    // --- Contacts Store ---
+
+    private loadContacts() {
+        try {
+            const stored = localStorage.getItem(CONTACTS_STORAGE_KEY);
+            if (stored) this.contacts = JSON.parse(stored);
+        } catch (e) {
+            console.warn("Emergency contacts could not be loaded:", e);
+            this.contacts = [];
+        }
+    }
+
+    private saveContacts() {
+        try {
+            localStorage.setItem(CONTACTS_STORAGE_KEY, JSON.stringify(this.contacts));
+        } catch (e) {
+            console.warn("Emergency contacts could not be saved:", e);
+        }
+    }
+
+    getContacts(): EmergencyContact[] {
+        return [...this.contacts];
+    }
+
+    // Contacts are escalated in list order
+    addContact(contact: Omit<EmergencyContact, 'id'>): EmergencyContact {
+        const created = { ...contact, id: generateId() };
+        this.contacts.push(created);
+        this.saveContacts();
+        return created;
+    }
+
+    removeContact(id: string) {
+        this.contacts = this.contacts.filter(c => c.id !== id);
+        this.saveContacts();
+    }
+
+    // Names are matched case-insensitively, as the user says them
+    findContact(name: string): EmergencyContact | null {
+        const wanted = name.trim().toLowerCase();
+        return this.contacts.find(c => c.name.toLowerCase() === wanted) || null;
+    }
+
+    // Saving under an existing name replaces that contact's details and keeps its place in the order
+    saveContact(contact: Omit<EmergencyContact, 'id'>): { contact: EmergencyContact; replaced: boolean } {
+        const existing = this.findContact(contact.name);
+        if (!existing) return { contact: this.addContact(contact), replaced: false };
+        const updated = { ...contact, id: existing.id };
+        this.contacts = this.contacts.map(c => c.id === existing.id ? updated : c);
+        this.saveContacts();
+        return { contact: updated, replaced: true };
+    }
+
+    removeContactByName(name: string): EmergencyContact | null {
+        const existing = this.findContact(name);
+        if (existing) this.removeContact(existing.id);
+        return existing;
+    }
+
+    // A contact added by voice is just a name and a number. With an alert webhook configured it goes through that,
+    // so its alerts carry the camera frame; otherwise it is texted through the SMS gateway.
+    voiceContact(name: string, phone: string): Omit<EmergencyContact, 'id'> {
+        return { name, phone, channel: process.env.ALERT_WEBHOOK_URL ? 'webhook' : 'sms' };
+    }
+
+    canReach(contact: EmergencyContact): boolean {
+        return this.adapters[contact.channel]?.canReach(contact) ?? false;
+    }
+
+    // --- Dispatch & Escalation ---
+
+    createAlert(fields: Omit<EmergencyAlert, 'id' | 'createdAt' | 'message'>): EmergencyAlert {
+        const detectorLabel = fields.detector.replace(/_/g, ' ');
+        return {
+            ...fields,
+            id: generateId(),
+            createdAt: Date.now(),
+            message: `SightMate emergency (${fields.severity} severity, detected by ${detectorLabel}). The user did not confirm they are safe.`
+        };
+    }
+
+    isEscalating(): boolean {
+        return this.escalation !== null;
+    }
+
+    async dispatch(alert: EmergencyAlert, onEvent?: (event: EscalationEvent) => void): Promise<EscalationResult> {
+        this.escalation?.abort();
+        // Contacts no channel can reach would fail instantly, and every round would run back to back
+        const reachable = this.contacts.filter(contact => this.canReach(contact));
+        if (reachable.length === 0) {
+            onEvent?.({ type: 'no_channel' });
+            return { acknowledgedBy: null, notified: [] };
+        }
+
+        const controller = new AbortController();
+        this.escalation = controller;
+        this.activeAlert = alert;
+        this.notified = [];
+        const signal = controller.signal;
+
+        try {
+            for (let round = 0; round < MAX_ROUNDS; round++) {
+                for (const contact of reachable) {
+                    const adapter = this.adapters[contact.channel];
+                    if (!adapter) continue;
+
+                    onEvent?.({ type: 'notifying', contact });
+                    try {
+                        await adapter.send(contact, alert, signal);
+                        if (!this.notified.includes(contact)) this.notified.push(contact);
+                    } catch (error) {
+                        if (signal.aborted) throw error;
+                        console.warn(`Emergency: Delivery to ${contact.name} failed`, error);
+                        onEvent?.({ type: 'failed', contact, error });
+                        continue;
+                    }
+
+                    // Wait for this contact to acknowledge before escalating to the next one
+                    const deadline = Date.now() + ACK_TIMEOUT_MS;
+                    while (Date.now() < deadline) {
+                        await sleep(ACK_POLL_INTERVAL_MS, signal);
+                        const acked = await adapter.acknowledged(contact, alert, signal).catch(() => false);
+                        if (acked) {
+                            onEvent?.({ type: 'acknowledged', contact });
+                            return { acknowledgedBy: contact, notified: [...this.notified] };
+                        }
+                    }
+                }
+            }
+            onEvent?.({ type: 'exhausted' });
+            return { acknowledgedBy: null, notified: [...this.notified] };
+        } catch (error) {
+            if (signal.aborted) return { acknowledgedBy: null, notified: [...this.notified] };
+            throw error;
+        } finally {
+            if (this.escalation === controller) this.escalation = null;
+        }
+    }
+
+    // User is safe: stop escalating and tell everyone we already alerted
+    async cancel() {
+        const alert = this.activeAlert;
+        const notified = this.notified;
+        this.escalation?.abort();
+        this.escalation = null;
+        this.activeAlert = null;
+        this.notified = [];
+        if (!alert) return;
+
+        await Promise.all(notified.map(contact => {
+            const adapter = this.adapters[contact.channel];
+            return adapter ? adapter.cancel(contact, alert).catch(e => console.warn("Emergency: Cancel notice failed", e)) : Promise.resolve();
+        }));
+    }
+}
+
+export const emergencyService = new EmergencyService();
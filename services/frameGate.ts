@@ -0,0 +1,67 @@
+import { FrameSignature, WalkingHazard } from "../types";
+
+// FrameGate skips model calls for frames that show the same scene as the last analysed one.
+// Camera attaches a tiny grayscale signature to every capture; if the new frame is nearly identical and the
+// last verdict is still fresh, the caller reuses that verdict instead of sending another request.
+
+// A thumbnail pixel counts as changed when it moves by more than this (0-255), after exposure correction
+const PIXEL_CHANGE_THRESHOLD = 24;
+// The scene has changed when more than this share of the thumbnail changed (~30 of 768 pixels)
+const SCENE_CHANGE_FRACTION = 0.04;
+// Reuse a verdict for at most this long, however still the scene
+const DEFAULT_MAX_AGE_MS = 2500;
+
+// Share of the thumbnail that changed between two frames (0-1). Each frame's mean brightness is removed
+// first, so auto-exposure drifting or a cloud passing doesn't count as movement.
+export const frameChange = (a: FrameSignature, b: FrameSignature): number => {
+    if (a.width !== b.width || a.height !== b.height) return 1;
+    const n = a.luma.length;
+    let meanA = 0;
+    let meanB = 0;
+    for (let i = 0; i < n; i++) {
+        meanA += a.luma[i];
+        meanB += b.luma[i];
+    }
+    const offset = (meanB - meanA) / n;
+
+    let changed = 0;
+    for (let i = 0; i < n; i++) {
+        if (Math.abs(b.luma[i] - a.luma[i] - offset) > PIXEL_CHANGE_THRESHOLD) changed++;
+    }
+    return changed / n;
+};
+
+export class FrameGate<T> {
+    private reference: { signature: FrameSignature; verdict: T; at: number } | null = null;
+    private skipped = 0;
+
+    constructor(private readonly maxAgeMs: number = DEFAULT_MAX_AGE_MS) {}
+
+    // The last verdict, if this frame shows the same scene and the verdict is still fresh. Otherwise undefined:
+    // the frame needs a real request.
+    reuse(signature: FrameSignature | null, now: number = Date.now()): { verdict: T } | undefined {
+        const ref = this.reference;
+        if (!signature || !ref || now - ref.at > this.maxAgeMs) return undefined;
+        if (frameChange(ref.signature, signature) > SCENE_CHANGE_FRACTION) return undefined;
+        this.skipped++;
+        return { verdict: ref.verdict };
+    }
+
+    // Remember the verdict for an analysed frame; later frames are compared against it
+    store(signature: FrameSignature | null, verdict: T, now: number = Date.now()) {
+        this.reference = signature ? { signature, verdict, at: now } : null;
+    }
+
+    // Requests saved since the last reset
+    get skippedCount(): number {
+        return this.skipped;
+    }
+
+    reset() {
+        this.reference = null;
+        this.skipped = 0;
+    }
+}
+
+// Hazard verdicts for the walking loop
+export const hazardFrameGate = new FrameGate<WalkingHazard>();
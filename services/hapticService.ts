@@ -0,0 +1,117 @@
+import { CrossingEarcon, WalkingHazard } from "../types";
+import { audioService } from "./audioService";
+import { VibrationName, getLocale } from "./locales";
+
+// HapticService is SightMate's vibration vocabulary, for loud streets, hearing loss and "vibrations only" mode.
+// Hazards are counted pulses: one for left, two for ahead, three for right. Longer pulses mean more serious,
+// tighter spacing means closer, and a serious hazard repeats. Turns are one long and one short pulse,
+// with the long one on the side to turn to. Patterns are navigator.vibrate() arrays: on, off, on, ...
+
+type Pattern = number[];
+
+const DIRECTION_PULSES: Record<WalkingHazard['direction'], number> = { left: 1, center: 2, right: 3, unknown: 2 };
+const SEVERITY_PULSE_MS: Record<WalkingHazard['severity'], number> = { low: 60, medium: 120, high: 220 };
+const DISTANCE_GAP_MS: Record<WalkingHazard['distance'], number> = { near: 60, medium: 150, far: 300, unknown: 150 };
+// Pause before a serious hazard's pattern repeats
+const REPEAT_GAP_MS = 350;
+
+const TURN_LEFT: Pattern = [400, 150, 100];
+const TURN_RIGHT: Pattern = [100, 150, 400];
+const ARRIVED: Pattern = [100, 80, 100, 80, 100, 80, 500];
+
+const CROSSING: Record<CrossingEarcon, Pattern> = {
+    walk: [30, 60, 30, 60, 30, 60, 30, 60, 30],  // Rapid ticks, like the audible signal
+    dont_walk: [600],
+    countdown: [200, 200, 200, 200, 200],
+    veer_left: TURN_RIGHT,                       // Drifting left: step right
+    veer_right: TURN_LEFT,
+    vehicle: [500, 100, 500, 100, 500]
+};
+
+// S.O.S. while asking "are you okay?"; long pulses once contacts are being alerted
+const EMERGENCY_CHECK: Pattern = [100, 100, 100, 100, 100, 300, 300, 100, 300, 100, 300, 300, 100, 100, 100, 100, 100];
+const EMERGENCY_ALERTING: Pattern = [800, 200, 800];
+
+export const hazardPattern = (hazard: Pick<WalkingHazard, 'direction' | 'distance' | 'severity'>): Pattern => {
+    const pulse = SEVERITY_PULSE_MS[hazard.severity] ?? SEVERITY_PULSE_MS.medium;
+    const gap = DISTANCE_GAP_MS[hazard.distance] ?? DISTANCE_GAP_MS.unknown;
+    const group: Pattern = [];
+    for (let i = 0; i < (DIRECTION_PULSES[hazard.direction] ?? 2); i++) {
+        if (i > 0) group.push(gap);
+        group.push(pulse);
+    }
+    return hazard.severity === 'high' ? [...group, REPEAT_GAP_MS, ...group] : group;
+};
+
+// Played with the tutorial, in this order, each after its name
+const TUTORIAL: { name: VibrationName; pattern: Pattern }[] = [
+    { name: 'hazardLeft', pattern: hazardPattern({ direction: 'left', distance: 'medium', severity: 'medium' }) },
+    { name: 'hazardAhead', pattern: hazardPattern({ direction: 'center', distance: 'medium', severity: 'medium' }) },
+    { name: 'hazardRight', pattern: hazardPattern({ direction: 'right', distance: 'medium', severity: 'medium' }) },
+    { name: 'hazardFar', pattern: hazardPattern({ direction: 'center', distance: 'far', severity: 'medium' }) },
+    { name: 'hazardNear', pattern: hazardPattern({ direction: 'center', distance: 'near', severity: 'medium' }) },
+    { name: 'hazardSerious', pattern: hazardPattern({ direction: 'center', distance: 'near', severity: 'high' }) },
+    { name: 'turnLeft', pattern: TURN_LEFT },
+    { name: 'turnRight', pattern: TURN_RIGHT },
+    { name: 'arrived', pattern: ARRIVED },
+    { name: 'walk', pattern: CROSSING.walk },
+    { name: 'dontWalk', pattern: CROSSING.dont_walk },
+    { name: 'countdown', pattern: CROSSING.countdown },
+    { name: 'vehicle', pattern: CROSSING.vehicle },
+    { name: 'emergencyCheck', pattern: EMERGENCY_CHECK },
+    { name: 'emergencyAlerting', pattern: EMERGENCY_ALERTING }
+];
+
+// Which way a route instruction turns, from the locale's left/right words ("Turn left onto Main Street" -> 'left')
+export const turnDirection = (instruction: string, localeCode: string): 'left' | 'right' | null => {
+    const padded = ` ${instruction.toLowerCase().replace(/[.,!?;:()]/g, ' ')} `;
+    const locale = getLocale(localeCode);
+    const says = (words: string[]) => words.some(word => padded.includes(` ${word} `));
+    if (says(locale.leftWords)) return 'left';
+    if (says(locale.rightWords)) return 'right';
+    return null;
+};
+
+const patternDuration = (pattern: Pattern): number => pattern.reduce((sum, ms) => sum + ms, 0);
+
+export class HapticService {
+    playHazard(hazard: Pick<WalkingHazard, 'direction' | 'distance' | 'severity'>) {
+        audioService.vibrate(hazardPattern(hazard));
+    }
+
+    playTurn(direction: 'left' | 'right') {
+        audioService.vibrate(direction === 'left' ? TURN_LEFT : TURN_RIGHT);
+    }
+
+    playArrived() {
+        audioService.vibrate(ARRIVED);
+    }
+
+    playCrossing(earcon: CrossingEarcon) {
+        audioService.vibrate(CROSSING[earcon]);
+    }
+
+    playEmergency(stage: 'check' | 'alerting') {
+        audioService.vibrate(stage === 'check' ? EMERGENCY_CHECK : EMERGENCY_ALERTING);
+    }
+
+    // Name each pattern aloud, then play it. Stops when isCurrent() turns false (a tap or a new command).
+    // Resolves true if the whole tutorial was played.
+    async playTutorial(isCurrent: () => boolean, localeCode: string): Promise<boolean> {
+        const phrases = getLocale(localeCode).phrases;
+        if (!(await audioService.speak(phrases.vibrationsIntro)) || !isCurrent()) return false;
+        for (const { name, pattern } of TUTORIAL) {
+            if (!(await audioService.speak(phrases.vibrations[name])) || !isCurrent()) return false;
+            audioService.vibrate(pattern);
+            await new Promise(r => setTimeout(r, patternDuration(pattern) + 700));
+            if (!isCurrent()) {
+                audioService.vibrate(0);
+                return false;
+            }
+        }
+        await audioService.speak(phrases.vibrationsOutro);
+        return true;
+    }
+}
+
+export const hapticService = new HapticService();
@@ -0,0 +1,130 @@
+import { WalkingHazard } from "../types";
+
+// HazardTracker matches hazards across consecutive walking frames so the same
+// obstacle is announced once, re-announced only when it gets worse or moves,
+// and reported as cleared once it drops out of view.
+
+export type HazardChange = 'new' | 'escalated' | 'moved';
+
+export interface TrackedHazard {
+    id: number;
+    hazard: WalkingHazard;
+    firstSeen: number;
+    lastSeen: number;
+    missedFrames: number;
+}
+
+export interface HazardUpdate {
+    // Hazard that should be spoken now (null = nothing new to say)
+    announce: { change: HazardChange; hazard: WalkingHazard } | null;
+    // Hazards that have left the frame since the last update
+    cleared: WalkingHazard[];
+}
+
+// A tracked hazard is cleared only when it has been missing for both this long and this many frames,
+// so a single dropped or low-confidence frame doesn't produce a false "cleared".
+const CLEAR_AFTER_MS = 2500;
+const CLEAR_AFTER_FRAMES = 3;
+// Minimum word overlap between descriptions to treat two detections as the same object
+const DESCRIPTION_MATCH_THRESHOLD = 0.34;
+
+const DISTANCE_RANK: Record<WalkingHazard['distance'], number> = { unknown: -1, far: 0, medium: 1, near: 2 };
+const SEVERITY_RANK: Record<WalkingHazard['severity'], number> = { low: 0, medium: 1, high: 2 };
+const DIRECTION_POSITION: Record<WalkingHazard['direction'], number | null> = { left: 0, center: 1, right: 2, unknown: null };
+
+const tokenize = (text: string): Set<string> => {
+    return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2));
+};
+
+const descriptionSimilarity = (a: string, b: string): number => {
+    const ta = tokenize(a);
+    const tb = tokenize(b);
+    if (ta.size === 0 || tb.size === 0) return 0;
+    let shared = 0;
+    ta.forEach(w => { if (tb.has(w)) shared++; });
+    return shared / (ta.size + tb.size - shared);
+};
+
+export class HazardTracker {
+    private tracked: TrackedHazard[] = [];
+    private nextId: number = 1;
+
+    reset() {
+        this.tracked = [];
+    }
+
+    getTracked(): TrackedHazard[] {
+        return [...this.tracked];
+    }
+
+    // Feed the result of one analysed frame (null / 'none' = nothing detected)
+    update(hazard: WalkingHazard | null, now: number = Date.now()): HazardUpdate {
+        const detected = hazard && hazard.hazard_type !== 'none' && hazard.category !== 'none' ? hazard : null;
+        let announce: HazardUpdate['announce'] = null;
+        let matched: TrackedHazard | null = null;
+
+        if (detected) {
+            matched = this.findMatch(detected);
+
+            if (!matched) {
+                matched = { id: this.nextId++, hazard: detected, firstSeen: now, lastSeen: now, missedFrames: 0 };
+                this.tracked.push(matched);
+                announce = { change: 'new', hazard: detected };
+            } else {
+                const change = this.compare(matched.hazard, detected);
+                if (change) announce = { change, hazard: detected };
+                matched.hazard = detected;
+                matched.lastSeen = now;
+                matched.missedFrames = 0;
+            }
+        }
+
+        // Age out everything we didn't see this frame
+        const cleared: WalkingHazard[] = [];
+        this.tracked = this.tracked.filter(t => {
+            if (t === matched) return true;
+            t.missedFrames++;
+            if (t.missedFrames >= CLEAR_AFTER_FRAMES && now - t.lastSeen >= CLEAR_AFTER_MS) {
+                cleared.push(t.hazard);
+                return false;
+            }
+            return true;
+        });
+
+        return { announce, cleared };
+    }
+
+    private findMatch(hazard: WalkingHazard): TrackedHazard | null {
+        let best: TrackedHazard | null = null;
+        let bestScore = 0;
+
+        for (const t of this.tracked) {
+            if (t.hazard.category !== hazard.category) continue;
+
+            // Allow one step of lateral drift (left <-> center <-> right); the user or the object moves between frames
+            const a = DIRECTION_POSITION[t.hazard.direction];
+            const b = DIRECTION_POSITION[hazard.direction];
+            if (a !== null && b !== null && Math.abs(a - b) > 1) continue;
+
+            const sameType = t.hazard.hazard_type.toLowerCase() === hazard.hazard_type.toLowerCase();
+            const similarity = descriptionSimilarity(t.hazard.description, hazard.description);
+            if (!sameType && similarity < DESCRIPTION_MATCH_THRESHOLD) continue;
+
+            const score = similarity + (sameType ? 1 : 0);
+            if (score > bestScore) {
+                best = t;
+                bestScore = score;
+            }
+        }
+        return best;
+    }
+
+    private compare(previous: WalkingHazard, current: WalkingHazard): HazardChange | null {
+        if (DISTANCE_RANK[current.distance] > DISTANCE_RANK[previous.distance]) return 'escalated';
+        if (SEVERITY_RANK[current.severity] > SEVERITY_RANK[previous.severity]) return 'escalated';
+        if (current.direction !== 'unknown' && previous.direction !== 'unknown' && current.direction !== previous.direction) return 'moved';
+        return null;
+    }
+}
+
+export const hazardTracker = new HazardTracker();
@@ -0,0 +1,171 @@
+import { FrameQuality, IntentType, QualityIssue } from "../types";
+import { getLocale } from "./locales";
+
+// ImageQuality checks frames on the device before they are sent: sharpness (variance of the Laplacian),
+// exposure clipping and a finger or case over part of the lens. It also follows the phone's pitch and roll
+// (DeviceOrientationEvent) so the user can be told how to aim before a picture is taken.
+
+// Frames are assessed at this width; enough detail for blur, cheap enough for every walking frame
+export const QUALITY_WIDTH = 240;
+
+// Blurred when the Laplacian variance is below this, but only if the scene has contrast at all:
+// a blank wall is smooth without being blurred
+const BLUR_THRESHOLD = 40;
+const MIN_CONTRAST_FOR_BLUR = 18;
+// Exposure: mean luminance and the share of pixels crushed to black or blown to white
+const DARK_MEAN = 25;
+const DARK_PIXEL = 8;
+const BRIGHT_PIXEL = 247;
+const CLIPPED_SHARE = 0.5;
+// A pixel looks like a finger over the lens when it is this much darker than the frame average and flat;
+// a side of the frame is covered when most of its pixels look like that
+const COVERED_RATIO = 0.5;
+const COVERED_TEXTURE = 4;
+const COVERED_SHARE = 0.75;
+
+// Aiming, from DeviceOrientationEvent. beta is 90 with the phone upright, 0 lying flat face up.
+const MAX_ROLL_DEGREES = 25;
+const MIN_PITCH_FOR_SCENE = 45; // Below this the camera is looking at the floor
+const MAX_PITCH = 135;          // Above this it is looking at the ceiling or sky
+// Moving when the orientation changed by more than this within the window
+const STEADY_DEGREES = 8;
+const STEADY_WINDOW_MS = 500;
+// Walking mode drops unusable frames, but lets one through this often so the hazard check
+// (and its fall detection) never goes blind
+const UNUSABLE_PASS_MS = 2000;
+
+export const describeIssue = (issue: QualityIssue, localeCode: string): string => getLocale(localeCode).phrases.qualityIssues[issue];
+
+interface Region { covered: number; count: number }
+
+// Assess a downsampled RGBA frame (see QUALITY_WIDTH)
+export const assessFrame = (data: Uint8ClampedArray, width: number, height: number): FrameQuality => {
+    const n = width * height;
+    const luma = new Float32Array(n);
+    let sum = 0;
+    let sumSq = 0;
+    let dark = 0;
+    let bright = 0;
+    for (let i = 0; i < n; i++) {
+        const y = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+        luma[i] = y;
+        sum += y;
+        sumSq += y * y;
+        if (y < DARK_PIXEL) dark++;
+        if (y > BRIGHT_PIXEL) bright++;
+    }
+    const brightness = sum / n;
+    const contrast = Math.sqrt(Math.max(0, sumSq / n - brightness * brightness));
+
+    // 4-neighbour Laplacian, also counting finger-like pixels per outer quarter of the frame.
+    // Not the top: a night sky is dark and featureless too, and fingers come in from the sides.
+    const sides: Region[] = [{ covered: 0, count: 0 }, { covered: 0, count: 0 }, { covered: 0, count: 0 }];
+    const [left, right, bottom] = sides;
+    let lapSum = 0;
+    let lapSq = 0;
+    let lapCount = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const lap = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+            lapSum += lap;
+            lapSq += lap * lap;
+            lapCount++;
+            const fingerLike = luma[i] < brightness * COVERED_RATIO && Math.abs(lap) < COVERED_TEXTURE ? 1 : 0;
+            if (x < width / 4) { left.count++; left.covered += fingerLike; }
+            if (x >= (3 * width) / 4) { right.count++; right.covered += fingerLike; }
+            if (y >= (3 * height) / 4) { bottom.count++; bottom.covered += fingerLike; }
+        }
+    }
+    const sharpness = lapCount > 0 ? lapSq / lapCount - (lapSum / lapCount) ** 2 : 0;
+
+    const issues: QualityIssue[] = [];
+    const tooDark = brightness < DARK_MEAN || dark / n > CLIPPED_SHARE;
+    if (tooDark) issues.push('too_dark');
+    if (bright / n > CLIPPED_SHARE) issues.push('too_bright');
+    if (!tooDark && sides.some(side => side.count > 0 && side.covered / side.count > COVERED_SHARE)) issues.push('covered');
+    if (sharpness < BLUR_THRESHOLD && contrast > MIN_CONTRAST_FOR_BLUR) issues.push('blurry');
+
+    return { usable: issues.length === 0, issues, sharpness, brightness };
+};
+
+export class ImageQuality {
+    private beta: number | null = null;
+    private gamma: number | null = null;
+    private recent: { beta: number; gamma: number; at: number }[] = [];
+    private lastUnusablePassAt = 0;
+    private isActive = false;
+
+    private handleOrientation = (event: DeviceOrientationEvent) => {
+        if (event.beta === null || event.gamma === null) return;
+        const now = Date.now();
+        this.beta = event.beta;
+        this.gamma = event.gamma;
+        this.recent.push({ beta: event.beta, gamma: event.gamma, at: now });
+        while (this.recent.length > 0 && now - this.recent[0].at > STEADY_WINDOW_MS) this.recent.shift();
+    };
+
+    // iOS 13+ needs explicit permission, and it must be requested from a user gesture
+    async requestPermission(): Promise<boolean> {
+        const DeviceOrientation = (window as any).DeviceOrientationEvent;
+        if (DeviceOrientation && typeof DeviceOrientation.requestPermission === 'function') {
+            try {
+                return (await DeviceOrientation.requestPermission()) === 'granted';
+            } catch (e) {
+                console.warn("Orientation permission request failed:", e);
+                return false;
+            }
+        }
+        return true;
+    }
+
+    start() {
+        if (this.isActive || typeof window === 'undefined' || !('DeviceOrientationEvent' in window)) return;
+        this.isActive = true;
+        window.addEventListener('deviceorientation', this.handleOrientation);
+    }
+
+    stop() {
+        if (!this.isActive) return;
+        this.isActive = false;
+        window.removeEventListener('deviceorientation', this.handleOrientation);
+        this.beta = null;
+        this.gamma = null;
+        this.recent = [];
+    }
+
+    // What to fix before taking a picture for this intent, or null when the phone is aimed well
+    // (or there's no orientation sensor to tell)
+    aimingIssue(intent: IntentType): QualityIssue | null {
+        if (this.beta === null || this.gamma === null) return null;
+        if (this.isMoving()) return 'moving';
+        // Roll only means something with the phone held up; lying flat over a page, gamma is just the angle of the table
+        const upright = this.beta > MIN_PITCH_FOR_SCENE && this.beta < MAX_PITCH;
+        if (upright && this.gamma > MAX_ROLL_DEGREES) return 'tilted_right';
+        if (upright && this.gamma < -MAX_ROLL_DEGREES) return 'tilted_left';
+        if (this.beta > MAX_PITCH) return 'pointing_up';
+        // A page on a table is read looking down, so only scene descriptions need the phone raised
+        if (intent === IntentType.DESCRIBE && this.beta < MIN_PITCH_FOR_SCENE) return 'pointing_down';
+        return null;
+    }
+
+    // Walking mode: should this frame be skipped rather than sent?
+    dropWalkingFrame(quality: FrameQuality, now: number = Date.now()): boolean {
+        if (quality.usable) return false;
+        if (now - this.lastUnusablePassAt >= UNUSABLE_PASS_MS) {
+            this.lastUnusablePassAt = now;
+            return false;
+        }
+        return true;
+    }
+
+    private isMoving(now: number = Date.now()): boolean {
+        const recent = this.recent.filter(r => now - r.at <= STEADY_WINDOW_MS);
+        if (recent.length < 2) return false;
+        const betas = recent.map(r => r.beta);
+        const gammas = recent.map(r => r.gamma);
+        return Math.max(...betas) - Math.min(...betas) > STEADY_DEGREES || Math.max(...gammas) - Math.min(...gammas) > STEADY_DEGREES;
+    }
+}
+
+export const imageQuality = new ImageQuality();
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { IntentContext, IntentType } from '../types';
+import { parseIntent } from './intentParser';
+
+// The Gemini provider trusts a local parse at or above this confidence
+const LOCAL_PARSE_THRESHOLD = 0.85;
+
+const idle: IntentContext = { hasVisualContext: false };
+const walking: IntentContext = { hasVisualContext: false, isWalking: true };
+
+const confident = (text: string, locale = 'en-US', context: IntentContext = idle) => {
+    const result = parseIntent(text, locale, context);
+    return result && result.confidence >= LOCAL_PARSE_THRESHOLD ? result : null;
+};
+
+describe('parseIntent', () => {
+    it('handles clear commands locally', () => {
+        expect(confident('stop navigation')?.type).toBe(IntentType.STOP_NAVIGATION);
+        expect(confident('turn on walking mode')?.type).toBe(IntentType.WALKING_MODE_ON);
+        expect(confident('turn off walking mode')?.type).toBe(IntentType.WALKING_MODE_OFF);
+        expect(confident('walking mode off')?.type).toBe(IntentType.WALKING_MODE_OFF);
+        expect(confident('turn off companion mode')?.type).toBe(IntentType.COMPANION_MODE_OFF);
+        expect(confident('turn off crossing mode')?.type).toBe(IntentType.CROSSING_MODE_OFF);
+    });
+
+    it('resolves a bare stop to whatever is running', () => {
+        expect(confident('stop', 'en-US', walking)?.type).toBe(IntentType.WALKING_MODE_OFF);
+        expect(confident('stop', 'en-US', { ...walking, isNavigating: true })?.type).toBe(IntentType.STOP_NAVIGATION);
+        expect(confident('stop', 'en-US', { ...walking, isSearching: true })?.type).toBe(IntentType.STOP_SEARCH);
+        expect(confident('stop', 'en-US', { ...walking, isCrossing: true })?.type).toBe(IntentType.CROSSING_MODE_OFF);
+    });
+
+    it('fills slots from the rest of the utterance', () => {
+        const navigate = confident('take me to the pharmacy');
+        expect(navigate?.type).toBe(IntentType.NAVIGATE);
+        expect(navigate?.destination).toBe('pharmacy');
+
+        const contact = confident('add emergency contact Sam');
+        expect(contact?.type).toBe(IntentType.ADD_CONTACT);
+        expect(contact?.contactName).toBe('Sam');
+    });
+
+    it('leaves negated or non-command stop words to the model', () => {
+        for (const text of ["don't stop", "where's the exit", "don't turn off hands free", 'take me to the bus stop']) {
+            const result = parseIntent(text, 'en-US', walking);
+            expect(result?.type === IntentType.STOP_NAVIGATION || result?.type === IntentType.WALKING_MODE_OFF).toBe(false);
+        }
+        expect(parseIntent('no pares', 'es-ES', walking)).toBeNull();
+        expect(parseIntent('hör nicht auf', 'de-DE', walking)).toBeNull();
+        expect(parseIntent('ne désactive pas le mode marche', 'fr-FR', walking)).toBeNull();
+        expect(parseIntent('मत रोको', 'hi-IN', walking)).toBeNull();
+    });
+
+    it('only takes a stop word as a command when it stands alone', () => {
+        for (const context of [idle, walking, { ...walking, isNavigating: true }]) {
+            expect(parseIntent("i can't stop shaking", 'en-US', context)).toBeNull();
+            expect(parseIntent('stop shaking', 'en-US', context)).toBeNull();
+            expect(parseIntent('quiero la ruta para la farmacia', 'es-ES', context)).toBeNull();
+        }
+        expect(confident('stop please', 'en-US', walking)?.type).toBe(IntentType.WALKING_MODE_OFF);
+        // "Para" stops things the same way "detén" does
+        expect(confident('para', 'es-ES', walking)?.type).toBe(IntentType.WALKING_MODE_OFF);
+        expect(confident('detén', 'es-ES', walking)?.type).toBe(IntentType.WALKING_MODE_OFF);
+        expect(confident('para la navegación', 'es-ES')?.type).toBe(IntentType.STOP_NAVIGATION);
+    });
+
+    it('understands the other locales', () => {
+        expect(confident('desactiva el modo caminar', 'es-ES')?.type).toBe(IntentType.WALKING_MODE_OFF);
+        expect(confident('activa el modo para caminar', 'es-ES')?.type).toBe(IntentType.WALKING_MODE_ON);
+        expect(confident('désactive le mode marche', 'fr-FR')?.type).toBe(IntentType.WALKING_MODE_OFF);
+        expect(confident('stopp', 'de-DE', walking)?.type).toBe(IntentType.WALKING_MODE_OFF);
+        expect(confident('रोको', 'hi-IN', walking)?.type).toBe(IntentType.WALKING_MODE_OFF);
+    });
+
+    it('gives a keyword buried in a long question low confidence', () => {
+        expect(confident('can you tell me whether the text on this sign is about parking or something else')).toBeNull();
+    });
+});
@@ -0,0 +1,267 @@
+import { IntentContext, IntentResult, IntentType, ReaderAction, SettingAdjustment, SettingKey } from "../types";
+import { DEFAULT_LOCALE, IntentRuleTable, LOCALES, findLocaleByName, getLocale } from "./locales";
+
+// Offline intent parser.
+// A small grammar built from the active locale's keyword tables (services/locales.ts). Each rule names an
+// intent, the phrase groups that must all be present, phrases that rule it out, and the slots it fills.
+// Every rule that matches becomes a candidate, scored by how specific its evidence is and how much of the
+// utterance it explains. Confidence is a softmax over the candidates and a fixed "none of these" score, so it
+// drops when rules compete or most of what the user said is unexplained.
+
+interface GrammarRule {
+    type: IntentType;
+    all: string[][];   // Every group must match one of its phrases
+    weight: number;    // Evidence when the rule matches
+    unless?: string[]; // The rule doesn't apply if any of these is present
+    also?: string[];   // Words the rule explains when present, without requiring them ("turn on" hands free)
+    alone?: boolean;   // Only when the rule's phrases and filler are everything said: "stop", not "I can't stop shaking"
+    slots?: (text: string, u: Utterance) => Partial<IntentResult> | null; // null: the rule doesn't apply after all
+}
+
+interface Candidate {
+    result: IntentResult;
+    score: number;
+}
+
+// Lowercased, punctuation and hyphens turned into spaces, padded so phrases match on word boundaries
+interface Utterance {
+    padded: string;
+    wordCount: number;
+}
+
+// Evidence tiers: one generic keyword vs. a specific phrase or a combination of keywords
+const CUE = 2;
+const PHRASE = 3;
+// Added in proportion to the share of the utterance the rule explains
+const COVERAGE_WEIGHT = 1;
+// Score of "none of these rules"; a lone keyword in a long sentence can't beat it by much
+const NONE_SCORE = 2;
+// Softmax temperature. With these values a fully explained keyword command scores ~0.88 and a
+// fully explained phrase ~0.98, while a keyword buried in a long question stays under ~0.75.
+const TEMPERATURE = 0.5;
+
+const normalize = (text: string): string => text
+    .toLowerCase()
+    .replace(/[.,!?¿¡;:"“”()\-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toUtterance = (text: string): Utterance => {
+    const normalized = normalize(text);
+    return { padded: ` ${normalized} `, wordCount: normalized ? normalized.split(' ').length : 0 };
+};
+
+const hasAny = (u: Utterance, phrases: string[]): boolean => phrases.some(p => u.padded.includes(` ${normalize(p)} `));
+
+// Words of the utterance covered by any of the phrases
+const coveredWords = (u: Utterance, phrases: string[]): number => {
+    let remaining = u.padded;
+    let covered = 0;
+    // Longest first, so "take me to" is counted once rather than as "take me" + "to"
+    for (const phrase of phrases.map(normalize).sort((a, b) => b.length - a.length)) {
+        if (!phrase) continue;
+        while (remaining.includes(` ${phrase} `)) {
+            remaining = remaining.replace(` ${phrase} `, ' | ');
+            covered += phrase.split(' ').length;
+        }
+    }
+    return covered;
+};
+
+// Whatever follows one of the prefixes, in the user's own words: "take me to X" / "llévame a X"
+const textAfter = (text: string, prefixes: string[]): string | undefined => {
+    const t = text.toLowerCase();
+    for (const prefix of prefixes) {
+        const index = t.indexOf(prefix);
+        if (index === -1) continue;
+        const rest = text.slice(index + prefix.length).replace(/^\s*(the|el|la|le|les|den|die|das)\s+/i, '').replace(/[.?!"“”]+$/, '').replace(/^["“”\s]+/, '').trim();
+        if (rest) return rest;
+    }
+    return undefined;
+};
+
+export const extractDestination = (text: string, localeCode: string = DEFAULT_LOCALE): string | undefined => {
+    return textAfter(text, getLocale(localeCode).rules.destinationPrefixes);
+};
+
+// "spell necessary please" -> "necessary"; "spell that word" -> undefined (the word just read)
+const wordToSpell = (text: string, r: IntentRuleTable): string | undefined => {
+    const skip = new Set([...r.readerThatWord, ...r.filler].flatMap(p => normalize(p).split(' ')));
+    const after = textAfter(text, r.readerSpell);
+    return after ? normalize(after).split(' ').find(w => !skip.has(w)) : undefined;
+};
+
+const setting = (key: SettingKey, adjustment: SettingAdjustment) => (): Partial<IntentResult> => ({ setting: key, adjustment });
+
+const buildGrammar = (r: IntentRuleTable, localeCode: string, context?: IntentContext): GrammarRule[] => {
+    // Reader commands only mean something while a document is open
+    const reader = (readerAction: ReaderAction) => (): Partial<IntentResult> | null => context?.hasDocument ? { readerAction } : null;
+
+    // "Switch to Spanish" works from any language, so the English switch words always apply too
+    const languageSwitch = [...r.languageSwitch, ...LOCALES[DEFAULT_LOCALE].rules.languageSwitch];
+    const notACommand = [...r.negations, ...r.notStop];
+    // "Mode" alone would otherwise make "turn off companion mode" a walking mode command
+    const otherModes = [...r.companion, ...r.handsFree, ...r.haptics, ...r.crossing];
+
+    return [
+        // Settings
+        {
+            type: IntentType.CHANGE_SETTING, all: [languageSwitch], weight: PHRASE,
+            slots: (text) => {
+                const locale = findLocaleByName(text);
+                return locale ? { setting: 'language', adjustment: 'next', locale } : null;
+            }
+        },
+        { type: IntentType.CHANGE_SETTING, all: [r.pathClearMore], weight: PHRASE, slots: setting('path_clear_frequency', 'increase') },
+        { type: IntentType.CHANGE_SETTING, all: [r.pathClearLess], weight: PHRASE, slots: setting('path_clear_frequency', 'decrease') },
+        { type: IntentType.CHANGE_SETTING, all: [r.differentVoice], weight: PHRASE, slots: setting('voice', 'next') },
+        { type: IntentType.CHANGE_SETTING, all: [r.defaultVoice], weight: PHRASE, slots: setting('voice', 'reset') },
+        { type: IntentType.CHANGE_SETTING, all: [r.slower], weight: PHRASE, slots: setting('speech_rate', 'decrease') },
+        { type: IntentType.CHANGE_SETTING, all: [r.faster], weight: PHRASE, slots: setting('speech_rate', 'increase') },
+        { type: IntentType.CHANGE_SETTING, all: [r.normalSpeed], weight: PHRASE, slots: setting('speech_rate', 'reset') },
+        // "Talk to me less often" = longer companion interval
+        { type: IntentType.CHANGE_SETTING, all: [r.lessOften], weight: PHRASE, slots: setting('companion_interval', 'increase') },
+        { type: IntentType.CHANGE_SETTING, all: [r.moreOften], weight: PHRASE, slots: setting('companion_interval', 'decrease') },
+        { type: IntentType.CHANGE_SETTING, all: [r.waitLonger], weight: PHRASE, slots: setting('silence_timeout', 'increase') },
+        { type: IntentType.CHANGE_SETTING, all: [r.waitLess], weight: PHRASE, slots: setting('silence_timeout', 'decrease') },
+        { type: IntentType.CHANGE_SETTING, all: [r.lessSensitive], weight: PHRASE, slots: setting('noise_sensitivity', 'decrease') },
+        { type: IntentType.CHANGE_SETTING, all: [r.moreSensitive], weight: PHRASE, slots: setting('noise_sensitivity', 'increase') },
+        {
+            type: IntentType.CHANGE_SETTING, all: [r.wakePhrasePrefixes], weight: PHRASE,
+            slots: (text) => {
+                const value = textAfter(text, r.wakePhrasePrefixes);
+                return value ? { setting: 'wake_phrase', adjustment: 'next', value } : null;
+            }
+        },
+
+        // Stopping things. A bare "stop" ends whatever is running: crossing mode, an object search, navigation, then walking mode.
+        // None of them apply to "don't stop" or "where's the exit", nor to a stop word inside a longer sentence
+        // ("I can't stop shaking", "ruta para la farmacia"); those are left to the model.
+        { type: IntentType.STOP_NAVIGATION, all: [r.stop, r.navigationWords], weight: PHRASE, unless: notACommand, alone: true },
+        { type: IntentType.WALKING_MODE_OFF, all: [r.stop, r.walkingWords], weight: PHRASE, unless: [...notACommand, ...otherModes], alone: true },
+        { type: IntentType.WALKING_MODE_OFF, all: [r.off, r.walkingWords], weight: PHRASE, unless: [...notACommand, ...otherModes, ...r.start], alone: true },
+        { type: IntentType.CROSSING_MODE_OFF, all: [r.stop, r.crossing], weight: PHRASE, unless: notACommand, alone: true },
+        { type: IntentType.CROSSING_MODE_OFF, all: [r.off, r.crossing], weight: PHRASE, unless: [...notACommand, ...r.start], alone: true },
+        { type: IntentType.CROSSING_MODE_OFF, all: [r.crossed], weight: PHRASE, slots: () => context?.isCrossing ? {} : null },
+        {
+            type: IntentType.STOP_NAVIGATION, all: [r.stop], weight: CUE, unless: notACommand, alone: true,
+            slots: () => context?.isCrossing ? { type: IntentType.CROSSING_MODE_OFF }
+                : context?.isSearching ? { type: IntentType.STOP_SEARCH }
+                : !context?.isNavigating && context?.isWalking ? { type: IntentType.WALKING_MODE_OFF } : {}
+        },
+        { type: IntentType.STOP_SEARCH, all: [r.foundIt], weight: PHRASE, slots: () => context?.isSearching ? {} : null },
+
+        // Modes
+        { type: IntentType.WALKING_MODE_ON, all: [r.start, r.walkingWords], weight: PHRASE, unless: otherModes },
+        { type: IntentType.CROSSING_MODE_ON, all: [r.crossing], weight: PHRASE, unless: [...r.stop, ...r.off, ...r.crossed], also: r.start },
+        { type: IntentType.COMPANION_MODE_OFF, all: [r.companion, r.off], weight: PHRASE, unless: r.negations },
+        { type: IntentType.COMPANION_MODE_ON, all: [r.companion], weight: CUE, unless: r.off, also: r.start },
+        { type: IntentType.HANDS_FREE_OFF, all: [r.handsFree, r.off], weight: PHRASE, unless: [...r.negations, ...r.wakePhrasePrefixes] },
+        { type: IntentType.HANDS_FREE_ON, all: [r.handsFree], weight: CUE, unless: [...r.off, ...r.wakePhrasePrefixes], also: r.start },
+        { type: IntentType.HAPTICS_TUTORIAL, all: [r.hapticsTutorial], weight: PHRASE },
+        { type: IntentType.HAPTICS_ONLY_OFF, all: [r.haptics, r.off], weight: PHRASE, unless: [...r.negations, ...r.hapticsTutorial] },
+        { type: IntentType.HAPTICS_ONLY_ON, all: [r.haptics], weight: CUE, unless: [...r.off, ...r.hapticsTutorial], also: r.start },
+
+        // Navigation
+        {
+            type: IntentType.NAVIGATE, all: [r.destinationPrefixes], weight: PHRASE,
+            slots: (text) => {
+                const destination = extractDestination(text, localeCode);
+                return destination ? { destination } : null;
+            }
+        },
+        { type: IntentType.NAVIGATE, all: [r.navigate], weight: CUE }, // "Navigate" on its own: App asks where to
+        { type: IntentType.WHERE_AM_I, all: [r.whereAmI], weight: CUE },
+
+        // Saved places
+        {
+            type: IntentType.SAVE_PLACE, all: [r.savePlacePrefixes], weight: PHRASE,
+            slots: (text) => ({ placeLabel: textAfter(text, r.savePlacePrefixes) }) // No label: App asks for one
+        },
+        {
+            type: IntentType.DELETE_PLACE, all: [r.deletePlacePrefixes], weight: PHRASE,
+            slots: (text) => ({ placeLabel: textAfter(text, r.deletePlacePrefixes) })
+        },
+        { type: IntentType.LIST_PLACES, all: [r.listPlaces], weight: CUE },
+
+        // Emergency contacts
+        {
+            type: IntentType.ADD_CONTACT, all: [r.addContactPrefixes], weight: PHRASE,
+            slots: (text) => ({ contactName: textAfter(text, r.addContactPrefixes) }) // No name: App asks for one
+        },
+        {
+            type: IntentType.REMOVE_CONTACT, all: [r.removeContactPrefixes], weight: PHRASE,
+            slots: (text) => ({ contactName: textAfter(text, r.removeContactPrefixes) })
+        },
+        { type: IntentType.LIST_CONTACTS, all: [r.listContacts], weight: CUE },
+
+        // Document reader
+        { type: IntentType.READER_CONTROL, all: [r.readerPause], weight: PHRASE, slots: reader('pause') },
+        { type: IntentType.READER_CONTROL, all: [r.readerResume], weight: PHRASE, slots: reader('resume') },
+        { type: IntentType.READER_CONTROL, all: [r.readerBack], weight: PHRASE, slots: reader('back') },
+        { type: IntentType.READER_CONTROL, all: [r.readerForward], weight: PHRASE, slots: reader('forward') },
+        { type: IntentType.READER_CONTROL, all: [r.readerRepeat], weight: PHRASE, slots: reader('repeat') },
+        { type: IntentType.READER_CONTROL, all: [r.readerRestart], weight: PHRASE, slots: reader('restart') },
+        { type: IntentType.READER_CONTROL, all: [r.readerAddPage], weight: PHRASE, slots: reader('add_page') },
+        {
+            type: IntentType.READER_CONTROL, all: [r.readerSpell], weight: PHRASE, also: r.readerThatWord,
+            slots: (text) => context?.hasDocument ? { readerAction: 'spell', value: wordToSpell(text, r) } : null
+        },
+
+        // Looking
+        {
+            type: IntentType.FIND_OBJECT, all: [r.findObjectPrefixes], weight: PHRASE,
+            slots: (text) => ({ target: textAfter(text, r.findObjectPrefixes) }) // No target: App asks what to look for
+        },
+        { type: IntentType.NEW_PICTURE, all: [r.newPicture], weight: PHRASE },
+        { type: IntentType.SAFETY_CHECK, all: [r.safety], weight: CUE },
+        { type: IntentType.READ_TEXT, all: [r.read], weight: CUE },
+        {
+            type: IntentType.DESCRIBE, all: [r.describe], weight: CUE,
+            slots: (_, u) => ({ detailLevel: hasAny(u, r.detailed) && !hasAny(u, r.brief) ? 'detailed' : 'simple' })
+        }
+    ];
+};
+
+// Score every rule that matches. Best candidate per intent type, highest first.
+const scoreCandidates = (text: string, localeCode: string, context?: IntentContext): Candidate[] => {
+    const rules = getLocale(localeCode).rules;
+    const u = toUtterance(text);
+    if (u.wordCount === 0) return [];
+
+    const fillerWords = coveredWords(u, rules.filler);
+    const best = new Map<IntentType, Candidate>();
+
+    for (const rule of buildGrammar(rules, localeCode, context)) {
+        if (!rule.all.every(group => hasAny(u, group))) continue;
+        if (rule.unless && hasAny(u, rule.unless)) continue;
+
+        const slots = rule.slots ? rule.slots(text, u) : {};
+        if (slots === null) continue;
+        const result: IntentResult = { type: rule.type, confidence: 0, originalQuery: text, ...slots };
+
+        // Destination, place label, search target, wake phrase and detail words are explained by the rule that read them
+        const slotWords = [result.destination, result.placeLabel, result.target, result.value]
+            .reduce((sum, slot) => sum + (slot ? toUtterance(slot).wordCount : 0), 0) +
+            (result.detailLevel ? coveredWords(u, [...rules.detailed, ...rules.brief]) : 0);
+        const explained = Math.min(u.wordCount, coveredWords(u, [...rule.all.flat(), ...(rule.also || [])]) + slotWords + fillerWords);
+        if (rule.alone && explained < u.wordCount) continue;
+        const score = rule.weight + COVERAGE_WEIGHT * explained / u.wordCount;
+
+        const previous = best.get(result.type);
+        if (!previous || score > previous.score) best.set(result.type, { result, score });
+    }
+
+    return Array.from(best.values()).sort((a, b) => b.score - a.score);
+};
+
+// Best local reading of the utterance with a calibrated confidence, or null if no rule matches
+export const parseIntent = (text: string, localeCode: string = DEFAULT_LOCALE, context?: IntentContext): IntentResult | null => {
+    const candidates = scoreCandidates(text, localeCode, context);
+    if (candidates.length === 0) return null;
+
+    const weights = candidates.map(c => Math.exp(c.score / TEMPERATURE));
+    const total = weights.reduce((sum, w) => sum + w, 0) + Math.exp(NONE_SCORE / TEMPERATURE);
+    const confidence = Math.round(weights[0] / total * 100) / 100;
+    return { ...candidates[0].result, confidence };
+};
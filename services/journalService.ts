@@ -0,0 +1,209 @@
+import { JournalEntry, JournalEventType } from "../types";
+
+// JournalService keeps a structured record of what happened during a session (intents, spoken hazards,
+// navigation, emergencies, AppState changes and GPS fixes) in IndexedDB, so a walk can be reviewed
+// afterwards or handed to a caregiver as JSON or GPX.
+// Writes are fire-and-forget: the journal must never slow down or break the walking loop.
+
+const DB_NAME = 'sightmate';
+const DB_VERSION = 1;
+const STORE = 'journal';
+
+const MAX_ENTRY_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAX_ENTRIES = 20000;
+const PRUNE_EVERY_WRITES = 200;
+
+// GPS fixes are thinned so a long walk doesn't flood the journal
+const POSITION_MIN_DISTANCE_M = 5;
+const POSITION_MIN_INTERVAL_MS = 10000;
+
+type Position = NonNullable<JournalEntry['position']>;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+// Rough planar distance, good enough to decide whether the user has moved
+const roughDistanceMeters = (a: Position, b: Position): number => {
+    const dLat = (a.latitude - b.latitude) * 111320;
+    const dLon = (a.longitude - b.longitude) * 111320 * Math.cos(a.latitude * Math.PI / 180);
+    return Math.sqrt(dLat * dLat + dLon * dLon);
+};
+
+const escapeXml = (s: string): string => s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// One line a person can read in a GPX waypoint or a map popup
+const describeEntry = (entry: JournalEntry): string => {
+    const d = entry.data as Record<string, any>;
+    switch (entry.type) {
+        case 'intent': return `Command: ${d.type}${d.originalQuery ? ` ("${d.originalQuery}")` : ''}`;
+        case 'hazard': return `Hazard (${d.change}): ${d.message || d.description} [${d.severity}, ${d.direction}]`;
+        case 'hazard_cleared': return `Cleared: ${d.description || d.hazard_type}`;
+        case 'navigation': return `Navigation ${d.event}: ${d.text || d.destination || ''}`.trim();
+        case 'search': return `Search ${d.event}: ${d.target}`;
+        case 'crossing': return `Crossing: ${d.event}${d.text ? ` ("${d.text}")` : ''}`;
+        case 'emergency': return `Emergency ${d.event}${d.detector ? ` (${d.detector})` : ''}`;
+        case 'state': return `State: ${d.state}`;
+        default: return entry.type;
+    }
+};
+
+export class JournalService {
+    readonly sessionId: string = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+    private dbPromise: Promise<IDBDatabase | null> | null = null;
+    // Used when IndexedDB is unavailable (private browsing, old WebViews): the session still exports
+    private memoryEntries: JournalEntry[] = [];
+    private lastPosition: Position | null = null;
+    private lastLoggedPosition: { position: Position; at: number } | null = null;
+    private writesSincePrune = 0;
+
+    private open(): Promise<IDBDatabase | null> {
+        if (this.dbPromise) return this.dbPromise;
+        this.dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') { resolve(null); return; }
+            try {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+                    store.createIndex('at', 'at');
+                    store.createIndex('sessionId', 'sessionId');
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    console.warn("Journal: IndexedDB unavailable, keeping this session in memory.", request.error);
+                    resolve(null);
+                };
+            } catch (e) {
+                console.warn("Journal: IndexedDB unavailable, keeping this session in memory.", e);
+                resolve(null);
+            }
+        });
+        this.dbPromise.then(db => { if (db) this.prune(); });
+        return this.dbPromise;
+    }
+
+    record(type: JournalEventType, data: Record<string, unknown> = {}, now: number = Date.now()) {
+        const entry: JournalEntry = { sessionId: this.sessionId, at: now, type, position: this.lastPosition, data };
+        this.open().then(async db => {
+            if (!db) {
+                this.memoryEntries.push(entry);
+                if (this.memoryEntries.length > MAX_ENTRIES) this.memoryEntries.shift();
+                return;
+            }
+            const tx = db.transaction(STORE, 'readwrite');
+            await requestToPromise(tx.objectStore(STORE).add(entry));
+            if (++this.writesSincePrune >= PRUNE_EVERY_WRITES) this.prune();
+        }).catch(e => console.warn("Journal: write failed", e));
+    }
+
+    // Remember the latest fix for later events; journal it as a track point if the user has moved
+    recordPosition(coords: GeolocationCoordinates, now: number = Date.now()) {
+        const position: Position = { latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy };
+        this.lastPosition = position;
+
+        const last = this.lastLoggedPosition;
+        if (last && roughDistanceMeters(last.position, position) < POSITION_MIN_DISTANCE_M && now - last.at < POSITION_MIN_INTERVAL_MS) return;
+        this.lastLoggedPosition = { position, at: now };
+        this.record('position', {}, now);
+    }
+
+    // Drop entries past the retention age, then the oldest ones beyond the entry cap
+    async prune(now: number = Date.now()) {
+        this.writesSincePrune = 0;
+        const db = await this.open();
+        if (!db) return;
+        try {
+            const tx = db.transaction(STORE, 'readwrite');
+            const store = tx.objectStore(STORE);
+            const index = store.index('at');
+            const expired = await requestToPromise(index.getAllKeys(IDBKeyRange.upperBound(now - MAX_ENTRY_AGE_MS)));
+            expired.forEach(key => store.delete(key));
+
+            // Requests run in order, so the count already excludes the deletions above
+            const overflow = (await requestToPromise(store.count())) - MAX_ENTRIES;
+            if (overflow > 0) {
+                const oldest = await requestToPromise(index.getAllKeys(null, overflow));
+                oldest.forEach(key => store.delete(key));
+            }
+        } catch (e) {
+            console.warn("Journal: prune failed", e);
+        }
+    }
+
+    // Entries for one session (default: the current one), oldest first. Pass null for everything kept.
+    async getEntries(sessionId: string | null = this.sessionId): Promise<JournalEntry[]> {
+        const db = await this.open();
+        if (!db) return this.memoryEntries.filter(e => sessionId === null || e.sessionId === sessionId);
+
+        const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+        const entries = sessionId === null
+            ? await requestToPromise(store.index('at').getAll())
+            : await requestToPromise(store.index('sessionId').getAll(IDBKeyRange.only(sessionId)));
+        return (entries as JournalEntry[]).sort((a, b) => a.at - b.at);
+    }
+
+    async clear() {
+        this.memoryEntries = [];
+        const db = await this.open();
+        if (!db) return;
+        await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+    }
+
+    async exportJson(sessionId: string | null = this.sessionId): Promise<string> {
+        const entries = await this.getEntries(sessionId);
+        return JSON.stringify({ app: 'SightMate', exportedAt: new Date().toISOString(), sessionId, entries }, null, 2);
+    }
+
+    // GPX 1.1: the GPS fixes as a track, every other event with a known position as a waypoint
+    async exportGpx(sessionId: string | null = this.sessionId): Promise<string> {
+        const entries = await this.getEntries(sessionId);
+        const time = (at: number) => `<time>${new Date(at).toISOString()}</time>`;
+        const coords = (p: Position) => `lat="${p.latitude.toFixed(7)}" lon="${p.longitude.toFixed(7)}"`;
+
+        const waypoints = entries
+            .filter(e => e.type !== 'position' && e.type !== 'state' && e.position)
+            .map(e => `  <wpt ${coords(e.position!)}>${time(e.at)}<name>${escapeXml(describeEntry(e))}</name><type>${e.type}</type></wpt>`);
+
+        const trackPoints = entries
+            .filter(e => e.type === 'position' && e.position)
+            .map(e => `      <trkpt ${coords(e.position!)}>${time(e.at)}</trkpt>`);
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<gpx version="1.1" creator="SightMate" xmlns="http://www.topografix.com/GPX/1/1">',
+            `  <metadata><name>SightMate session ${escapeXml(sessionId || 'all')}</name>${time(Date.now())}</metadata>`,
+            ...waypoints,
+            '  <trk>',
+            '    <name>Walk</name>',
+            '    <trkseg>',
+            ...trackPoints,
+            '    </trkseg>',
+            '  </trk>',
+            '</gpx>'
+        ].join('\n');
+    }
+
+    // Save an export through the browser's download flow
+    async download(format: 'json' | 'gpx', sessionId: string | null = this.sessionId) {
+        const content = format === 'json' ? await this.exportJson(sessionId) : await this.exportGpx(sessionId);
+        const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'application/gpx+xml' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `sightmate-${sessionId || 'journal'}.${format}`;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+}
+
+export const journalService = new JournalService();
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { classifyCheckReply, isConfirmation, LOCALES } from './locales';
+
+// Answers to "Are you okay?" per locale: [safe, negated, asking for help, neither]
+const CHECK_REPLIES: Record<string, { safe: string[]; danger: string[]; unclear: string[] }> = {
+    'en-US': { safe: ["I'm fine", 'yes ok', 'all right'], danger: ['not ok', "I'm not fine", 'no', 'help me', 'it hurts'], unclear: ['what', 'look at that'] },
+    'es-ES': { safe: ['estoy bien', 'sí, vale'], danger: ['no estoy bien', 'no', 'ayuda', 'me duele'], unclear: ['sin duda', 'qué'] },
+    'fr-FR': { safe: ['ça va', 'oui, bien'], danger: ['non ça va pas', 'ça ne va pas', 'pas bien', "j'ai mal"], unclear: ['normal', 'quoi'] },
+    'de-DE': { safe: ['gut', 'ja, alles in ordnung'], danger: ['nicht gut', 'nein', 'hilfe', 'es tut weh'], unclear: ['was', 'guten tag'] },
+    'hi-IN': { safe: ['ठीक है', 'हाँ'], danger: ['ठीक नहीं', 'नहीं', 'मदद करो', 'दर्द हो रहा है'], unclear: ['क्या'] }
+};
+
+describe('classifyCheckReply', () => {
+    it('covers every locale', () => {
+        expect(Object.keys(CHECK_REPLIES).sort()).toEqual(Object.keys(LOCALES).sort());
+    });
+
+    for (const [locale, replies] of Object.entries(CHECK_REPLIES)) {
+        it(`reads ${locale} answers`, () => {
+            for (const text of replies.safe) expect(classifyCheckReply(text, locale), text).toBe('safe');
+            for (const text of replies.danger) expect(classifyCheckReply(text, locale), text).toBe('danger');
+            for (const text of replies.unclear) expect(classifyCheckReply(text, locale), text).toBeNull();
+        });
+    }
+});
+
+describe('isConfirmation', () => {
+    it('accepts a yes and rejects a negated one', () => {
+        expect(isConfirmation("yes that's right", 'en-US')).toBe(true);
+        expect(isConfirmation("that's not right", 'en-US')).toBe(false);
+        expect(isConfirmation('no', 'en-US')).toBe(false);
+        expect(isConfirmation('sí, correcto', 'es-ES')).toBe(true);
+        expect(isConfirmation('no es correcto', 'es-ES')).toBe(false);
+        expect(isConfirmation("ce n'est pas correct", 'fr-FR')).toBe(false);
+        expect(isConfirmation('nicht richtig', 'de-DE')).toBe(false);
+        expect(isConfirmation('सही नहीं', 'hi-IN')).toBe(false);
+    });
+});
@@ -0,0 +1,1777 @@
+import { CrossingObservation, DocumentFraming, FrameEdge, ObjectSighting, QualityIssue } from "../types";
+
+// Locale tables: speech recognition/synthesis language, voice preferences, distress keywords,
+// emergency replies and the offline intent parser's keyword rules, per supported language.
+// All keywords are lowercase and matched with includes().
+
+export interface IntentRuleTable {
+    safety: string[];
+    stop: string[];
+    negations: string[];          // "don't stop": a stop or off command that is negated isn't one
+    notStop: string[];            // A stop word that isn't a command: "where's the exit", "bus stop"
+    navigationWords: string[];    // Qualifies a stop command as STOP_NAVIGATION
+    walkingWords: string[];       // Qualifies start/stop as walking mode
+    start: string[];
+    navigate: string[];
+    destinationPrefixes: string[]; // "take me to" <destination>
+    savePlacePrefixes: string[];   // "save this place as" <label>
+    deletePlacePrefixes: string[]; // "delete the place" <label>
+    listPlaces: string[];
+    addContactPrefixes: string[];    // "add emergency contact" <name>
+    removeContactPrefixes: string[]; // "remove emergency contact" <name>
+    listContacts: string[];
+    findObjectPrefixes: string[];  // "help me find" <target>; longer prefixes first
+    foundIt: string[];             // Ends an object search
+    crossing: string[];            // Crossing mode
+    crossed: string[];             // Ends crossing mode
+    whereAmI: string[];
+    read: string[];
+    companion: string[];
+    off: string[];
+    newPicture: string[];         // Ends the follow-up conversation about the last picture
+    describe: string[];
+    detailed: string[];           // detailLevel 'detailed'
+    brief: string[];              // detailLevel 'simple'
+    handsFree: string[];
+    haptics: string[];            // Vibrations instead of spoken alerts
+    hapticsTutorial: string[];    // Play each vibration with its meaning
+    wakePhrasePrefixes: string[]; // "change the wake phrase to" <phrase>
+    // Document reader, only while a document is open
+    readerPause: string[];
+    readerResume: string[];
+    readerBack: string[];         // Previous paragraph
+    readerForward: string[];      // Next paragraph
+    readerRepeat: string[];       // Current paragraph again
+    readerRestart: string[];      // From the top
+    readerSpell: string[];        // "spell" <word>, or the word just read
+    readerThatWord: string[];     // "spell that word": no word given
+    readerAddPage: string[];
+    filler: string[];             // Politeness and wake words, ignored when scoring
+    // Settings
+    slower: string[];
+    faster: string[];
+    normalSpeed: string[];
+    differentVoice: string[];
+    defaultVoice: string[];
+    lessOften: string[];
+    moreOften: string[];
+    waitLonger: string[];
+    waitLess: string[];
+    moreSensitive: string[];
+    lessSensitive: string[];
+    pathClearLess: string[];
+    pathClearMore: string[];
+    languageSwitch: string[];
+}
+
+// OSRM's turn modifiers, as used by routingService
+export type TurnModifier = 'left' | 'slight left' | 'sharp left' | 'right' | 'slight right' | 'sharp right';
+
+// The vibration patterns named by the tutorial, in the order they are played
+export type VibrationName = 'hazardLeft' | 'hazardAhead' | 'hazardRight' | 'hazardFar' | 'hazardNear' | 'hazardSerious' | 'turnLeft' | 'turnRight'
+    | 'arrived' | 'walk' | 'dontWalk' | 'countdown' | 'vehicle' | 'emergencyCheck' | 'emergencyAlerting';
+
+// Everything SightMate says in this language, apart from the model's own answers. The emergency check's replies
+// are read with classifyCheckReply.
+export interface LocalePhrases {
+    // Emergency check
+    areYouOkay: string;
+    askAgain: string;          // After silence or an unclear answer
+    gladYouAreSafe: string;
+    // Walking mode
+    companion: string[];       // Picked at random in companion mode
+    pathClear: string;
+    cleared: (names: string[]) => string;
+    coverageSlowed: string;
+    coverageRestored: string;
+    // Document reader
+    noDocument: string;
+    paused: string;
+    whichWord: string;
+    framePage: string;         // Before the picture of the first page
+    frameNextPage: string;
+    pageNumber: (page: number) => string;
+    lastParagraph: string;
+    endOfDocument: string;     // After a gesture at the end
+    endOfDocumentHint: string; // After a spoken "continue" at the end
+    endOfPage: (pages: number) => string;
+    // General
+    welcome: string;
+    didntHear: string;          // Nothing was said
+    didntHearTryAgain: string;  // Too little was said to be a command
+    okay: string;
+    cameraError: string;
+    requestError: string;
+    connectionError: string;
+    overloaded: string;         // The model's quota ran out
+    microphoneDenied: string;
+    // Camera
+    cameraOpening: string;
+    cameraReady: string;
+    cameraFailed: string;
+    cameraPermission: string;
+    cameraLoading: string;
+    capturing: string;
+    imageBlack: string;
+    imageStillDark: string;
+    imageCaptured: string;
+    // Pictures
+    locating: string;
+    noGpsCheckingVisually: string;
+    checking: string;
+    couldntSee: string;         // The model had nothing to say about the picture
+    qualityIssues: Record<QualityIssue, string>; // How to fix the picture
+    tryingAgain: string;
+    // Emergency alerts
+    noContactsToAlert: string;
+    noAlertChannel: string;     // Contacts, but no way to reach any of them
+    alertingContacts: string;
+    alerting: (name: string) => string;
+    unreachable: (name: string) => string;
+    alertReceived: (name: string) => string;
+    nobodyResponded: string;
+    checkCancelled: string;
+    emergencyReset: string;
+    // Emergency contacts
+    whoToAdd: string;
+    askPhone: (name: string) => string;
+    noPhoneHeard: (name: string) => string;
+    confirmContact: (name: string, phone: string) => string;
+    contactNotAdded: (name: string) => string;
+    contactSaved: (name: string, replaced: boolean) => string;
+    smsNotConfigured: string;
+    noContacts: string;
+    contacts: (names: string[]) => string; // In alert order
+    whichContact: string;
+    contactRemoved: (name: string) => string;
+    noSuchContact: (name: string) => string;
+    // Saved places
+    whichPlaceName: string;
+    gettingExactLocation: string;
+    noGpsFix: string;
+    placeSaved: (label: string, replaced: boolean) => string;
+    roughFix: (meters: number) => string;
+    noPlaces: string;
+    places: (labels: string[]) => string;
+    whichPlaceToDelete: string;
+    placeDeleted: (label: string) => string;
+    noSuchPlace: (label: string) => string;
+    // Navigation
+    whereTo: string;
+    calculatingRoute: (destination: string) => string;
+    routeFound: (totalTime: string) => string;
+    startingNavigation: string;
+    approximateRoute: (directions: string) => string; // The model's route, read out in full
+    arrivalAnnounced: string;
+    sayStopOnArrival: string;
+    locationNotFound: string;
+    noGps: string;
+    needLocationAccess: string;
+    gpsLost: string;
+    backOnRoute: string;
+    offRoute: string;
+    newRoute: string;
+    noNewRoute: string;
+    navigationStopped: string;
+    arrived: string;
+    approaching: (distance: string, instruction: string) => string; // instruction is lowercased, without a full stop
+    continueFor: (distance: string, instruction: string) => string;
+    meters: (meters: number) => string;
+    kilometers: (kilometers: number) => string;
+    aboutMinutes: (minutes: number) => string;
+    // Route instructions from map data, when the model can't word them
+    routeDepart: (street: string) => string;
+    routeArrive: (destination: string) => string;
+    routeRoundabout: (street: string) => string;
+    routeTurnAround: string;
+    routeStraight: (street: string) => string;
+    routeTurn: (side: string, street: string) => string;
+    turnSides: Record<TurnModifier, string>;
+    // Walking and modes
+    walkingOn: string;
+    walkingOff: string;
+    walkingRestarted: string;
+    companionOn: string;
+    companionOff: string;
+    handsFreeOn: (wakePhrase: string) => string;
+    handsFreeOff: string;
+    hapticsOnlyOn: string;
+    hapticsOnlyOff: string;
+    // Settings
+    whichSetting: string;
+    languageUnsupported: string;
+    whatWakePhrase: string;
+    wakePhraseSet: (wakePhrase: string, handsFree: boolean) => string;
+    fastest: string;
+    slowest: string;
+    normalSpeed: string;
+    faster: string;
+    slower: string;
+    rarest: string;
+    mostOften: string;
+    checkInEvery: (seconds: number) => string;
+    silenceLimit: string;
+    silenceWait: (seconds: number) => string;
+    noiseLimit: string;
+    noiseReset: string;
+    quieterNoises: string;
+    loudNoisesOnly: string;
+    pathClearAlreadyOff: string;
+    pathClearMostOften: string;
+    pathClearOff: string;
+    pathClearMore: string;
+    pathClearLess: string;
+    usualVoice: string;
+    noOtherVoices: string;
+    voiceChanged: (name: string) => string;
+    // Finding things
+    whatToFind: string;
+    finishCrossingFirst: string;
+    searchTarget: (target: string) => string; // "my keys" -> "your keys"
+    lookingFor: (name: string, walkingPaused: boolean) => string;
+    stoppedLooking: string;
+    searchGaveUp: (name: string) => string;
+    searchLost: (name: string, wasAt: 'left' | 'center' | 'right') => string;
+    searchStill: (name: string) => string;
+    searchFound: (name: string, vertical: string) => string;
+    searchSee: (name: string, where: string) => string;
+    searchGuide: (where: string, closer: boolean, far: boolean) => string;
+    searchHorizontal: Record<ObjectSighting['horizontal'], string>;
+    searchVertical: Record<ObjectSighting['vertical'], string>; // Appended to a direction
+    // Crossing the street
+    crossingOn: string;
+    crossingOff: string;
+    crossingTimedOut: string;
+    vehicleApproaching: (side: CrossingObservation['vehicleDirection']) => string;
+    signalWalk: string;
+    signalDontWalk: string;
+    signalCountdown: (seconds: number | null) => string;
+    secondsLeft: (seconds: number) => string;
+    backOnCrossing: string;
+    driftingLeft: string;
+    driftingRight: string;
+    // Framing a page
+    framingNoPage: string;
+    framingTooClose: string;
+    framingCutOff: (edges: FrameEdge[]) => string;
+    framingCloser: (offset: DocumentFraming['offset']) => string;
+    framingShift: (offset: DocumentFraming['offset']) => string;
+    framingHoldStill: string;
+    framingTimeout: string;
+    framingReady: string;
+    // Vibrations tutorial
+    vibrationsIntro: string;
+    vibrationsOutro: string;
+    vibrations: Record<VibrationName, string>;
+    // Developer tools
+    replayFinished: (matches: boolean) => string;
+}
+
+export interface LocaleDefinition {
+    code: string;          // BCP-47, used for SpeechRecognition.lang and voice matching
+    language: string;      // English name, used in Gemini prompts
+    names: string[];       // How users may name this language ("switch to Spanish" / "habla español")
+    preferredVoices: string[];
+    distressHigh: string[];
+    distressMedium: string[];
+    safeReplies: string[];   // Answers to "Are you okay?" meaning yes
+    dangerReplies: string[]; // ...meaning no / send help
+    yesReplies: string[];    // Confirming a question like "Is that right?"
+    noReplies: string[];     // No, not, don't ...: outweighs any safe or yes word ("not ok", "no estoy bien")
+    leftWords: string[];     // Route instructions that turn left, for the turn vibration
+    rightWords: string[];
+    switchedConfirmation: string;
+    phrases: LocalePhrases;
+    rules: IntentRuleTable;
+}
+
+export const DEFAULT_LOCALE = 'en-US';
+
+// "a, b and c"
+const listWith = (and: string) => (items: string[]): string =>
+    items.length < 2 ? items.join('') : `${items.slice(0, -1).join(', ')} ${and} ${items[items.length - 1]}`;
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+// 2.5 -> "2,5" where the comma is the decimal separator
+const decimalComma = (value: number): string => String(value).replace('.', ',');
+
+export const LOCALES: Record<string, LocaleDefinition> = {
+    'en-US': {
+        code: 'en-US',
+        language: 'English',
+        names: ['english', 'inglés', 'ingles', 'anglais', 'englisch', 'अंग्रेज़ी', 'अंग्रेजी'],
+        preferredVoices: ['Google US English', 'Samantha', 'Microsoft Zira', 'Karen', 'Victoria'],
+        distressHigh: ['help', 'emergency', 'call 911', 'scream', 'no no no'],
+        distressMedium: ['ouch', 'hurt', 'pain', 'fell', 'falling', 'stop it'],
+        safeReplies: ['ok', 'okay', 'fine', 'good', 'safe', 'yes', 'alright', 'all right'],
+        dangerReplies: ['help', 'hurt', 'hurts', 'pain', 'call', 'injured', 'bleeding'],
+        yesReplies: ['yes', 'yeah', 'yep', 'correct', 'right', 'ok', 'okay', 'sure'],
+        noReplies: ['no', 'not', 'nope', "don't", 'dont', "isn't", "can't", "i'm not", 'wrong'],
+        leftWords: ['left'],
+        rightWords: ['right'],
+        switchedConfirmation: "Okay, I'll speak English now.",
+        phrases: {
+            areYouOkay: "It sounds like something is wrong. Are you okay?",
+            askAgain: "I didn't hear you. Please say 'I'm okay' if you are safe.",
+            gladYouAreSafe: "I'm glad you are safe. Resuming.",
+            companion: [
+                "I'm walking right here with you.",
+                "You're doing great, stay confident.",
+                "I'm watching out for you.",
+                "Everything looks good, keep going.",
+                "I'm here, just let me know if you need anything.",
+                "Nice and steady.",
+                "You are doing wonderful.",
+                "The path ahead seems clear."
+            ],
+            pathClear: "Path clear.",
+            cleared: (names) => `${names.join(' and ')} cleared.`,
+            coverageSlowed: "Hazard checking is slowed down. Take extra care.",
+            coverageRestored: "Hazard checking is back to normal.",
+            noDocument: "There's no document open. Say read this to start reading.",
+            paused: "Paused. Say continue when you're ready.",
+            whichWord: "Which word? Say spell, then the word.",
+            framePage: "Hold the phone over the page. I'll take the picture when all of it is in view.",
+            frameNextPage: "Next page. Hold the phone over it.",
+            pageNumber: (page) => `Page ${page}.`,
+            lastParagraph: "That's the last paragraph.",
+            endOfDocument: "That's the end of the document.",
+            endOfDocumentHint: "That's the end of the document. Say read from the top to hear it again.",
+            endOfPage: (pages) => `End of ${pages > 1 ? `page ${pages}` : 'the page'}. Say add another page to keep going.`,
+            welcome: "SightMate ready. Press to speak.",
+            didntHear: "I didn't hear you.",
+            didntHearTryAgain: "I didn’t hear you, please try again.",
+            okay: "Okay.",
+            cameraError: "Camera error.",
+            requestError: "Error processing request.",
+            connectionError: "Connection error.",
+            overloaded: "I'm a bit overwhelmed right now. Please try again in a moment.",
+            microphoneDenied: "Microphone access denied.",
+            cameraOpening: "Opening camera...",
+            cameraReady: "Camera ready.",
+            cameraFailed: "Camera error. Please restart app.",
+            cameraPermission: "Camera error: please check permissions.",
+            cameraLoading: "Camera is loading...",
+            capturing: "Capturing image...",
+            imageBlack: "The image appears to be black. Trying again...",
+            imageStillDark: "Image is still too dark. Please ensure camera is not covered.",
+            imageCaptured: "Image captured. Processing...",
+            locating: "Locating...",
+            noGpsCheckingVisually: "GPS signal lost. Checking visual cues.",
+            checking: "Checking...",
+            couldntSee: "I couldn't see clearly.",
+            qualityIssues: {
+                too_dark: "It's too dark to see. Turn on a light or move somewhere brighter.",
+                too_bright: "There's too much glare. Turn away from the light a little.",
+                blurry: "Hold still.",
+                covered: "Something is covering the camera.",
+                tilted_left: "Straighten the phone, it's tilted to the left.",
+                tilted_right: "Straighten the phone, it's tilted to the right.",
+                pointing_down: "Tilt the phone up.",
+                pointing_up: "Tilt the phone down.",
+                moving: "Hold still."
+            },
+            tryingAgain: "Trying again...",
+            noContactsToAlert: "I don't have any emergency contacts set up, so I can't alert anyone. Please call for help.",
+            noAlertChannel: "No alert channel is configured on this device, so I can't alert your contacts. Please call for help.",
+            alertingContacts: "Contacting your emergency contacts and sending your location now.",
+            alerting: (name) => `Alerting ${name}.`,
+            unreachable: (name) => `I couldn't reach ${name}. Trying the next contact.`,
+            alertReceived: (name) => `${name} has received your alert. Help is on the way.`,
+            nobodyResponded: "Nobody has responded yet. Please call for help if you can.",
+            checkCancelled: "Emergency check cancelled.",
+            emergencyReset: "Emergency mode reset. I'm letting your contacts know you're safe.",
+            whoToAdd: "Who should I add? Say, for example, add emergency contact Sam.",
+            askPhone: (name) => `What is ${name}'s phone number?`,
+            noPhoneHeard: (name) => `I didn't catch a phone number, so I haven't added ${name}.`,
+            confirmContact: (name, phone) => `${name}, ${phone}. Is that right?`,
+            contactNotAdded: (name) => `Okay, I haven't added ${name}.`,
+            contactSaved: (name, replaced) => `${replaced ? 'Updated' : 'Added'} ${name} as an emergency contact.`,
+            smsNotConfigured: "Text alerts aren't set up on this device yet, so I can't reach them until an SMS gateway is configured.",
+            noContacts: "You don't have any emergency contacts yet. Say add emergency contact and their name to add one.",
+            contacts: (names) => names.length === 1
+                ? `Your emergency contact is ${names[0]}.`
+                : `Your emergency contacts, in the order I alert them, are ${listWith('and')(names)}.`,
+            whichContact: "Which contact should I remove?",
+            contactRemoved: (name) => `Removed ${name} from your emergency contacts.`,
+            noSuchContact: (name) => `I don't have an emergency contact called ${name}.`,
+            whichPlaceName: "What should I call this place? Say, for example, save this place as home.",
+            gettingExactLocation: "Getting your exact location.",
+            noGpsFix: "I couldn't get a GPS fix, so I haven't saved this place. Please try again outdoors.",
+            placeSaved: (label, replaced) => `${replaced ? 'Updated' : 'Saved'} this place as ${label}.`,
+            roughFix: (meters) => `GPS was only accurate to about ${meters} meters, so you may want to save it again later.`,
+            noPlaces: "You don't have any saved places yet. Say save this place as home to add one.",
+            places: (labels) => labels.length === 1
+                ? `You have one saved place: ${labels[0]}.`
+                : `You have ${labels.length} saved places: ${listWith('and')(labels)}.`,
+            whichPlaceToDelete: "Which place should I delete?",
+            placeDeleted: (label) => `Deleted ${label}.`,
+            noSuchPlace: (label) => `I don't have a place called ${label}.`,
+            whereTo: "Where would you like to go?",
+            calculatingRoute: (destination) => `Calculating walking route to ${destination}.`,
+            routeFound: (totalTime) => totalTime ? `Route found. ${totalTime}.` : "Route found.",
+            startingNavigation: "Starting navigation.",
+            approximateRoute: (directions) => `These directions are approximate, so here they all are. ${directions}`,
+            arrivalAnnounced: "I'll tell you when you arrive.",
+            sayStopOnArrival: "Say stop navigation when you get there.",
+            locationNotFound: "I couldn't find that location.",
+            noGps: "GPS is not available, so I can't guide you turn by turn.",
+            needLocationAccess: "I need location access to guide you.",
+            gpsLost: "GPS signal lost. I'll keep trying.",
+            backOnRoute: "You're back on route.",
+            offRoute: "You seem to be off route. Finding a new route.",
+            newRoute: "New route found.",
+            noNewRoute: "I couldn't find a new route yet. Keep to a safe spot and I'll try again.",
+            navigationStopped: "Navigation stopped.",
+            arrived: "You have arrived.",
+            approaching: (distance, instruction) => `In ${distance}, ${instruction}.`,
+            continueFor: (distance, instruction) => `Continue for ${distance}, then ${instruction}.`,
+            meters: (meters) => `${meters} meters`,
+            kilometers: (kilometers) => `${kilometers} kilometers`,
+            aboutMinutes: (minutes) => `About ${minutes} minute${minutes === 1 ? '' : 's'}`,
+            routeDepart: (street) => street ? `Start walking along ${street}` : "Start walking",
+            routeArrive: (destination) => `Arrive at ${destination}`,
+            routeRoundabout: (street) => street ? `Go around the roundabout onto ${street}` : "Go around the roundabout",
+            routeTurnAround: "Turn around",
+            routeStraight: (street) => street ? `Continue straight onto ${street}` : "Continue straight",
+            routeTurn: (side, street) => street ? `Turn ${side} onto ${street}` : `Turn ${side}`,
+            turnSides: { left: 'left', 'slight left': 'slight left', 'sharp left': 'sharp left', right: 'right', 'slight right': 'slight right', 'sharp right': 'sharp right' },
+            walkingOn: "Walking mode active. I'm with you.",
+            walkingOff: "Walking mode disabled.",
+            walkingRestarted: "Walking mode active.",
+            companionOn: "I'm here with you now. Let's go together.",
+            companionOff: "Quiet mode enabled.",
+            handsFreeOn: (wakePhrase) => `Hands-free is on. Say "${wakePhrase}" whenever you need me.`,
+            handsFreeOff: "Hands-free is off. Tap the button to talk to me.",
+            hapticsOnlyOn: "Vibrations only. Hazards, turns and crossing signals will vibrate instead of speaking. Say teach me the vibrations to learn them.",
+            hapticsOnlyOff: "Spoken alerts are back on.",
+            whichSetting: "Which setting would you like to change? For example, say speak slower.",
+            languageUnsupported: "Sorry, I can't speak that language yet.",
+            whatWakePhrase: "What should the new wake phrase be? Say, for example, change the wake phrase to hello buddy.",
+            wakePhraseSet: (wakePhrase, handsFree) => handsFree
+                ? `Okay, say "${wakePhrase}" to wake me.`
+                : `Okay, the wake phrase is "${wakePhrase}". Say turn on hands-free to use it.`,
+            fastest: "I'm already speaking as fast as I can.",
+            slowest: "I'm already speaking as slowly as I can.",
+            normalSpeed: "Okay, back to my normal speed.",
+            faster: "Okay, I'll speak faster.",
+            slower: "Okay, I'll speak slower.",
+            rarest: "I'm already talking as rarely as I can.",
+            mostOften: "I'm already talking as often as I can.",
+            checkInEvery: (seconds) => `Okay, I'll check in about every ${seconds} seconds.`,
+            silenceLimit: "That's already the limit for how long I wait.",
+            silenceWait: (seconds) => `Okay, I'll wait ${seconds} seconds of silence before I stop listening.`,
+            noiseLimit: "Noise sensitivity is already at its limit.",
+            noiseReset: "Noise sensitivity reset.",
+            quieterNoises: "Okay, I'll react to quieter noises.",
+            loudNoisesOnly: "Okay, only very loud noises will alert me now.",
+            pathClearAlreadyOff: "I've already stopped saying path clear.",
+            pathClearMostOften: "That's as often as I'll say path clear.",
+            pathClearOff: "Okay, I won't say path clear anymore.",
+            pathClearMore: "Okay, I'll confirm the path is clear more often.",
+            pathClearLess: "Okay, I'll say path clear less often.",
+            usualVoice: "Okay, back to my usual voice.",
+            noOtherVoices: "Sorry, there are no other voices available on this device.",
+            voiceChanged: (name) => `Okay, this is ${name}. Say use a different voice again to hear another.`,
+            whatToFind: "What should I look for? Say, for example, find my keys.",
+            finishCrossingFirst: "Let's finish crossing first. Say I've crossed when you're on the other side.",
+            searchTarget: (target) => /^my\s/i.test(target) ? `your ${target.slice(3).trim()}` : /^(the|your|a|an)\s/i.test(target) ? target : `the ${target}`,
+            lookingFor: (name, walkingPaused) => `Looking for ${name}. Slowly move the camera around.${walkingPaused ? ' Walking alerts are paused while I search.' : ''}`,
+            stoppedLooking: "Okay, I've stopped looking.",
+            searchGaveUp: (name) => `I couldn't find ${name}. It may be out of view, or somewhere the camera can't see.`,
+            searchLost: (name, wasAt) => `I've lost ${name}. ${wasAt === 'center' ? 'Hold still for a moment' : `Move back to the ${wasAt}`}.`,
+            searchStill: (name) => `Still looking for ${name}. Slowly turn the camera around.`,
+            searchFound: (name, vertical) => `Found ${name}. It's straight ahead${vertical}, about an arm's length away.`,
+            searchSee: (name, where) => `I see ${name}, ${where}.`,
+            searchGuide: (where, closer, far) => `${closer ? `Getting closer, ${where}` : capitalize(where)}${far ? ', still a few steps away' : ''}.`,
+            searchHorizontal: { far_left: 'turn to your left', left: 'a bit to the left', center: 'straight ahead', right: 'a bit to the right', far_right: 'turn to your right' },
+            searchVertical: { up: ', a little higher', level: '', down: ', a little lower' },
+            crossingOn: "Crossing mode. Point the phone across the street and I'll tell you when the signal changes.",
+            crossingOff: "Crossing mode off.",
+            crossingTimedOut: "Leaving crossing mode.",
+            vehicleApproaching: (side) => `Vehicle approaching${{ left: ' from the left', right: ' from the right', center: ' ahead', unknown: '' }[side]}!`,
+            signalWalk: "Signal is now WALK.",
+            signalDontWalk: "Signal is now DON'T WALK. Wait here.",
+            signalCountdown: (seconds) => seconds !== null ? `Signal is counting down, ${seconds} seconds left.` : "Signal is counting down.",
+            secondsLeft: (seconds) => `${seconds} seconds left.`,
+            backOnCrossing: "Back on the crossing.",
+            driftingLeft: "Drifting left. Step right.",
+            driftingRight: "Drifting right. Step left.",
+            framingNoPage: "I can't see a page yet. Hold the phone flat, about a forearm's length above it.",
+            framingTooClose: "Move the phone further away.",
+            framingCutOff: (edges) => `The page is cut off at the ${edges.join(' and ')}. Move the phone ${edges.map(edge => ({ top: 'up', bottom: 'down', left: 'left', right: 'right' })[edge]).join(' and ')}.`,
+            framingCloser: (offset) => offset === 'centered' ? "Move the phone closer." : `Move the phone ${offset} and a little closer.`,
+            framingShift: (offset) => `Move the phone ${offset} a little.`,
+            framingHoldStill: "That's the whole page. Hold still.",
+            framingTimeout: "I'll read what I can see.",
+            framingReady: "Got it.",
+            vibrationsIntro: "Here are the vibrations. Each one plays after its name.",
+            vibrationsOutro: "That's all of them. Say teach me the vibrations to hear them again.",
+            vibrations: {
+                hazardLeft: "Hazard on the left: one pulse.",
+                hazardAhead: "Hazard ahead: two pulses.",
+                hazardRight: "Hazard on the right: three pulses.",
+                hazardFar: "A hazard far away is spaced out.",
+                hazardNear: "A close hazard comes quickly.",
+                hazardSerious: "A serious hazard has long pulses, twice.",
+                turnLeft: "Turn or step left: long, then short.",
+                turnRight: "Turn or step right: short, then long.",
+                arrived: "You have arrived.",
+                walk: "Crossing signal says walk.",
+                dontWalk: "Crossing signal says don't walk.",
+                countdown: "Signal counting down.",
+                vehicle: "Vehicle approaching.",
+                emergencyCheck: "Emergency check: are you okay?",
+                emergencyAlerting: "Alerting your emergency contacts."
+            },
+            replayFinished: (matches) => matches ? "Replay finished. Hazard announcements match the recording." : "Replay finished. Hazard announcements differ from the recording."
+        },
+        rules: {
+            safety: ['safe', 'danger', 'watch out'],
+            stop: ['stop', 'cancel', 'quit', 'exit'],
+            negations: ["don't", 'dont', 'do not', 'never', "can't", 'cant', 'cannot'],
+            notStop: ['the exit', 'an exit', 'exit sign', 'emergency exit', 'nearest exit', 'exit door', 'bus stop', 'tram stop', 'next stop', 'the stop', 'a stop'],
+            navigationWords: ['navigation', 'route'],
+            walkingWords: ['walking', 'mode'],
+            start: ['start', 'begin', 'turn on', 'switch on', 'enable'],
+            navigate: ['navigate', 'go to', 'take me'],
+            destinationPrefixes: ['take me to', 'navigate to', 'go to', 'directions to', 'walk me to', 'guide me to', 'take me'],
+            savePlacePrefixes: ['save this place as', 'save this location as', 'save my location as', 'remember this place as', 'save this spot as'],
+            deletePlacePrefixes: ['delete the place', 'delete place', 'delete saved place', 'forget the place', 'forget place', 'remove the place', 'remove place'],
+            listPlaces: ['my places', 'saved places', 'list places', 'which places', 'what places'],
+            addContactPrefixes: ['add an emergency contact', 'add emergency contact', 'new emergency contact', 'add a contact', 'add contact'],
+            removeContactPrefixes: ['remove emergency contact', 'delete emergency contact', 'remove the contact', 'delete the contact', 'remove contact', 'delete contact'],
+            listContacts: ['who are my emergency contacts', 'list my emergency contacts', 'emergency contacts', 'my contacts', 'who will you call', 'who will you alert'],
+            findObjectPrefixes: ['help me find', 'look for', 'search for', 'where did i put', 'where are my', 'where is my', "where's my", 'find'],
+            foundIt: ['found it', 'got it', 'i have it', 'stop searching', 'stop looking'],
+            crossing: ['crossing mode', 'crossing', 'cross the street', 'cross the road', 'help me cross', 'crosswalk', 'zebra crossing'],
+            crossed: ["i've crossed", 'i crossed', "i'm across", 'made it across', "i'm on the other side"],
+            whereAmI: ['where am i', 'location', 'address'],
+            read: ['read', 'what does this say', 'what does it say', 'text', 'document'],
+            companion: ['companion', 'be my friend'],
+            off: ['off', 'turn off', 'switch off', 'stop'],
+            newPicture: ['new picture', 'new photo', 'another picture', 'another photo', 'take another', 'look again'],
+            describe: ['describe', 'what do you see', "what's in front of me", 'what is in front of me', "what's around me", 'what is around me', 'look around', "what's this", 'what is this', 'what is that', 'scene', 'surroundings'],
+            detailed: ['in detail', 'detailed', 'everything', 'more detail'],
+            brief: ['briefly', 'quick', 'quickly', 'short'],
+            handsFree: ['hands free', 'hands-free', 'wake word', 'wake phrase'],
+            haptics: ['vibrations only', 'vibration only', 'only vibrate', 'haptics only', 'haptic', 'haptics', 'vibration', 'vibrations', 'vibrate', 'silent mode'],
+            hapticsTutorial: ['teach me the vibrations', 'learn the vibrations', 'vibration tutorial', 'haptic tutorial', 'what do the vibrations mean', 'practice the vibrations'],
+            wakePhrasePrefixes: ['wake phrase to', 'wake word to', 'wake up phrase to'],
+            readerPause: ['pause', 'hold on', 'stop reading'],
+            readerResume: ['continue', 'resume', 'keep reading', 'keep going', 'carry on', 'go on'],
+            readerBack: ['go back', 'back a paragraph', 'previous paragraph', 'last paragraph', 'back up'],
+            readerForward: ['skip', 'next paragraph', 'skip ahead', 'go forward'],
+            readerRepeat: ['repeat', 'say that again', 'read that again', 'read it again'],
+            readerRestart: ['from the top', 'from the beginning', 'start over', 'start again'],
+            readerSpell: ['spell'],
+            readerThatWord: ['that word', 'this word', 'the word', 'last word', 'that', 'it'],
+            readerAddPage: ['add another page', 'add a page', 'add page', 'another page', 'next page', 'new page'],
+            filler: ['please', 'can you', 'could you', 'would you', 'hey', 'sightmate', 'the', 'a', 'my', 'now', 'i want to', "i'd like to", 'for me', 'this', 'it', 'mode'],
+            slower: ['speak slower', 'talk slower', 'read slower', 'slower please', 'slow down'],
+            faster: ['speak faster', 'talk faster', 'read faster', 'faster please', 'speed up'],
+            normalSpeed: ['normal speed'],
+            differentVoice: ['different voice', 'change voice', 'change your voice', 'change the voice', 'another voice', 'other voice'],
+            defaultVoice: ['normal voice', 'usual voice', 'default voice'],
+            lessOften: ['less often', 'talk less', 'quieter companion'],
+            moreOften: ['more often', 'talk more'],
+            waitLonger: ['wait longer', 'more time', 'cut me off'],
+            waitLess: ["don't wait so long", 'wait less'],
+            moreSensitive: ['more sensitive'],
+            lessSensitive: ['less sensitive'],
+            pathClearLess: ['less path clear', 'stop saying path clear', "don't say path clear", 'fewer path clear', 'path clear less'],
+            pathClearMore: ['more path clear', 'path clear more'],
+            languageSwitch: ['language', 'speak', 'switch to', 'talk in']
+        }
+    },
+    'es-ES': {
+        code: 'es-ES',
+        language: 'Spanish',
+        names: ['spanish', 'español', 'espanol', 'espagnol', 'spanisch', 'स्पेनिश'],
+        preferredVoices: ['Google español', 'Monica', 'Mónica', 'Microsoft Helena', 'Paulina'],
+        distressHigh: ['ayuda', 'auxilio', 'socorro', 'emergencia', 'llama al 112', 'no no no'],
+        distressMedium: ['me duele', 'dolor', 'me caí', 'me he caído', 'me caigo', 'basta'],
+        safeReplies: ['bien', 'vale', 'sí', 'seguro', 'ok'],
+        dangerReplies: ['ayuda', 'duele', 'dolor', 'llama', 'llamen', 'herido', 'herida'],
+        yesReplies: ['sí', 'si', 'correcto', 'vale', 'claro', 'exacto'],
+        noReplies: ['no', 'nada', 'mal', 'incorrecto'],
+        leftWords: ['izquierda'],
+        rightWords: ['derecha'],
+        switchedConfirmation: "De acuerdo, ahora hablaré en español.",
+        phrases: {
+            areYouOkay: "Parece que algo va mal. ¿Estás bien?",
+            askAgain: "No te he oído. Si estás bien, di 'estoy bien'.",
+            gladYouAreSafe: "Me alegro de que estés bien. Continuamos.",
+            companion: [
+                "Estoy aquí caminando contigo.",
+                "Lo estás haciendo muy bien, con confianza.",
+                "Estoy atento por ti.",
+                "Todo se ve bien, sigue así.",
+                "Estoy aquí, avísame si necesitas algo.",
+                "Despacio y seguro.",
+                "Lo estás haciendo de maravilla.",
+                "El camino parece despejado."
+            ],
+            pathClear: "Camino despejado.",
+            cleared: (names) => `${names.join(' y ')}: ya no está en el camino.`,
+            coverageSlowed: "La detección de obstáculos va más lenta. Ten mucho cuidado.",
+            coverageRestored: "La detección de obstáculos vuelve a ir con normalidad.",
+            noDocument: "No hay ningún documento abierto. Di lee esto para empezar.",
+            paused: "En pausa. Di sigue cuando quieras.",
+            whichWord: "¿Qué palabra? Di deletrea y la palabra.",
+            framePage: "Sostén el teléfono sobre la página. Haré la foto cuando se vea entera.",
+            frameNextPage: "Siguiente página. Sostén el teléfono sobre ella.",
+            pageNumber: (page) => `Página ${page}.`,
+            lastParagraph: "Es el último párrafo.",
+            endOfDocument: "Es el final del documento.",
+            endOfDocumentHint: "Es el final del documento. Di desde el principio para volver a oírlo.",
+            endOfPage: (pages) => `Fin de ${pages > 1 ? `la página ${pages}` : 'la página'}. Di otra página para seguir.`,
+            welcome: "SightMate listo. Pulsa para hablar.",
+            didntHear: "No te he oído.",
+            didntHearTryAgain: "No te he oído, inténtalo otra vez.",
+            okay: "Vale.",
+            cameraError: "Error de la cámara.",
+            requestError: "No he podido procesar la petición.",
+            connectionError: "Error de conexión.",
+            overloaded: "Ahora mismo estoy un poco saturado. Inténtalo de nuevo en un momento.",
+            microphoneDenied: "No tengo acceso al micrófono.",
+            cameraOpening: "Abriendo la cámara...",
+            cameraReady: "Cámara lista.",
+            cameraFailed: "Error de cámara. Reinicia la aplicación.",
+            cameraPermission: "Error de cámara: revisa los permisos.",
+            cameraLoading: "La cámara se está cargando...",
+            capturing: "Tomando la foto...",
+            imageBlack: "La imagen parece negra. Lo intento de nuevo...",
+            imageStillDark: "La imagen sigue demasiado oscura. Asegúrate de que nada tape la cámara.",
+            imageCaptured: "Foto tomada. Procesando...",
+            locating: "Buscando tu ubicación...",
+            noGpsCheckingVisually: "No hay señal GPS. Me fijo en lo que se ve.",
+            checking: "Comprobando...",
+            couldntSee: "No he podido ver bien.",
+            qualityIssues: {
+                too_dark: "Está demasiado oscuro. Enciende una luz o ve a un sitio con más luz.",
+                too_bright: "Hay demasiado reflejo. Apártate un poco de la luz.",
+                blurry: "Quédate quieto.",
+                covered: "Algo está tapando la cámara.",
+                tilted_left: "Endereza el teléfono, está inclinado a la izquierda.",
+                tilted_right: "Endereza el teléfono, está inclinado a la derecha.",
+                pointing_down: "Inclina el teléfono hacia arriba.",
+                pointing_up: "Inclina el teléfono hacia abajo.",
+                moving: "Quédate quieto."
+            },
+            tryingAgain: "Lo intento otra vez...",
+            noContactsToAlert: "No tengo ningún contacto de emergencia, así que no puedo avisar a nadie. Pide ayuda, por favor.",
+            noAlertChannel: "En este dispositivo no hay ningún canal de alerta configurado, así que no puedo avisar a tus contactos. Pide ayuda, por favor.",
+            alertingContacts: "Estoy avisando a tus contactos de emergencia y enviando tu ubicación.",
+            alerting: (name) => `Avisando a ${name}.`,
+            unreachable: (name) => `No he podido contactar con ${name}. Pruebo con el siguiente contacto.`,
+            alertReceived: (name) => `${name} ha recibido tu alerta. La ayuda está en camino.`,
+            nobodyResponded: "Todavía no ha respondido nadie. Pide ayuda si puedes.",
+            checkCancelled: "Comprobación de emergencia cancelada.",
+            emergencyReset: "Modo de emergencia desactivado. Aviso a tus contactos de que estás bien.",
+            whoToAdd: "¿A quién añado? Di, por ejemplo, añade contacto de emergencia Sam.",
+            askPhone: (name) => `¿Cuál es el número de teléfono de ${name}?`,
+            noPhoneHeard: (name) => `No he entendido ningún número, así que no he añadido a ${name}.`,
+            confirmContact: (name, phone) => `${name}, ${phone}. ¿Es correcto?`,
+            contactNotAdded: (name) => `Vale, no he añadido a ${name}.`,
+            contactSaved: (name, replaced) => `${replaced ? 'He actualizado' : 'He añadido'} a ${name} como contacto de emergencia.`,
+            smsNotConfigured: "Las alertas por SMS aún no están configuradas en este dispositivo, así que no podré avisarle hasta que se configure una pasarela SMS.",
+            noContacts: "Todavía no tienes contactos de emergencia. Di añade contacto de emergencia y su nombre para añadir uno.",
+            contacts: (names) => names.length === 1
+                ? `Tu contacto de emergencia es ${names[0]}.`
+                : `Tus contactos de emergencia, en el orden en que los aviso, son ${listWith('y')(names)}.`,
+            whichContact: "¿Qué contacto quito?",
+            contactRemoved: (name) => `He quitado a ${name} de tus contactos de emergencia.`,
+            noSuchContact: (name) => `No tengo ningún contacto de emergencia llamado ${name}.`,
+            whichPlaceName: "¿Cómo llamo a este lugar? Di, por ejemplo, guarda este lugar como casa.",
+            gettingExactLocation: "Obteniendo tu ubicación exacta.",
+            noGpsFix: "No he podido obtener la posición GPS, así que no he guardado este lugar. Inténtalo de nuevo al aire libre.",
+            placeSaved: (label, replaced) => `${replaced ? 'He actualizado' : 'He guardado'} este lugar como ${label}.`,
+            roughFix: (meters) => `El GPS solo tenía una precisión de unos ${meters} metros, así que quizá quieras guardarlo otra vez más tarde.`,
+            noPlaces: "Todavía no tienes lugares guardados. Di guarda este lugar como casa para añadir uno.",
+            places: (labels) => labels.length === 1
+                ? `Tienes un lugar guardado: ${labels[0]}.`
+                : `Tienes ${labels.length} lugares guardados: ${listWith('y')(labels)}.`,
+            whichPlaceToDelete: "¿Qué lugar borro?",
+            placeDeleted: (label) => `He borrado ${label}.`,
+            noSuchPlace: (label) => `No tengo ningún lugar llamado ${label}.`,
+            whereTo: "¿Adónde quieres ir?",
+            calculatingRoute: (destination) => `Calculando la ruta a pie hasta ${destination}.`,
+            routeFound: (totalTime) => totalTime ? `Ruta encontrada. ${totalTime}.` : "Ruta encontrada.",
+            startingNavigation: "Empezamos la navegación.",
+            approximateRoute: (directions) => `Estas indicaciones son aproximadas, así que te las digo todas. ${directions}`,
+            arrivalAnnounced: "Te avisaré cuando llegues.",
+            sayStopOnArrival: "Di detén la navegación cuando llegues.",
+            locationNotFound: "No he encontrado ese lugar.",
+            noGps: "El GPS no está disponible, así que no puedo guiarte paso a paso.",
+            needLocationAccess: "Necesito acceso a tu ubicación para guiarte.",
+            gpsLost: "Se ha perdido la señal GPS. Sigo intentándolo.",
+            backOnRoute: "Vuelves a estar en la ruta.",
+            offRoute: "Parece que te has salido de la ruta. Busco una nueva.",
+            newRoute: "He encontrado una ruta nueva.",
+            noNewRoute: "Todavía no he encontrado una ruta nueva. Quédate en un sitio seguro y lo vuelvo a intentar.",
+            navigationStopped: "Navegación detenida.",
+            arrived: "Has llegado.",
+            approaching: (distance, instruction) => `En ${distance}, ${instruction}.`,
+            continueFor: (distance, instruction) => `Sigue ${distance} y luego ${instruction}.`,
+            meters: (meters) => `${meters} metros`,
+            kilometers: (kilometers) => `${decimalComma(kilometers)} kilómetros`,
+            aboutMinutes: (minutes) => `Unos ${minutes} minuto${minutes === 1 ? '' : 's'}`,
+            routeDepart: (street) => street ? `Empieza a caminar por ${street}` : "Empieza a caminar",
+            routeArrive: (destination) => `Llegas a ${destination}`,
+            routeRoundabout: (street) => street ? `Rodea la rotonda hasta ${street}` : "Rodea la rotonda",
+            routeTurnAround: "Da la vuelta",
+            routeStraight: (street) => street ? `Sigue recto por ${street}` : "Sigue recto",
+            routeTurn: (side, street) => street ? `Gira ${side} hacia ${street}` : `Gira ${side}`,
+            turnSides: { left: 'a la izquierda', 'slight left': 'ligeramente a la izquierda', 'sharp left': 'bruscamente a la izquierda', right: 'a la derecha', 'slight right': 'ligeramente a la derecha', 'sharp right': 'bruscamente a la derecha' },
+            walkingOn: "Modo caminar activado. Estoy contigo.",
+            walkingOff: "Modo caminar desactivado.",
+            walkingRestarted: "Modo caminar activo.",
+            companionOn: "Ahora estoy aquí contigo. Vamos juntos.",
+            companionOff: "Modo silencioso activado.",
+            handsFreeOn: (wakePhrase) => `Manos libres activado. Di "${wakePhrase}" cuando me necesites.`,
+            handsFreeOff: "Manos libres desactivado. Pulsa el botón para hablar conmigo.",
+            hapticsOnlyOn: "Solo vibraciones. Los obstáculos, los giros y las señales de los pasos de peatones vibrarán en vez de hablar. Di enséñame las vibraciones para aprenderlas.",
+            hapticsOnlyOff: "Vuelvo a decir los avisos en voz alta.",
+            whichSetting: "¿Qué ajuste quieres cambiar? Por ejemplo, di habla más despacio.",
+            languageUnsupported: "Lo siento, todavía no sé hablar ese idioma.",
+            whatWakePhrase: "¿Cuál quieres que sea la nueva palabra de activación? Di, por ejemplo, cambia la palabra de activación a hola amigo.",
+            wakePhraseSet: (wakePhrase, handsFree) => handsFree
+                ? `Vale, di "${wakePhrase}" para despertarme.`
+                : `Vale, la palabra de activación es "${wakePhrase}". Di activa manos libres para usarla.`,
+            fastest: "Ya hablo todo lo rápido que puedo.",
+            slowest: "Ya hablo todo lo despacio que puedo.",
+            normalSpeed: "Vale, vuelvo a mi velocidad normal.",
+            faster: "Vale, hablaré más rápido.",
+            slower: "Vale, hablaré más despacio.",
+            rarest: "Ya hablo lo menos posible.",
+            mostOften: "Ya hablo todo lo a menudo que puedo.",
+            checkInEvery: (seconds) => `Vale, te hablaré cada ${seconds} segundos más o menos.`,
+            silenceLimit: "Ese ya es el límite de lo que espero.",
+            silenceWait: (seconds) => `Vale, esperaré ${decimalComma(seconds)} segundos de silencio antes de dejar de escuchar.`,
+            noiseLimit: "La sensibilidad al ruido ya está en su límite.",
+            noiseReset: "Sensibilidad al ruido restablecida.",
+            quieterNoises: "Vale, reaccionaré a ruidos más suaves.",
+            loudNoisesOnly: "Vale, ahora solo me alertarán los ruidos muy fuertes.",
+            pathClearAlreadyOff: "Ya he dejado de decir camino despejado.",
+            pathClearMostOften: "Es lo más a menudo que diré camino despejado.",
+            pathClearOff: "Vale, ya no diré camino despejado.",
+            pathClearMore: "Vale, confirmaré más a menudo que el camino está despejado.",
+            pathClearLess: "Vale, diré camino despejado con menos frecuencia.",
+            usualVoice: "Vale, vuelvo a mi voz habitual.",
+            noOtherVoices: "Lo siento, no hay otras voces disponibles en este dispositivo.",
+            voiceChanged: (name) => `Vale, esta es ${name}. Vuelve a decir usa otra voz para oír otra.`,
+            whatToFind: "¿Qué busco? Di, por ejemplo, busca mis llaves.",
+            finishCrossingFirst: "Primero terminemos de cruzar. Di ya crucé cuando estés al otro lado.",
+            searchTarget: (target) => target.replace(/^mis\s/i, 'tus ').replace(/^mi\s/i, 'tu '),
+            lookingFor: (name, walkingPaused) => `Buscando ${name}. Mueve la cámara despacio.${walkingPaused ? ' Los avisos de caminar están en pausa mientras busco.' : ''}`,
+            stoppedLooking: "Vale, he dejado de buscar.",
+            searchGaveUp: (name) => `No he encontrado ${name}. Puede que esté fuera de la vista o donde la cámara no llega.`,
+            searchLost: (name, wasAt) => `He perdido ${name} de vista. ${wasAt === 'center' ? 'Quédate quieto un momento' : `Vuelve ${wasAt === 'left' ? 'a la izquierda' : 'a la derecha'}`}.`,
+            searchStill: (name) => `Sigo buscando ${name}. Gira la cámara despacio.`,
+            searchFound: (name, vertical) => `He encontrado ${name}. Está justo delante${vertical}, a la distancia de un brazo.`,
+            searchSee: (name, where) => `Veo ${name}, ${where}.`,
+            searchGuide: (where, closer, far) => `${closer ? `Te acercas, ${where}` : capitalize(where)}${far ? ', todavía a unos pasos' : ''}.`,
+            searchHorizontal: { far_left: 'gira a tu izquierda', left: 'un poco a la izquierda', center: 'justo delante', right: 'un poco a la derecha', far_right: 'gira a tu derecha' },
+            searchVertical: { up: ', un poco más arriba', level: '', down: ', un poco más abajo' },
+            crossingOn: "Modo cruce. Apunta el teléfono hacia el otro lado de la calle y te diré cuándo cambia el semáforo.",
+            crossingOff: "Modo cruce desactivado.",
+            crossingTimedOut: "Salgo del modo cruce.",
+            vehicleApproaching: (side) => `¡Se acerca un vehículo${{ left: ' por la izquierda', right: ' por la derecha', center: ' de frente', unknown: '' }[side]}!`,
+            signalWalk: "El semáforo está en VERDE. Puedes cruzar.",
+            signalDontWalk: "El semáforo está en ROJO. Espera aquí.",
+            signalCountdown: (seconds) => seconds !== null ? `El semáforo está en cuenta atrás, quedan ${seconds} segundos.` : "El semáforo está en cuenta atrás.",
+            secondsLeft: (seconds) => `Quedan ${seconds} segundos.`,
+            backOnCrossing: "Vuelves a estar en el paso de peatones.",
+            driftingLeft: "Te desvías a la izquierda. Ve a la derecha.",
+            driftingRight: "Te desvías a la derecha. Ve a la izquierda.",
+            framingNoPage: "Todavía no veo ninguna página. Sostén el teléfono plano, a un antebrazo de distancia.",
+            framingTooClose: "Aleja el teléfono.",
+            framingCutOff: (edges) => `La página está cortada por ${edges.map(edge => ({ top: 'arriba', bottom: 'abajo', left: 'la izquierda', right: 'la derecha' })[edge]).join(' y ')}. Mueve el teléfono ${edges.map(edge => ({ top: 'hacia arriba', bottom: 'hacia abajo', left: 'hacia la izquierda', right: 'hacia la derecha' })[edge]).join(' y ')}.`,
+            framingCloser: (offset) => offset === 'centered' ? "Acerca el teléfono." : `Mueve el teléfono ${{ left: 'a la izquierda', right: 'a la derecha', up: 'hacia arriba', down: 'hacia abajo' }[offset]} y acércalo un poco.`,
+            framingShift: (offset) => `Mueve el teléfono un poco ${{ centered: '', left: 'a la izquierda', right: 'a la derecha', up: 'hacia arriba', down: 'hacia abajo' }[offset]}.`,
+            framingHoldStill: "Se ve la página entera. Quédate quieto.",
+            framingTimeout: "Leeré lo que pueda ver.",
+            framingReady: "Listo.",
+            vibrationsIntro: "Estas son las vibraciones. Cada una suena después de su nombre.",
+            vibrationsOutro: "Eso es todo. Di enséñame las vibraciones para oírlas otra vez.",
+            vibrations: {
+                hazardLeft: "Obstáculo a la izquierda: un pulso.",
+                hazardAhead: "Obstáculo delante: dos pulsos.",
+                hazardRight: "Obstáculo a la derecha: tres pulsos.",
+                hazardFar: "Un obstáculo lejano va espaciado.",
+                hazardNear: "Un obstáculo cercano va rápido.",
+                hazardSerious: "Un obstáculo grave tiene pulsos largos, dos veces.",
+                turnLeft: "Gira o muévete a la izquierda: largo y luego corto.",
+                turnRight: "Gira o muévete a la derecha: corto y luego largo.",
+                arrived: "Has llegado.",
+                walk: "El semáforo dice que cruces.",
+                dontWalk: "El semáforo dice que no cruces.",
+                countdown: "Semáforo en cuenta atrás.",
+                vehicle: "Se acerca un vehículo.",
+                emergencyCheck: "Comprobación de emergencia: ¿estás bien?",
+                emergencyAlerting: "Avisando a tus contactos de emergencia."
+            },
+            replayFinished: (matches) => matches ? "Reproducción terminada. Los avisos de obstáculos coinciden con la grabación." : "Reproducción terminada. Los avisos de obstáculos no coinciden con la grabación."
+        },
+        rules: {
+            safety: ['seguro', 'peligro', 'cuidado'],
+            stop: ['detener', 'detén', 'para', 'parar', 'cancela', 'cancelar', 'salir', 'termina'],
+            negations: ['no', 'nunca'],
+            notStop: ['por dónde salir', 'por donde salir', 'cómo salir', 'como salir', 'para salir'],
+            navigationWords: ['navegación', 'navegacion', 'ruta'],
+            walkingWords: ['caminar', 'paseo', 'modo'],
+            start: ['empieza', 'empezar', 'inicia', 'iniciar', 'activa', 'comienza'],
+            navigate: ['navega', 'llévame', 'llevame', 'ir a', 'cómo llego', 'como llego'],
+            destinationPrefixes: ['llévame a', 'llevame a', 'navega a', 'ir a', 'cómo llego a', 'como llego a'],
+            savePlacePrefixes: ['guarda este lugar como', 'guarda esta ubicación como', 'recuerda este lugar como'],
+            deletePlacePrefixes: ['borra el lugar', 'elimina el lugar', 'olvida el lugar'],
+            listPlaces: ['mis lugares', 'lugares guardados', 'qué lugares'],
+            addContactPrefixes: ['añade contacto de emergencia', 'agrega contacto de emergencia', 'nuevo contacto de emergencia', 'añade el contacto', 'añade contacto', 'agrega contacto'],
+            removeContactPrefixes: ['elimina contacto de emergencia', 'borra contacto de emergencia', 'elimina el contacto', 'borra el contacto', 'elimina contacto', 'borra contacto'],
+            listContacts: ['contactos de emergencia', 'mis contactos', 'a quién avisarás'],
+            findObjectPrefixes: ['ayúdame a encontrar', 'dónde están mis', 'donde estan mis', 'dónde está mi', 'donde esta mi', 'encuentra', 'busca'],
+            foundIt: ['lo encontré', 'lo encontre', 'ya lo tengo', 'deja de buscar'],
+            crossing: ['modo cruce', 'cruzar la calle', 'cruzar', 'ayúdame a cruzar', 'paso de peatones'],
+            crossed: ['ya crucé', 'ya cruce', 'he cruzado', 'estoy al otro lado'],
+            whereAmI: ['dónde estoy', 'donde estoy', 'ubicación', 'ubicacion', 'dirección'],
+            read: ['lee', 'leer', 'qué dice', 'que dice', 'texto', 'documento'],
+            companion: ['compañero', 'compañía', 'acompáñame', 'acompañame'],
+            off: ['apaga', 'desactiva', 'detén', 'para'],
+            newPicture: ['nueva foto', 'otra foto', 'nueva imagen', 'otra imagen', 'mira otra vez'],
+            describe: ['describe', 'qué ves', 'que ves', 'qué hay delante', 'que hay delante', 'qué hay alrededor', 'qué es esto', 'que es esto', 'escena', 'alrededor'],
+            detailed: ['con detalle', 'detallado', 'detalladamente', 'todo'],
+            brief: ['breve', 'rápido', 'rapido', 'resumen'],
+            handsFree: ['manos libres', 'palabra de activación'],
+            haptics: ['solo vibración', 'solo vibracion', 'vibración', 'vibracion', 'vibraciones', 'vibrar', 'modo silencioso'],
+            hapticsTutorial: ['enséñame las vibraciones', 'enseñame las vibraciones', 'tutorial de vibraciones', 'qué significan las vibraciones', 'que significan las vibraciones'],
+            wakePhrasePrefixes: ['palabra de activación a', 'frase de activación a'],
+            readerPause: ['pausa', 'espera', 'deja de leer'],
+            readerResume: ['continúa', 'continua', 'sigue', 'sigue leyendo', 'reanuda'],
+            readerBack: ['atrás', 'vuelve atrás', 'párrafo anterior', 'parrafo anterior'],
+            readerForward: ['salta', 'siguiente párrafo', 'párrafo siguiente'],
+            readerRepeat: ['repite', 'repítelo', 'léelo otra vez'],
+            readerRestart: ['desde el principio', 'desde el inicio', 'empieza de nuevo'],
+            readerSpell: ['deletrea'],
+            readerThatWord: ['esa palabra', 'esta palabra', 'la palabra', 'eso'],
+            readerAddPage: ['otra página', 'añade una página', 'agrega una página', 'siguiente página', 'página siguiente'],
+            filler: ['por favor', 'puedes', 'podrías', 'oye', 'sightmate', 'el', 'la', 'me', 'ahora', 'quiero'],
+            slower: ['más despacio', 'mas despacio', 'más lento', 'mas lento'],
+            faster: ['más rápido', 'mas rapido', 'más deprisa'],
+            normalSpeed: ['velocidad normal'],
+            differentVoice: ['otra voz', 'cambia la voz', 'voz diferente', 'voz distinta'],
+            defaultVoice: ['voz normal', 'voz de siempre'],
+            lessOften: ['menos a menudo', 'habla menos', 'con menos frecuencia'],
+            moreOften: ['más a menudo', 'habla más', 'con más frecuencia'],
+            waitLonger: ['espera más', 'más tiempo', 'no me cortes'],
+            waitLess: ['espera menos'],
+            moreSensitive: ['más sensible'],
+            lessSensitive: ['menos sensible'],
+            pathClearLess: ['no digas camino libre', 'menos camino libre'],
+            pathClearMore: ['más camino libre'],
+            languageSwitch: ['idioma', 'habla en', 'cambia a', 'lengua']
+        }
+    },
+    'fr-FR': {
+        code: 'fr-FR',
+        language: 'French',
+        names: ['french', 'francés', 'frances', 'français', 'francais', 'französisch', 'फ्रेंच'],
+        preferredVoices: ['Google français', 'Thomas', 'Amélie', 'Microsoft Julie', 'Audrey'],
+        distressHigh: ["à l'aide", 'au secours', 'aidez-moi', 'urgence', 'appelle le 112', 'non non non'],
+        distressMedium: ['aïe', "j'ai mal", 'douleur', 'je suis tombé', 'je suis tombée', 'je tombe', 'arrête'],
+        safeReplies: ['ça va', 'bien', 'oui', "d'accord", 'ok'],
+        dangerReplies: ['aide', 'aidez', 'mal', 'douleur', 'appelle', 'appelez', 'blessé', 'blessée'],
+        yesReplies: ['oui', 'exact', 'correct', "d'accord", 'ok'],
+        noReplies: ['non', 'pas', 'ne', "n'est", 'faux'],
+        leftWords: ['gauche'],
+        rightWords: ['droite'],
+        switchedConfirmation: "D'accord, je parle français maintenant.",
+        phrases: {
+            areYouOkay: "On dirait que quelque chose ne va pas. Est-ce que ça va ?",
+            askAgain: "Je ne vous ai pas entendu. Dites 'ça va' si vous êtes en sécurité.",
+            gladYouAreSafe: "Je suis content que vous alliez bien. On reprend.",
+            companion: [
+                "Je marche juste à côté de vous.",
+                "Vous vous débrouillez très bien, gardez confiance.",
+                "Je veille sur vous.",
+                "Tout va bien, continuez.",
+                "Je suis là, dites-moi si vous avez besoin de quelque chose.",
+                "Tranquillement, c'est parfait.",
+                "Vous vous en sortez à merveille.",
+                "Le chemin devant semble dégagé."
+            ],
+            pathClear: "Chemin dégagé.",
+            cleared: (names) => `${names.join(' et ')} : plus sur le chemin.`,
+            coverageSlowed: "La détection des obstacles est ralentie. Soyez très prudent.",
+            coverageRestored: "La détection des obstacles est revenue à la normale.",
+            noDocument: "Aucun document n'est ouvert. Dites lis ceci pour commencer.",
+            paused: "En pause. Dites continue quand vous êtes prêt.",
+            whichWord: "Quel mot ? Dites épelle, puis le mot.",
+            framePage: "Tenez le téléphone au-dessus de la page. Je prendrai la photo quand elle sera entièrement visible.",
+            frameNextPage: "Page suivante. Tenez le téléphone au-dessus.",
+            pageNumber: (page) => `Page ${page}.`,
+            lastParagraph: "C'est le dernier paragraphe.",
+            endOfDocument: "C'est la fin du document.",
+            endOfDocumentHint: "C'est la fin du document. Dites depuis le début pour le réécouter.",
+            endOfPage: (pages) => `Fin de ${pages > 1 ? `la page ${pages}` : 'la page'}. Dites autre page pour continuer.`,
+            welcome: "SightMate est prêt. Appuyez pour parler.",
+            didntHear: "Je ne vous ai pas entendu.",
+            didntHearTryAgain: "Je ne vous ai pas entendu, veuillez réessayer.",
+            okay: "D'accord.",
+            cameraError: "Erreur de caméra.",
+            requestError: "Je n'ai pas pu traiter la demande.",
+            connectionError: "Erreur de connexion.",
+            overloaded: "Je suis un peu débordé en ce moment. Réessayez dans un instant.",
+            microphoneDenied: "L'accès au micro est refusé.",
+            cameraOpening: "Ouverture de la caméra...",
+            cameraReady: "Caméra prête.",
+            cameraFailed: "Erreur de caméra. Veuillez redémarrer l'application.",
+            cameraPermission: "Erreur de caméra : vérifiez les autorisations.",
+            cameraLoading: "La caméra se charge...",
+            capturing: "Prise de la photo...",
+            imageBlack: "L'image semble noire. J'essaie encore...",
+            imageStillDark: "L'image est encore trop sombre. Vérifiez que rien ne cache la caméra.",
+            imageCaptured: "Photo prise. Traitement en cours...",
+            locating: "Je cherche votre position...",
+            noGpsCheckingVisually: "Pas de signal GPS. Je regarde les indices visuels.",
+            checking: "Je vérifie...",
+            couldntSee: "Je n'ai pas bien vu.",
+            qualityIssues: {
+                too_dark: "Il fait trop sombre. Allumez une lumière ou allez dans un endroit plus éclairé.",
+                too_bright: "Il y a trop de reflets. Détournez-vous un peu de la lumière.",
+                blurry: "Ne bougez plus.",
+                covered: "Quelque chose cache la caméra.",
+                tilted_left: "Redressez le téléphone, il penche vers la gauche.",
+                tilted_right: "Redressez le téléphone, il penche vers la droite.",
+                pointing_down: "Inclinez le téléphone vers le haut.",
+                pointing_up: "Inclinez le téléphone vers le bas.",
+                moving: "Ne bougez plus."
+            },
+            tryingAgain: "J'essaie encore...",
+            noContactsToAlert: "Je n'ai aucun contact d'urgence, donc je ne peux prévenir personne. Appelez à l'aide, s'il vous plaît.",
+            noAlertChannel: "Aucun canal d'alerte n'est configuré sur cet appareil, donc je ne peux pas prévenir vos contacts. Appelez à l'aide, s'il vous plaît.",
+            alertingContacts: "Je préviens vos contacts d'urgence et j'envoie votre position.",
+            alerting: (name) => `Je préviens ${name}.`,
+            unreachable: (name) => `Je n'ai pas pu joindre ${name}. J'essaie le contact suivant.`,
+            alertReceived: (name) => `${name} a reçu votre alerte. Les secours arrivent.`,
+            nobodyResponded: "Personne n'a encore répondu. Appelez à l'aide si vous le pouvez.",
+            checkCancelled: "Vérification d'urgence annulée.",
+            emergencyReset: "Mode d'urgence désactivé. Je préviens vos contacts que vous allez bien.",
+            whoToAdd: "Qui dois-je ajouter ? Dites par exemple : ajoute un contact d'urgence Sam.",
+            askPhone: (name) => `Quel est le numéro de téléphone de ${name} ?`,
+            noPhoneHeard: (name) => `Je n'ai pas compris de numéro, donc je n'ai pas ajouté ${name}.`,
+            confirmContact: (name, phone) => `${name}, ${phone}. C'est bien ça ?`,
+            contactNotAdded: (name) => `D'accord, je n'ai pas ajouté ${name}.`,
+            contactSaved: (name, replaced) => `${name} ${replaced ? 'a été mis à jour' : 'a été ajouté'} comme contact d'urgence.`,
+            smsNotConfigured: "Les alertes par SMS ne sont pas encore configurées sur cet appareil, donc je ne pourrai pas le joindre tant qu'une passerelle SMS n'est pas configurée.",
+            noContacts: "Vous n'avez encore aucun contact d'urgence. Dites ajoute un contact d'urgence suivi de son nom pour en ajouter un.",
+            contacts: (names) => names.length === 1
+                ? `Votre contact d'urgence est ${names[0]}.`
+                : `Vos contacts d'urgence, dans l'ordre où je les préviens, sont ${listWith('et')(names)}.`,
+            whichContact: "Quel contact dois-je supprimer ?",
+            contactRemoved: (name) => `J'ai retiré ${name} de vos contacts d'urgence.`,
+            noSuchContact: (name) => `Je n'ai aucun contact d'urgence appelé ${name}.`,
+            whichPlaceName: "Comment dois-je appeler cet endroit ? Dites par exemple : enregistre cet endroit comme maison.",
+            gettingExactLocation: "Je cherche votre position exacte.",
+            noGpsFix: "Je n'ai pas pu obtenir de position GPS, donc je n'ai pas enregistré cet endroit. Réessayez à l'extérieur.",
+            placeSaved: (label, replaced) => `${replaced ? "J'ai mis à jour" : "J'ai enregistré"} cet endroit sous le nom ${label}.`,
+            roughFix: (meters) => `Le GPS n'était précis qu'à environ ${meters} mètres, vous voudrez peut-être l'enregistrer à nouveau plus tard.`,
+            noPlaces: "Vous n'avez encore aucun endroit enregistré. Dites enregistre cet endroit comme maison pour en ajouter un.",
+            places: (labels) => labels.length === 1
+                ? `Vous avez un endroit enregistré : ${labels[0]}.`
+                : `Vous avez ${labels.length} endroits enregistrés : ${listWith('et')(labels)}.`,
+            whichPlaceToDelete: "Quel endroit dois-je supprimer ?",
+            placeDeleted: (label) => `J'ai supprimé ${label}.`,
+            noSuchPlace: (label) => `Je n'ai aucun endroit appelé ${label}.`,
+            whereTo: "Où voulez-vous aller ?",
+            calculatingRoute: (destination) => `Je calcule l'itinéraire à pied vers ${destination}.`,
+            routeFound: (totalTime) => totalTime ? `Itinéraire trouvé. ${totalTime}.` : "Itinéraire trouvé.",
+            startingNavigation: "C'est parti.",
+            approximateRoute: (directions) => `Ces indications sont approximatives, alors je vous les donne toutes. ${directions}`,
+            arrivalAnnounced: "Je vous dirai quand vous serez arrivé.",
+            sayStopOnArrival: "Dites arrête la navigation une fois arrivé.",
+            locationNotFound: "Je n'ai pas trouvé cet endroit.",
+            noGps: "Le GPS n'est pas disponible, donc je ne peux pas vous guider étape par étape.",
+            needLocationAccess: "J'ai besoin d'accéder à votre position pour vous guider.",
+            gpsLost: "Signal GPS perdu. Je continue d'essayer.",
+            backOnRoute: "Vous êtes de nouveau sur l'itinéraire.",
+            offRoute: "Vous semblez avoir quitté l'itinéraire. Je cherche un nouvel itinéraire.",
+            newRoute: "Nouvel itinéraire trouvé.",
+            noNewRoute: "Je n'ai pas encore trouvé de nouvel itinéraire. Restez dans un endroit sûr, je réessaie.",
+            navigationStopped: "Navigation arrêtée.",
+            arrived: "Vous êtes arrivé.",
+            approaching: (distance, instruction) => `Dans ${distance}, ${instruction}.`,
+            continueFor: (distance, instruction) => `Continuez sur ${distance}, puis ${instruction}.`,
+            meters: (meters) => `${meters} mètres`,
+            kilometers: (kilometers) => `${decimalComma(kilometers)} kilomètres`,
+            aboutMinutes: (minutes) => `Environ ${minutes} minute${minutes === 1 ? '' : 's'}`,
+            routeDepart: (street) => street ? `Commencez à marcher sur ${street}` : "Commencez à marcher",
+            routeArrive: (destination) => `Vous arrivez à ${destination}`,
+            routeRoundabout: (street) => street ? `Prenez le rond-point vers ${street}` : "Prenez le rond-point",
+            routeTurnAround: "Faites demi-tour",
+            routeStraight: (street) => street ? `Continuez tout droit sur ${street}` : "Continuez tout droit",
+            routeTurn: (side, street) => street ? `Tournez ${side} sur ${street}` : `Tournez ${side}`,
+            turnSides: { left: 'à gauche', 'slight left': 'légèrement à gauche', 'sharp left': 'franchement à gauche', right: 'à droite', 'slight right': 'légèrement à droite', 'sharp right': 'franchement à droite' },
+            walkingOn: "Mode marche activé. Je suis avec vous.",
+            walkingOff: "Mode marche désactivé.",
+            walkingRestarted: "Mode marche actif.",
+            companionOn: "Je suis là avec vous. Allons-y ensemble.",
+            companionOff: "Mode silencieux activé.",
+            handsFreeOn: (wakePhrase) => `Mains libres activé. Dites « ${wakePhrase} » quand vous avez besoin de moi.`,
+            handsFreeOff: "Mains libres désactivé. Appuyez sur le bouton pour me parler.",
+            hapticsOnlyOn: "Vibrations seules. Les obstacles, les virages et les feux piétons vibreront au lieu de parler. Dites apprends moi les vibrations pour les découvrir.",
+            hapticsOnlyOff: "Les alertes parlées sont de retour.",
+            whichSetting: "Quel réglage voulez-vous changer ? Dites par exemple : parle plus lentement.",
+            languageUnsupported: "Désolé, je ne parle pas encore cette langue.",
+            whatWakePhrase: "Quel doit être le nouveau mot d'activation ? Dites par exemple : change le mot d'activation en salut copain.",
+            wakePhraseSet: (wakePhrase, handsFree) => handsFree
+                ? `D'accord, dites « ${wakePhrase} » pour me réveiller.`
+                : `D'accord, le mot d'activation est « ${wakePhrase} ». Dites active les mains libres pour l'utiliser.`,
+            fastest: "Je parle déjà aussi vite que possible.",
+            slowest: "Je parle déjà aussi lentement que possible.",
+            normalSpeed: "D'accord, je reviens à ma vitesse normale.",
+            faster: "D'accord, je vais parler plus vite.",
+            slower: "D'accord, je vais parler plus lentement.",
+            rarest: "Je parle déjà le moins souvent possible.",
+            mostOften: "Je parle déjà le plus souvent possible.",
+            checkInEvery: (seconds) => `D'accord, je vous parlerai environ toutes les ${seconds} secondes.`,
+            silenceLimit: "C'est déjà la limite de mon temps d'attente.",
+            silenceWait: (seconds) => `D'accord, j'attendrai ${decimalComma(seconds)} secondes de silence avant d'arrêter d'écouter.`,
+            noiseLimit: "La sensibilité au bruit est déjà à sa limite.",
+            noiseReset: "Sensibilité au bruit réinitialisée.",
+            quieterNoises: "D'accord, je réagirai à des bruits plus faibles.",
+            loudNoisesOnly: "D'accord, seuls les bruits très forts m'alerteront maintenant.",
+            pathClearAlreadyOff: "J'ai déjà arrêté de dire chemin libre.",
+            pathClearMostOften: "C'est le plus souvent que je dirai chemin libre.",
+            pathClearOff: "D'accord, je ne dirai plus chemin libre.",
+            pathClearMore: "D'accord, je confirmerai plus souvent que le chemin est libre.",
+            pathClearLess: "D'accord, je dirai chemin libre moins souvent.",
+            usualVoice: "D'accord, je reprends ma voix habituelle.",
+            noOtherVoices: "Désolé, il n'y a pas d'autre voix sur cet appareil.",
+            voiceChanged: (name) => `D'accord, voici ${name}. Redites change de voix pour en entendre une autre.`,
+            whatToFind: "Que dois-je chercher ? Dites par exemple : cherche mes clés.",
+            finishCrossingFirst: "Finissons d'abord de traverser. Dites j'ai traversé une fois de l'autre côté.",
+            searchTarget: (target) => target.replace(/^mes\s/i, 'vos ').replace(/^(mon|ma)\s/i, 'votre '),
+            lookingFor: (name, walkingPaused) => `Je cherche ${name}. Bougez lentement la caméra.${walkingPaused ? ' Les alertes de marche sont en pause pendant la recherche.' : ''}`,
+            stoppedLooking: "D'accord, j'arrête de chercher.",
+            searchGaveUp: (name) => `Je n'ai pas trouvé ${name}. C'est peut-être hors du champ, ou là où la caméra ne voit pas.`,
+            searchLost: (name, wasAt) => `J'ai perdu ${name} de vue. ${wasAt === 'center' ? 'Ne bougez plus un instant' : `Revenez vers la ${wasAt === 'left' ? 'gauche' : 'droite'}`}.`,
+            searchStill: (name) => `Je cherche toujours ${name}. Tournez lentement la caméra.`,
+            searchFound: (name, vertical) => `J'ai trouvé ${name}. C'est juste devant vous${vertical}, à environ une longueur de bras.`,
+            searchSee: (name, where) => `Je vois ${name}, ${where}.`,
+            searchGuide: (where, closer, far) => `${closer ? `Vous vous rapprochez, ${where}` : capitalize(where)}${far ? ', encore à quelques pas' : ''}.`,
+            searchHorizontal: { far_left: 'tournez-vous vers la gauche', left: 'un peu à gauche', center: 'droit devant', right: 'un peu à droite', far_right: 'tournez-vous vers la droite' },
+            searchVertical: { up: ', un peu plus haut', level: '', down: ', un peu plus bas' },
+            crossingOn: "Mode traversée. Pointez le téléphone vers l'autre côté de la rue et je vous dirai quand le feu change.",
+            crossingOff: "Mode traversée désactivé.",
+            crossingTimedOut: "Je quitte le mode traversée.",
+            vehicleApproaching: (side) => `Un véhicule approche${{ left: ' par la gauche', right: ' par la droite', center: ' en face', unknown: '' }[side]} !`,
+            signalWalk: "Le feu piéton est VERT.",
+            signalDontWalk: "Le feu piéton est ROUGE. Attendez ici.",
+            signalCountdown: (seconds) => seconds !== null ? `Le feu est en décompte, il reste ${seconds} secondes.` : "Le feu est en décompte.",
+            secondsLeft: (seconds) => `Il reste ${seconds} secondes.`,
+            backOnCrossing: "Vous êtes de nouveau sur le passage.",
+            driftingLeft: "Vous déviez à gauche. Décalez-vous à droite.",
+            driftingRight: "Vous déviez à droite. Décalez-vous à gauche.",
+            framingNoPage: "Je ne vois pas encore de page. Tenez le téléphone à plat, à une longueur d'avant-bras au-dessus.",
+            framingTooClose: "Éloignez le téléphone.",
+            framingCutOff: (edges) => `La page est coupée ${edges.map(edge => ({ top: 'en haut', bottom: 'en bas', left: 'à gauche', right: 'à droite' })[edge]).join(' et ')}. Déplacez le téléphone ${edges.map(edge => ({ top: 'vers le haut', bottom: 'vers le bas', left: 'vers la gauche', right: 'vers la droite' })[edge]).join(' et ')}.`,
+            framingCloser: (offset) => offset === 'centered' ? "Rapprochez le téléphone." : `Déplacez le téléphone ${{ left: 'vers la gauche', right: 'vers la droite', up: 'vers le haut', down: 'vers le bas' }[offset]} et rapprochez-le un peu.`,
+            framingShift: (offset) => `Déplacez un peu le téléphone ${{ centered: '', left: 'vers la gauche', right: 'vers la droite', up: 'vers le haut', down: 'vers le bas' }[offset]}.`,
+            framingHoldStill: "Toute la page est visible. Ne bougez plus.",
+            framingTimeout: "Je vais lire ce que je vois.",
+            framingReady: "C'est bon.",
+            vibrationsIntro: "Voici les vibrations. Chacune est jouée après son nom.",
+            vibrationsOutro: "C'est tout. Dites apprends moi les vibrations pour les réentendre.",
+            vibrations: {
+                hazardLeft: "Obstacle à gauche : une impulsion.",
+                hazardAhead: "Obstacle devant : deux impulsions.",
+                hazardRight: "Obstacle à droite : trois impulsions.",
+                hazardFar: "Un obstacle lointain est espacé.",
+                hazardNear: "Un obstacle proche est rapide.",
+                hazardSerious: "Un obstacle grave a de longues impulsions, deux fois.",
+                turnLeft: "Tournez ou décalez-vous à gauche : longue, puis courte.",
+                turnRight: "Tournez ou décalez-vous à droite : courte, puis longue.",
+                arrived: "Vous êtes arrivé.",
+                walk: "Le feu piéton dit de traverser.",
+                dontWalk: "Le feu piéton dit d'attendre.",
+                countdown: "Le feu est en décompte.",
+                vehicle: "Un véhicule approche.",
+                emergencyCheck: "Vérification d'urgence : est-ce que ça va ?",
+                emergencyAlerting: "Je préviens vos contacts d'urgence."
+            },
+            replayFinished: (matches) => matches ? "Relecture terminée. Les alertes d'obstacles correspondent à l'enregistrement." : "Relecture terminée. Les alertes d'obstacles diffèrent de l'enregistrement."
+        },
+        rules: {
+            safety: ['sécurité', 'securite', 'danger', 'attention'],
+            stop: ['arrête', 'arrete', 'annule', 'quitte', 'stop'],
+            negations: ['ne', 'jamais'],
+            notStop: ['panneau stop', 'le stop', 'au stop'],
+            navigationWords: ['navigation', 'itinéraire', 'itineraire', 'trajet'],
+            walkingWords: ['marche', 'mode'],
+            start: ['démarre', 'demarre', 'commence', 'active', 'lance'],
+            navigate: ['emmène-moi', 'emmene-moi', 'emmène moi', 'aller à', 'navigue', 'guide-moi'],
+            destinationPrefixes: ['emmène-moi à', 'emmene-moi a', 'emmène moi à', 'aller à', 'navigue vers', 'guide-moi vers', 'ramène-moi à'],
+            savePlacePrefixes: ['enregistre cet endroit comme', 'enregistre ce lieu comme', 'retiens cet endroit comme'],
+            deletePlacePrefixes: ["supprime l'endroit", 'supprime le lieu', "oublie l'endroit"],
+            listPlaces: ['mes lieux', 'mes endroits', 'lieux enregistrés', 'endroits enregistrés'],
+            addContactPrefixes: ["ajoute un contact d'urgence", "ajoute le contact d'urgence", "nouveau contact d'urgence", 'ajoute un contact', 'ajoute le contact', 'ajoute contact'],
+            removeContactPrefixes: ["supprime le contact d'urgence", "retire le contact d'urgence", 'supprime le contact', 'retire le contact', 'supprime contact'],
+            listContacts: ["contacts d'urgence", 'mes contacts', 'qui vas tu prévenir'],
+            findObjectPrefixes: ['aide-moi à trouver', 'où sont mes', 'où est mon', 'où est ma', 'cherche', 'trouve'],
+            foundIt: ["je l'ai trouvé", "je l'ai", 'arrête de chercher'],
+            crossing: ['mode traversée', 'traverser la rue', 'traverser', 'aide-moi à traverser', 'passage piéton'],
+            crossed: ["j'ai traversé", "je suis de l'autre côté"],
+            whereAmI: ['où suis-je', 'ou suis-je', 'où je suis', 'position', 'adresse'],
+            read: ['lis', 'lire', "qu'est-ce que ça dit", 'texte', 'document'],
+            companion: ['compagnon', 'compagnie', 'accompagne-moi'],
+            off: ['désactive', 'desactive', 'arrête', 'éteins'],
+            newPicture: ['nouvelle photo', 'autre photo', 'nouvelle image', 'regarde encore'],
+            describe: ['décris', 'decris', 'décrire', 'que vois-tu', "qu'est-ce que tu vois", "qu'y a-t-il devant moi", "qu'est-ce que c'est", 'scène', 'autour de moi'],
+            detailed: ['en détail', 'détaillé', 'tout'],
+            brief: ['brièvement', 'rapidement', 'court'],
+            handsFree: ['mains libres', "mot d'activation"],
+            haptics: ['vibrations seulement', 'seulement vibrer', 'vibration', 'vibrations', 'vibrer', 'mode silencieux'],
+            hapticsTutorial: ['apprends moi les vibrations', 'tutoriel des vibrations', 'tutoriel vibrations', 'que veulent dire les vibrations'],
+            wakePhrasePrefixes: ["mot d'activation en", "phrase d'activation en"],
+            readerPause: ['pause', 'attends', 'arrête de lire'],
+            readerResume: ['continue', 'reprends', 'poursuis', 'continue à lire'],
+            readerBack: ['reviens en arrière', 'retour', 'paragraphe précédent'],
+            readerForward: ['saute', 'paragraphe suivant'],
+            readerRepeat: ['répète', 'repete', 'relis'],
+            readerRestart: ['depuis le début', 'du début', 'recommence'],
+            readerSpell: ['épelle', 'epelle'],
+            readerThatWord: ['ce mot', 'le mot', 'ça'],
+            readerAddPage: ['autre page', 'ajoute une page', 'page suivante'],
+            filler: ["s'il te plaît", "s'il vous plaît", 'peux-tu', 'pouvez-vous', 'dis', 'sightmate', 'le', 'la', 'moi', 'maintenant', 'je veux'],
+            slower: ['plus lentement', 'moins vite'],
+            faster: ['plus vite', 'plus rapidement'],
+            normalSpeed: ['vitesse normale'],
+            differentVoice: ['autre voix', 'change de voix', 'voix différente'],
+            defaultVoice: ['voix normale', 'voix habituelle'],
+            lessOften: ['moins souvent', 'parle moins'],
+            moreOften: ['plus souvent', 'parle plus'],
+            waitLonger: ['attends plus', 'plus de temps', 'ne me coupe pas'],
+            waitLess: ['attends moins'],
+            moreSensitive: ['plus sensible'],
+            lessSensitive: ['moins sensible'],
+            pathClearLess: ['ne dis plus chemin libre', 'moins chemin libre'],
+            pathClearMore: ['plus chemin libre'],
+            languageSwitch: ['langue', 'parle en', 'passe en']
+        }
+    },
+    'de-DE': {
+        code: 'de-DE',
+        language: 'German',
+        names: ['german', 'alemán', 'aleman', 'allemand', 'deutsch', 'जर्मन'],
+        preferredVoices: ['Google Deutsch', 'Anna', 'Microsoft Katja', 'Helena'],
+        distressHigh: ['hilfe', 'notfall', 'ruf 112', 'ruf den notarzt', 'nein nein nein'],
+        distressMedium: ['aua', 'autsch', 'schmerz', 'tut weh', 'hingefallen', 'gestürzt', 'hör auf'],
+        safeReplies: ['gut', 'okay', 'ok', 'ja', 'alles in ordnung', 'sicher'],
+        dangerReplies: ['hilfe', 'weh', 'schmerz', 'schmerzen', 'ruf', 'rufe', 'rufen', 'verletzt'],
+        yesReplies: ['ja', 'richtig', 'genau', 'stimmt', 'ok', 'okay'],
+        noReplies: ['nein', 'nicht', 'kein', 'keine', 'falsch'],
+        leftWords: ['links'],
+        rightWords: ['rechts'],
+        switchedConfirmation: "Okay, ich spreche jetzt Deutsch.",
+        phrases: {
+            areYouOkay: "Es klingt, als wäre etwas nicht in Ordnung. Geht es dir gut?",
+            askAgain: "Ich habe dich nicht gehört. Sag 'mir geht es gut', wenn du sicher bist.",
+            gladYouAreSafe: "Schön, dass es dir gut geht. Es geht weiter.",
+            companion: [
+                "Ich gehe direkt neben dir.",
+                "Du machst das super, bleib zuversichtlich.",
+                "Ich passe auf dich auf.",
+                "Alles sieht gut aus, geh weiter.",
+                "Ich bin da, sag Bescheid, wenn du etwas brauchst.",
+                "Schön gleichmäßig.",
+                "Du machst das wunderbar.",
+                "Der Weg vor dir scheint frei."
+            ],
+            pathClear: "Weg frei.",
+            cleared: (names) => `${names.join(' und ')}: nicht mehr im Weg.`,
+            coverageSlowed: "Die Hinderniserkennung ist verlangsamt. Sei besonders vorsichtig.",
+            coverageRestored: "Die Hinderniserkennung läuft wieder normal.",
+            noDocument: "Es ist kein Dokument geöffnet. Sag lies das, um anzufangen.",
+            paused: "Pause. Sag weiter, wenn du bereit bist.",
+            whichWord: "Welches Wort? Sag buchstabiere und dann das Wort.",
+            framePage: "Halte das Telefon über die Seite. Ich mache das Foto, sobald sie ganz zu sehen ist.",
+            frameNextPage: "Nächste Seite. Halte das Telefon darüber.",
+            pageNumber: (page) => `Seite ${page}.`,
+            lastParagraph: "Das ist der letzte Absatz.",
+            endOfDocument: "Das ist das Ende des Dokuments.",
+            endOfDocumentHint: "Das ist das Ende des Dokuments. Sag von vorne, um es noch einmal zu hören.",
+            endOfPage: (pages) => `Ende ${pages > 1 ? `von Seite ${pages}` : 'der Seite'}. Sag nächste Seite, um weiterzulesen.`,
+            welcome: "SightMate ist bereit. Tippe, um zu sprechen.",
+            didntHear: "Ich habe dich nicht gehört.",
+            didntHearTryAgain: "Ich habe dich nicht verstanden, bitte versuch es noch einmal.",
+            okay: "Okay.",
+            cameraError: "Kamerafehler.",
+            requestError: "Ich konnte die Anfrage nicht bearbeiten.",
+            connectionError: "Verbindungsfehler.",
+            overloaded: "Ich bin gerade etwas überlastet. Versuch es gleich noch einmal.",
+            microphoneDenied: "Der Zugriff auf das Mikrofon wurde verweigert.",
+            cameraOpening: "Kamera wird geöffnet...",
+            cameraReady: "Kamera bereit.",
+            cameraFailed: "Kamerafehler. Bitte starte die App neu.",
+            cameraPermission: "Kamerafehler: Bitte prüfe die Berechtigungen.",
+            cameraLoading: "Die Kamera lädt...",
+            capturing: "Foto wird aufgenommen...",
+            imageBlack: "Das Bild scheint schwarz zu sein. Ich versuche es noch einmal...",
+            imageStillDark: "Das Bild ist immer noch zu dunkel. Achte darauf, dass die Kamera nicht verdeckt ist.",
+            imageCaptured: "Foto aufgenommen. Wird verarbeitet...",
+            locating: "Ich suche deinen Standort...",
+            noGpsCheckingVisually: "Kein GPS-Signal. Ich achte auf sichtbare Hinweise.",
+            checking: "Ich prüfe...",
+            couldntSee: "Ich konnte nichts deutlich erkennen.",
+            qualityIssues: {
+                too_dark: "Es ist zu dunkel. Mach Licht an oder geh an einen helleren Ort.",
+                too_bright: "Es blendet zu stark. Dreh dich etwas vom Licht weg.",
+                blurry: "Halt still.",
+                covered: "Etwas verdeckt die Kamera.",
+                tilted_left: "Halte das Handy gerade, es ist nach links gekippt.",
+                tilted_right: "Halte das Handy gerade, es ist nach rechts gekippt.",
+                pointing_down: "Kipp das Handy nach oben.",
+                pointing_up: "Kipp das Handy nach unten.",
+                moving: "Halt still."
+            },
+            tryingAgain: "Ich versuche es noch einmal...",
+            noContactsToAlert: "Du hast keine Notfallkontakte, deshalb kann ich niemanden benachrichtigen. Bitte ruf um Hilfe.",
+            noAlertChannel: "Auf diesem Gerät ist kein Alarmkanal eingerichtet, deshalb kann ich deine Kontakte nicht benachrichtigen. Bitte ruf um Hilfe.",
+            alertingContacts: "Ich benachrichtige jetzt deine Notfallkontakte und sende deinen Standort.",
+            alerting: (name) => `Ich benachrichtige ${name}.`,
+            unreachable: (name) => `Ich konnte ${name} nicht erreichen. Ich versuche den nächsten Kontakt.`,
+            alertReceived: (name) => `${name} hat deinen Alarm erhalten. Hilfe ist unterwegs.`,
+            nobodyResponded: "Bisher hat niemand geantwortet. Bitte ruf um Hilfe, wenn du kannst.",
+            checkCancelled: "Notfallprüfung abgebrochen.",
+            emergencyReset: "Notfallmodus beendet. Ich sage deinen Kontakten, dass es dir gut geht.",
+            whoToAdd: "Wen soll ich hinzufügen? Sag zum Beispiel: Notfallkontakt Sam hinzufügen.",
+            askPhone: (name) => `Wie lautet die Telefonnummer von ${name}?`,
+            noPhoneHeard: (name) => `Ich habe keine Telefonnummer verstanden, deshalb habe ich ${name} nicht hinzugefügt.`,
+            confirmContact: (name, phone) => `${name}, ${phone}. Stimmt das?`,
+            contactNotAdded: (name) => `Okay, ich habe ${name} nicht hinzugefügt.`,
+            contactSaved: (name, replaced) => `${name} wurde als Notfallkontakt ${replaced ? 'aktualisiert' : 'hinzugefügt'}.`,
+            smsNotConfigured: "SMS-Alarme sind auf diesem Gerät noch nicht eingerichtet, deshalb kann ich diese Person erst erreichen, wenn ein SMS-Gateway konfiguriert ist.",
+            noContacts: "Du hast noch keine Notfallkontakte. Sag Notfallkontakt hinzufügen und den Namen, um einen anzulegen.",
+            contacts: (names) => names.length === 1
+                ? `Dein Notfallkontakt ist ${names[0]}.`
+                : `Deine Notfallkontakte, in der Reihenfolge, in der ich sie benachrichtige, sind ${listWith('und')(names)}.`,
+            whichContact: "Welchen Kontakt soll ich entfernen?",
+            contactRemoved: (name) => `${name} wurde aus deinen Notfallkontakten entfernt.`,
+            noSuchContact: (name) => `Ich habe keinen Notfallkontakt namens ${name}.`,
+            whichPlaceName: "Wie soll ich diesen Ort nennen? Sag zum Beispiel: speichere diesen Ort als Zuhause.",
+            gettingExactLocation: "Ich bestimme deinen genauen Standort.",
+            noGpsFix: "Ich habe kein GPS-Signal bekommen, deshalb habe ich den Ort nicht gespeichert. Versuch es bitte draußen noch einmal.",
+            placeSaved: (label, replaced) => `Dieser Ort wurde als ${label} ${replaced ? 'aktualisiert' : 'gespeichert'}.`,
+            roughFix: (meters) => `Das GPS war nur auf etwa ${meters} Meter genau, du solltest ihn später vielleicht noch einmal speichern.`,
+            noPlaces: "Du hast noch keine gespeicherten Orte. Sag speichere diesen Ort als Zuhause, um einen anzulegen.",
+            places: (labels) => labels.length === 1
+                ? `Du hast einen gespeicherten Ort: ${labels[0]}.`
+                : `Du hast ${labels.length} gespeicherte Orte: ${listWith('und')(labels)}.`,
+            whichPlaceToDelete: "Welchen Ort soll ich löschen?",
+            placeDeleted: (label) => `${label} wurde gelöscht.`,
+            noSuchPlace: (label) => `Ich habe keinen Ort namens ${label}.`,
+            whereTo: "Wohin möchtest du?",
+            calculatingRoute: (destination) => `Ich berechne den Fußweg nach ${destination}.`,
+            routeFound: (totalTime) => totalTime ? `Route gefunden. ${totalTime}.` : "Route gefunden.",
+            startingNavigation: "Navigation startet.",
+            approximateRoute: (directions) => `Diese Wegbeschreibung ist nur ungefähr, deshalb sage ich dir alles auf einmal. ${directions}`,
+            arrivalAnnounced: "Ich sage dir, wenn du angekommen bist.",
+            sayStopOnArrival: "Sag Navigation beenden, wenn du da bist.",
+            locationNotFound: "Ich konnte diesen Ort nicht finden.",
+            noGps: "GPS ist nicht verfügbar, deshalb kann ich dich nicht Schritt für Schritt führen.",
+            needLocationAccess: "Ich brauche Zugriff auf deinen Standort, um dich zu führen.",
+            gpsLost: "GPS-Signal verloren. Ich versuche es weiter.",
+            backOnRoute: "Du bist wieder auf der Route.",
+            offRoute: "Du scheinst von der Route abgekommen zu sein. Ich suche eine neue Route.",
+            newRoute: "Neue Route gefunden.",
+            noNewRoute: "Ich habe noch keine neue Route gefunden. Bleib an einer sicheren Stelle, ich versuche es noch einmal.",
+            navigationStopped: "Navigation beendet.",
+            arrived: "Du bist angekommen.",
+            approaching: (distance, instruction) => `Noch ${distance}: ${instruction}.`,
+            continueFor: (distance, instruction) => `Geh ${distance} weiter, dann ${instruction}.`,
+            meters: (meters) => `${meters} Meter`,
+            kilometers: (kilometers) => `${decimalComma(kilometers)} Kilometer`,
+            aboutMinutes: (minutes) => `Etwa ${minutes} Minute${minutes === 1 ? '' : 'n'}`,
+            routeDepart: (street) => street ? `Geh los entlang ${street}` : "Geh los",
+            routeArrive: (destination) => `Ankunft bei ${destination}`,
+            routeRoundabout: (street) => street ? `Geh durch den Kreisverkehr auf ${street}` : "Geh durch den Kreisverkehr",
+            routeTurnAround: "Dreh um",
+            routeStraight: (street) => street ? `Geh geradeaus weiter auf ${street}` : "Geh geradeaus weiter",
+            routeTurn: (side, street) => street ? `Bieg ${side} ab auf ${street}` : `Bieg ${side} ab`,
+            turnSides: { left: 'links', 'slight left': 'leicht links', 'sharp left': 'scharf links', right: 'rechts', 'slight right': 'leicht rechts', 'sharp right': 'scharf rechts' },
+            walkingOn: "Gehmodus aktiv. Ich bin bei dir.",
+            walkingOff: "Gehmodus ausgeschaltet.",
+            walkingRestarted: "Gehmodus aktiv.",
+            companionOn: "Ich bin jetzt bei dir. Lass uns zusammen gehen.",
+            companionOff: "Ruhemodus eingeschaltet.",
+            handsFreeOn: (wakePhrase) => `Freihändig ist an. Sag „${wakePhrase}“, wann immer du mich brauchst.`,
+            handsFreeOff: "Freihändig ist aus. Tippe auf die Taste, um mit mir zu sprechen.",
+            hapticsOnlyOn: "Nur Vibrationen. Hindernisse, Abbiegungen und Ampelsignale vibrieren, statt gesprochen zu werden. Sag bring mir die Vibrationen bei, um sie zu lernen.",
+            hapticsOnlyOff: "Gesprochene Hinweise sind wieder an.",
+            whichSetting: "Welche Einstellung möchtest du ändern? Sag zum Beispiel: sprich langsamer.",
+            languageUnsupported: "Diese Sprache kann ich leider noch nicht sprechen.",
+            whatWakePhrase: "Wie soll das neue Aktivierungswort lauten? Sag zum Beispiel: ändere das Aktivierungswort zu hallo Kumpel.",
+            wakePhraseSet: (wakePhrase, handsFree) => handsFree
+                ? `Okay, sag „${wakePhrase}“, um mich zu wecken.`
+                : `Okay, das Aktivierungswort ist „${wakePhrase}“. Sag freihändig einschalten, um es zu nutzen.`,
+            fastest: "Ich spreche schon so schnell ich kann.",
+            slowest: "Ich spreche schon so langsam ich kann.",
+            normalSpeed: "Okay, wieder normales Tempo.",
+            faster: "Okay, ich spreche schneller.",
+            slower: "Okay, ich spreche langsamer.",
+            rarest: "Ich melde mich schon so selten wie möglich.",
+            mostOften: "Ich melde mich schon so oft wie möglich.",
+            checkInEvery: (seconds) => `Okay, ich melde mich etwa alle ${seconds} Sekunden.`,
+            silenceLimit: "Länger oder kürzer kann ich nicht warten.",
+            silenceWait: (seconds) => `Okay, ich warte ${decimalComma(seconds)} Sekunden Stille, bevor ich aufhöre zuzuhören.`,
+            noiseLimit: "Die Geräuschempfindlichkeit ist schon am Limit.",
+            noiseReset: "Geräuschempfindlichkeit zurückgesetzt.",
+            quieterNoises: "Okay, ich reagiere jetzt auf leisere Geräusche.",
+            loudNoisesOnly: "Okay, jetzt warnen mich nur noch sehr laute Geräusche.",
+            pathClearAlreadyOff: "Ich sage schon nicht mehr Weg frei.",
+            pathClearMostOften: "Öfter sage ich Weg frei nicht.",
+            pathClearOff: "Okay, ich sage nicht mehr Weg frei.",
+            pathClearMore: "Okay, ich bestätige öfter, dass der Weg frei ist.",
+            pathClearLess: "Okay, ich sage seltener Weg frei.",
+            usualVoice: "Okay, wieder meine gewohnte Stimme.",
+            noOtherVoices: "Auf diesem Gerät gibt es leider keine anderen Stimmen.",
+            voiceChanged: (name) => `Okay, das ist ${name}. Sag noch einmal andere Stimme, um eine weitere zu hören.`,
+            whatToFind: "Wonach soll ich suchen? Sag zum Beispiel: finde meine Schlüssel.",
+            finishCrossingFirst: "Lass uns erst die Straße überqueren. Sag ich bin drüben, wenn du auf der anderen Seite bist.",
+            searchTarget: (target) => target.replace(/^mein(e|en|em|er)?\s/i, (_, ending) => `dein${ending ?? ''} `),
+            lookingFor: (name, walkingPaused) => `Ich suche ${name}. Beweg die Kamera langsam herum.${walkingPaused ? ' Die Gehhinweise pausieren, solange ich suche.' : ''}`,
+            stoppedLooking: "Okay, ich habe aufgehört zu suchen.",
+            searchGaveUp: (name) => `Ich konnte ${name} nicht finden. Vielleicht ist es außer Sicht oder dort, wo die Kamera nicht hinsieht.`,
+            searchLost: (name, wasAt) => `Ich habe ${name} aus den Augen verloren. ${wasAt === 'center' ? 'Halt kurz still' : `Geh zurück nach ${wasAt === 'left' ? 'links' : 'rechts'}`}.`,
+            searchStill: (name) => `Ich suche noch ${name}. Dreh die Kamera langsam herum.`,
+            searchFound: (name, vertical) => `Gefunden: ${name}. Es ist direkt vor dir${vertical}, etwa eine Armlänge entfernt.`,
+            searchSee: (name, where) => `Ich sehe ${name}, ${where}.`,
+            searchGuide: (where, closer, far) => `${closer ? `Du kommst näher, ${where}` : capitalize(where)}${far ? ', noch ein paar Schritte' : ''}.`,
+            searchHorizontal: { far_left: 'dreh dich nach links', left: 'etwas links', center: 'geradeaus', right: 'etwas rechts', far_right: 'dreh dich nach rechts' },
+            searchVertical: { up: ', etwas höher', level: '', down: ', etwas tiefer' },
+            crossingOn: "Überquerungsmodus. Richte das Handy über die Straße und ich sage dir, wenn die Ampel wechselt.",
+            crossingOff: "Überquerungsmodus aus.",
+            crossingTimedOut: "Ich beende den Überquerungsmodus.",
+            vehicleApproaching: (side) => `Fahrzeug kommt${{ left: ' von links', right: ' von rechts', center: ' von vorn', unknown: '' }[side]}!`,
+            signalWalk: "Die Ampel ist jetzt GRÜN.",
+            signalDontWalk: "Die Ampel ist jetzt ROT. Warte hier.",
+            signalCountdown: (seconds) => seconds !== null ? `Die Ampel zählt herunter, noch ${seconds} Sekunden.` : "Die Ampel zählt herunter.",
+            secondsLeft: (seconds) => `Noch ${seconds} Sekunden.`,
+            backOnCrossing: "Du bist wieder auf dem Überweg.",
+            driftingLeft: "Du driftest nach links. Geh nach rechts.",
+            driftingRight: "Du driftest nach rechts. Geh nach links.",
+            framingNoPage: "Ich sehe noch keine Seite. Halte das Handy flach, etwa eine Unterarmlänge darüber.",
+            framingTooClose: "Halte das Handy weiter weg.",
+            framingCutOff: (edges) => `Die Seite ist ${edges.map(edge => ({ top: 'oben', bottom: 'unten', left: 'links', right: 'rechts' })[edge]).join(' und ')} abgeschnitten. Beweg das Handy nach ${edges.map(edge => ({ top: 'oben', bottom: 'unten', left: 'links', right: 'rechts' })[edge]).join(' und ')}.`,
+            framingCloser: (offset) => offset === 'centered' ? "Halte das Handy näher heran." : `Beweg das Handy nach ${{ left: 'links', right: 'rechts', up: 'oben', down: 'unten' }[offset]} und etwas näher heran.`,
+            framingShift: (offset) => `Beweg das Handy etwas nach ${{ centered: '', left: 'links', right: 'rechts', up: 'oben', down: 'unten' }[offset]}.`,
+            framingHoldStill: "Das ist die ganze Seite. Halt still.",
+            framingTimeout: "Ich lese vor, was ich sehen kann.",
+            framingReady: "Hab's.",
+            vibrationsIntro: "Das sind die Vibrationen. Jede kommt nach ihrem Namen.",
+            vibrationsOutro: "Das waren alle. Sag bring mir die Vibrationen bei, um sie noch einmal zu hören.",
+            vibrations: {
+                hazardLeft: "Hindernis links: ein Impuls.",
+                hazardAhead: "Hindernis vorn: zwei Impulse.",
+                hazardRight: "Hindernis rechts: drei Impulse.",
+                hazardFar: "Ein entferntes Hindernis kommt mit Abstand.",
+                hazardNear: "Ein nahes Hindernis kommt schnell.",
+                hazardSerious: "Ein ernstes Hindernis hat lange Impulse, zweimal.",
+                turnLeft: "Links abbiegen oder ausweichen: lang, dann kurz.",
+                turnRight: "Rechts abbiegen oder ausweichen: kurz, dann lang.",
+                arrived: "Du bist angekommen.",
+                walk: "Die Ampel zeigt Gehen.",
+                dontWalk: "Die Ampel zeigt Warten.",
+                countdown: "Die Ampel zählt herunter.",
+                vehicle: "Ein Fahrzeug kommt.",
+                emergencyCheck: "Notfallprüfung: Geht es dir gut?",
+                emergencyAlerting: "Ich benachrichtige deine Notfallkontakte."
+            },
+            replayFinished: (matches) => matches ? "Wiedergabe beendet. Die Hinweise stimmen mit der Aufnahme überein." : "Wiedergabe beendet. Die Hinweise weichen von der Aufnahme ab."
+        },
+        rules: {
+            safety: ['sicher', 'gefahr', 'vorsicht'],
+            stop: ['stopp', 'stop', 'beende', 'abbrechen', 'brich ab'],
+            negations: ['nicht', 'nie'],
+            notStop: ['stoppschild', 'stopp schild', 'stop schild'],
+            navigationWords: ['navigation', 'route'],
+            walkingWords: ['gehen', 'geh', 'modus'],
+            start: ['starte', 'beginne', 'aktiviere'],
+            navigate: ['bring mich', 'navigiere', 'führe mich', 'wie komme ich'],
+            destinationPrefixes: ['bring mich zu', 'bring mich zum', 'bring mich zur', 'navigiere zu', 'navigiere zum', 'navigiere zur', 'führe mich zu', 'bring mich nach'],
+            savePlacePrefixes: ['speichere diesen ort als', 'merke dir diesen ort als', 'speichere diesen platz als'],
+            deletePlacePrefixes: ['lösche den ort', 'vergiss den ort', 'entferne den ort'],
+            listPlaces: ['meine orte', 'gespeicherte orte', 'welche orte'],
+            addContactPrefixes: ['neuer notfallkontakt', 'notfallkontakt hinzufügen', 'neuer kontakt', 'kontakt hinzufügen'],
+            removeContactPrefixes: ['notfallkontakt löschen', 'notfallkontakt entfernen', 'lösche den kontakt', 'entferne den kontakt', 'kontakt löschen', 'kontakt entfernen'],
+            listContacts: ['notfallkontakte', 'meine kontakte', 'wen benachrichtigst du'],
+            findObjectPrefixes: ['wo sind meine', 'wo ist meine', 'wo ist mein', 'suche', 'finde'],
+            foundIt: ['gefunden', 'hab es', 'hör auf zu suchen'],
+            crossing: ['überquerungsmodus', 'über die straße', 'straße überqueren', 'zebrastreifen', 'ampel'],
+            crossed: ['ich bin drüben', 'bin drüben', 'ich bin auf der anderen seite'],
+            whereAmI: ['wo bin ich', 'standort', 'adresse'],
+            read: ['lies', 'lesen', 'was steht da', 'text', 'dokument'],
+            companion: ['begleiter', 'begleite mich', 'gesellschaft'],
+            off: ['aus', 'beende', 'stopp'],
+            newPicture: ['neues foto', 'neues bild', 'anderes foto', 'noch ein foto', 'schau nochmal'],
+            describe: ['beschreib', 'beschreibe', 'was siehst du', 'was ist vor mir', 'was ist um mich', 'was ist das', 'umgebung', 'szene'],
+            detailed: ['im detail', 'genau', 'ausführlich', 'alles'],
+            brief: ['kurz', 'schnell'],
+            handsFree: ['freihändig', 'freisprech', 'aktivierungswort'],
+            haptics: ['nur vibration', 'nur vibrieren', 'vibration', 'vibrationen', 'vibrieren', 'lautlos'],
+            hapticsTutorial: ['bring mir die vibrationen bei', 'vibrationen lernen', 'vibrations tutorial', 'was bedeuten die vibrationen'],
+            wakePhrasePrefixes: ['aktivierungswort auf', 'aktivierungswort zu'],
+            readerPause: ['pause', 'warte', 'hör auf zu lesen'],
+            readerResume: ['weiter', 'weiterlesen', 'lies weiter', 'mach weiter', 'fortsetzen'],
+            readerBack: ['zurück', 'absatz zurück', 'vorheriger absatz'],
+            readerForward: ['überspringen', 'nächster absatz'],
+            readerRepeat: ['wiederhole', 'wiederholen', 'lies das nochmal'],
+            readerRestart: ['von vorne', 'von anfang an'],
+            readerSpell: ['buchstabiere'],
+            readerThatWord: ['das wort', 'dieses wort', 'es'],
+            readerAddPage: ['noch eine seite', 'weitere seite', 'nächste seite', 'seite hinzufügen'],
+            filler: ['bitte', 'kannst du', 'könntest du', 'hey', 'sightmate', 'der', 'die', 'das', 'mir', 'jetzt'],
+            slower: ['langsamer'],
+            faster: ['schneller'],
+            normalSpeed: ['normale geschwindigkeit'],
+            differentVoice: ['andere stimme', 'stimme wechseln', 'wechsle die stimme'],
+            defaultVoice: ['normale stimme', 'standardstimme'],
+            lessOften: ['seltener', 'sprich weniger'],
+            moreOften: ['öfter', 'häufiger', 'sprich mehr'],
+            waitLonger: ['warte länger', 'mehr zeit', 'unterbrich mich nicht'],
+            waitLess: ['warte kürzer'],
+            moreSensitive: ['empfindlicher'],
+            lessSensitive: ['weniger empfindlich'],
+            pathClearLess: ['sag nicht mehr weg frei', 'weniger weg frei'],
+            pathClearMore: ['öfter weg frei'],
+            languageSwitch: ['sprache', 'sprich', 'wechsle zu']
+        }
+    },
+    'hi-IN': {
+        code: 'hi-IN',
+        language: 'Hindi',
+        names: ['hindi', 'हिंदी', 'हिन्दी'],
+        preferredVoices: ['Google हिन्दी', 'Lekha', 'Microsoft Kalpana', 'Microsoft Swara'],
+        distressHigh: ['मदद', 'बचाओ', 'आपातकाल', 'इमरजेंसी', '112 बुलाओ', 'नहीं नहीं नहीं'],
+        distressMedium: ['दर्द', 'चोट', 'गिर गया', 'गिर गई', 'गिर रहा', 'रुको'],
+        safeReplies: ['ठीक', 'हाँ', 'हां', 'सुरक्षित', 'ओके'],
+        dangerReplies: ['मदद', 'दर्द', 'चोट', 'बुलाओ'],
+        yesReplies: ['हाँ', 'हां', 'सही', 'ठीक है', 'जी'],
+        noReplies: ['नहीं', 'मत', 'ना', 'गलत'],
+        leftWords: ['बाएं', 'बाईं', 'बाये'],
+        rightWords: ['दाएं', 'दाईं', 'दाये'],
+        switchedConfirmation: "ठीक है, अब हम हिंदी में बात करेंगे।",
+        phrases: {
+            areYouOkay: "लगता है कुछ गड़बड़ है। क्या आप ठीक हैं?",
+            askAgain: "मैंने आपको नहीं सुना। अगर आप सुरक्षित हैं तो कहिए 'मैं ठीक हूँ'।",
+            gladYouAreSafe: "अच्छा है कि आप सुरक्षित हैं। फिर से शुरू कर रहे हैं।",
+            companion: [
+                "मैं यहीं आपके साथ चल रहा हूँ।",
+                "आप बहुत अच्छा कर रहे हैं, भरोसा रखिए।",
+                "मैं आपका ध्यान रख रहा हूँ।",
+                "सब ठीक दिख रहा है, चलते रहिए।",
+                "मैं यहीं हूँ, कुछ चाहिए तो बताइए।",
+                "आराम से, बहुत बढ़िया।",
+                "आप कमाल कर रहे हैं।",
+                "आगे का रास्ता साफ़ लगता है।"
+            ],
+            pathClear: "रास्ता साफ़ है।",
+            cleared: (names) => `${names.join(' और ')} अब रास्ते में नहीं है।`,
+            coverageSlowed: "खतरों की जाँच धीमी हो गई है। ज़्यादा सावधान रहिए।",
+            coverageRestored: "खतरों की जाँच फिर से सामान्य है।",
+            noDocument: "कोई दस्तावेज़ खुला नहीं है। पढ़ना शुरू करने के लिए कहिए पढ़ो।",
+            paused: "रुका हुआ है। जब तैयार हों तो कहिए आगे पढ़ो।",
+            whichWord: "कौन सा शब्द? वह शब्द बताइए।",
+            framePage: "फ़ोन को पन्ने के ऊपर रखिए। पूरा पन्ना दिखते ही मैं फ़ोटो ले लूँगा।",
+            frameNextPage: "अगला पन्ना। फ़ोन को उसके ऊपर रखिए।",
+            pageNumber: (page) => `पन्ना ${page}।`,
+            lastParagraph: "यह आखिरी पैराग्राफ़ है।",
+            endOfDocument: "दस्तावेज़ खत्म हो गया।",
+            endOfDocumentHint: "दस्तावेज़ खत्म हो गया। फिर से सुनने के लिए कहिए शुरू से।",
+            endOfPage: (pages) => `${pages > 1 ? `पन्ना ${pages}` : 'पन्ना'} खत्म। आगे पढ़ने के लिए कहिए अगला पन्ना।`,
+            welcome: "SightMate तैयार है। बोलने के लिए दबाइए।",
+            didntHear: "मैंने आपको नहीं सुना।",
+            didntHearTryAgain: "मैंने आपको नहीं सुना, कृपया फिर से कहिए।",
+            okay: "ठीक है।",
+            cameraError: "कैमरे में गड़बड़ी।",
+            requestError: "मैं यह अनुरोध पूरा नहीं कर सका।",
+            connectionError: "कनेक्शन में गड़बड़ी।",
+            overloaded: "अभी मुझ पर बहुत काम है। थोड़ी देर में फिर से कोशिश कीजिए।",
+            microphoneDenied: "माइक्रोफ़ोन की अनुमति नहीं मिली।",
+            cameraOpening: "कैमरा खोल रहा हूँ...",
+            cameraReady: "कैमरा तैयार है।",
+            cameraFailed: "कैमरे में गड़बड़ी। कृपया ऐप फिर से शुरू कीजिए।",
+            cameraPermission: "कैमरे में गड़बड़ी: कृपया अनुमतियाँ जाँचिए।",
+            cameraLoading: "कैमरा लोड हो रहा है...",
+            capturing: "फ़ोटो ले रहा हूँ...",
+            imageBlack: "तस्वीर काली लग रही है। फिर से कोशिश कर रहा हूँ...",
+            imageStillDark: "तस्वीर अब भी बहुत अँधेरी है। देखिए कि कैमरे के आगे कुछ न हो।",
+            imageCaptured: "फ़ोटो ले ली। जाँच रहा हूँ...",
+            locating: "आपकी जगह ढूँढ रहा हूँ...",
+            noGpsCheckingVisually: "GPS सिग्नल नहीं है। आसपास के संकेत देख रहा हूँ।",
+            checking: "जाँच रहा हूँ...",
+            couldntSee: "मुझे साफ़ नहीं दिखा।",
+            qualityIssues: {
+                too_dark: "बहुत अँधेरा है। बत्ती जलाइए या किसी रोशनी वाली जगह जाइए।",
+                too_bright: "बहुत चमक है। रोशनी से थोड़ा हट जाइए।",
+                blurry: "फ़ोन स्थिर रखिए।",
+                covered: "कैमरे के आगे कुछ है।",
+                tilted_left: "फ़ोन सीधा कीजिए, यह बाईं ओर झुका है।",
+                tilted_right: "फ़ोन सीधा कीजिए, यह दाईं ओर झुका है।",
+                pointing_down: "फ़ोन को थोड़ा ऊपर झुकाइए।",
+                pointing_up: "फ़ोन को थोड़ा नीचे झुकाइए।",
+                moving: "फ़ोन स्थिर रखिए।"
+            },
+            tryingAgain: "फिर से कोशिश कर रहा हूँ...",
+            noContactsToAlert: "आपका कोई आपातकालीन संपर्क नहीं है, इसलिए मैं किसी को सूचना नहीं दे सकता। कृपया मदद के लिए पुकारिए।",
+            noAlertChannel: "इस डिवाइस पर सूचना भेजने का कोई तरीका सेट नहीं है, इसलिए मैं आपके संपर्कों को सूचना नहीं दे सकता। कृपया मदद के लिए पुकारिए।",
+            alertingContacts: "आपके आपातकालीन संपर्कों को सूचना और आपकी जगह भेज रहा हूँ।",
+            alerting: (name) => `${name} को सूचना दे रहा हूँ।`,
+            unreachable: (name) => `${name} से संपर्क नहीं हो सका। अगले संपर्क को कोशिश कर रहा हूँ।`,
+            alertReceived: (name) => `${name} को आपकी सूचना मिल गई है। मदद आ रही है।`,
+            nobodyResponded: "अभी तक किसी ने जवाब नहीं दिया। हो सके तो मदद के लिए पुकारिए।",
+            checkCancelled: "आपातकालीन जाँच रद्द।",
+            emergencyReset: "आपातकालीन मोड बंद। आपके संपर्कों को बता रहा हूँ कि आप सुरक्षित हैं।",
+            whoToAdd: "किसे जोड़ूँ? उदाहरण के लिए कहिए, आपातकालीन संपर्क सैम जोड़ो।",
+            askPhone: (name) => `${name} का फ़ोन नंबर क्या है?`,
+            noPhoneHeard: (name) => `मुझे कोई फ़ोन नंबर समझ नहीं आया, इसलिए मैंने ${name} को नहीं जोड़ा।`,
+            confirmContact: (name, phone) => `${name}, ${phone}। क्या यह सही है?`,
+            contactNotAdded: (name) => `ठीक है, मैंने ${name} को नहीं जोड़ा।`,
+            contactSaved: (name, replaced) => `${name} को आपातकालीन संपर्क के रूप में ${replaced ? 'अपडेट' : 'जोड़'} दिया।`,
+            smsNotConfigured: "इस डिवाइस पर अभी SMS सूचनाएँ सेट नहीं हैं, इसलिए SMS गेटवे सेट होने तक मैं उनसे संपर्क नहीं कर सकता।",
+            noContacts: "आपका अभी कोई आपातकालीन संपर्क नहीं है। जोड़ने के लिए कहिए आपातकालीन संपर्क जोड़ो और उनका नाम।",
+            contacts: (names) => names.length === 1
+                ? `आपका आपातकालीन संपर्क ${names[0]} है।`
+                : `आपके आपातकालीन संपर्क, जिस क्रम में मैं उन्हें सूचना देता हूँ, ${listWith('और')(names)} हैं।`,
+            whichContact: "कौन सा संपर्क हटाऊँ?",
+            contactRemoved: (name) => `${name} को आपके आपातकालीन संपर्कों से हटा दिया।`,
+            noSuchContact: (name) => `${name} नाम का कोई आपातकालीन संपर्क नहीं है।`,
+            whichPlaceName: "इस जगह को क्या नाम दूँ? उदाहरण के लिए कहिए, इस जगह को घर के नाम से सेव करो।",
+            gettingExactLocation: "आपकी सटीक जगह पता कर रहा हूँ।",
+            noGpsFix: "GPS से जगह नहीं मिली, इसलिए मैंने यह जगह सेव नहीं की। कृपया बाहर जाकर फिर से कोशिश कीजिए।",
+            placeSaved: (label, replaced) => `इस जगह को ${label} के नाम से ${replaced ? 'अपडेट' : 'सेव'} कर दिया।`,
+            roughFix: (meters) => `GPS सिर्फ़ लगभग ${meters} मीटर तक सटीक था, इसलिए बाद में इसे फिर से सेव करना ठीक रहेगा।`,
+            noPlaces: "आपकी अभी कोई सेव की हुई जगह नहीं है। जोड़ने के लिए कहिए इस जगह को घर के नाम से सेव करो।",
+            places: (labels) => labels.length === 1
+                ? `आपकी एक सेव की हुई जगह है: ${labels[0]}।`
+                : `आपकी ${labels.length} सेव की हुई जगहें हैं: ${listWith('और')(labels)}।`,
+            whichPlaceToDelete: "कौन सी जगह हटाऊँ?",
+            placeDeleted: (label) => `${label} हटा दिया।`,
+            noSuchPlace: (label) => `${label} नाम की कोई जगह नहीं है।`,
+            whereTo: "आप कहाँ जाना चाहते हैं?",
+            calculatingRoute: (destination) => `${destination} तक पैदल रास्ता निकाल रहा हूँ।`,
+            routeFound: (totalTime) => totalTime ? `रास्ता मिल गया। ${totalTime}।` : "रास्ता मिल गया।",
+            startingNavigation: "नेविगेशन शुरू कर रहा हूँ।",
+            approximateRoute: (directions) => `ये निर्देश अनुमानित हैं, इसलिए सब एक साथ बता रहा हूँ। ${directions}`,
+            arrivalAnnounced: "पहुँचने पर मैं आपको बता दूँगा।",
+            sayStopOnArrival: "वहाँ पहुँचकर कहिए नेविगेशन बंद करो।",
+            locationNotFound: "मुझे वह जगह नहीं मिली।",
+            noGps: "GPS उपलब्ध नहीं है, इसलिए मैं हर मोड़ पर रास्ता नहीं बता सकता।",
+            needLocationAccess: "रास्ता बताने के लिए मुझे आपकी जगह की अनुमति चाहिए।",
+            gpsLost: "GPS सिग्नल चला गया। मैं कोशिश करता रहूँगा।",
+            backOnRoute: "आप फिर से सही रास्ते पर हैं।",
+            offRoute: "लगता है आप रास्ते से हट गए हैं। नया रास्ता ढूँढ रहा हूँ।",
+            newRoute: "नया रास्ता मिल गया।",
+            noNewRoute: "अभी नया रास्ता नहीं मिला। किसी सुरक्षित जगह रुकिए, मैं फिर से कोशिश करूँगा।",
+            navigationStopped: "नेविगेशन बंद।",
+            arrived: "आप पहुँच गए हैं।",
+            approaching: (distance, instruction) => `${distance} बाद, ${instruction}।`,
+            continueFor: (distance, instruction) => `${distance} तक चलते रहिए, फिर ${instruction}।`,
+            meters: (meters) => `${meters} मीटर`,
+            kilometers: (kilometers) => `${kilometers} किलोमीटर`,
+            aboutMinutes: (minutes) => `लगभग ${minutes} मिनट`,
+            routeDepart: (street) => street ? `${street} पर चलना शुरू कीजिए` : "चलना शुरू कीजिए",
+            routeArrive: (destination) => `${destination} पहुँचिए`,
+            routeRoundabout: (street) => street ? `गोल चक्कर से ${street} पर जाइए` : "गोल चक्कर से आगे जाइए",
+            routeTurnAround: "वापस मुड़िए",
+            routeStraight: (street) => street ? `${street} पर सीधे चलते रहिए` : "सीधे चलते रहिए",
+            routeTurn: (side, street) => street ? `${side} मुड़कर ${street} पर जाइए` : `${side} मुड़िए`,
+            turnSides: { left: 'बाएं', 'slight left': 'हल्का बाएं', 'sharp left': 'तेज़ी से बाएं', right: 'दाएं', 'slight right': 'हल्का दाएं', 'sharp right': 'तेज़ी से दाएं' },
+            walkingOn: "चलने का मोड चालू। मैं आपके साथ हूँ।",
+            walkingOff: "चलने का मोड बंद।",
+            walkingRestarted: "चलने का मोड चालू।",
+            companionOn: "मैं अब आपके साथ हूँ। चलिए साथ चलते हैं।",
+            companionOff: "शांत मोड चालू।",
+            handsFreeOn: (wakePhrase) => `हैंड्स-फ़्री चालू है। जब भी ज़रूरत हो, कहिए "${wakePhrase}"।`,
+            handsFreeOff: "हैंड्स-फ़्री बंद है। मुझसे बात करने के लिए बटन दबाइए।",
+            hapticsOnlyOn: "सिर्फ़ कंपन। खतरे, मोड़ और सिग्नल बोलने के बजाय कंपन से बताए जाएँगे। इन्हें सीखने के लिए कहिए कंपन सिखाओ।",
+            hapticsOnlyOff: "बोलकर बताना फिर से चालू है।",
+            whichSetting: "आप कौन सी सेटिंग बदलना चाहते हैं? उदाहरण के लिए कहिए, धीरे बोलो।",
+            languageUnsupported: "माफ़ कीजिए, मैं अभी वह भाषा नहीं बोल सकता।",
+            whatWakePhrase: "नया वेक फ़्रेज़ क्या हो? उदाहरण के लिए कहिए, वेक फ़्रेज़ बदलकर हेलो दोस्त करो।",
+            wakePhraseSet: (wakePhrase, handsFree) => handsFree
+                ? `ठीक है, मुझे जगाने के लिए कहिए "${wakePhrase}"।`
+                : `ठीक है, वेक फ़्रेज़ "${wakePhrase}" है। इसे इस्तेमाल करने के लिए कहिए हैंड्स-फ़्री चालू करो।`,
+            fastest: "मैं पहले से ही जितना तेज़ हो सके बोल रहा हूँ।",
+            slowest: "मैं पहले से ही जितना धीरे हो सके बोल रहा हूँ।",
+            normalSpeed: "ठीक है, फिर से सामान्य गति।",
+            faster: "ठीक है, मैं तेज़ बोलूँगा।",
+            slower: "ठीक है, मैं धीरे बोलूँगा।",
+            rarest: "मैं पहले से ही जितना कम हो सके बोल रहा हूँ।",
+            mostOften: "मैं पहले से ही जितना ज़्यादा हो सके बोल रहा हूँ।",
+            checkInEvery: (seconds) => `ठीक है, मैं लगभग हर ${seconds} सेकंड में हाल पूछूँगा।`,
+            silenceLimit: "मेरे इंतज़ार की यही सीमा है।",
+            silenceWait: (seconds) => `ठीक है, सुनना बंद करने से पहले मैं ${seconds} सेकंड की चुप्पी का इंतज़ार करूँगा।`,
+            noiseLimit: "आवाज़ की संवेदनशीलता पहले से ही सीमा पर है।",
+            noiseReset: "आवाज़ की संवेदनशीलता फिर से सामान्य।",
+            quieterNoises: "ठीक है, मैं धीमी आवाज़ों पर भी ध्यान दूँगा।",
+            loudNoisesOnly: "ठीक है, अब सिर्फ़ बहुत तेज़ आवाज़ों पर ही सूचना दूँगा।",
+            pathClearAlreadyOff: "मैंने पहले ही रास्ता साफ़ कहना बंद कर दिया है।",
+            pathClearMostOften: "इससे ज़्यादा बार मैं रास्ता साफ़ नहीं कहूँगा।",
+            pathClearOff: "ठीक है, अब मैं रास्ता साफ़ नहीं कहूँगा।",
+            pathClearMore: "ठीक है, मैं ज़्यादा बार बताऊँगा कि रास्ता साफ़ है।",
+            pathClearLess: "ठीक है, मैं कम बार रास्ता साफ़ कहूँगा।",
+            usualVoice: "ठीक है, फिर से मेरी सामान्य आवाज़।",
+            noOtherVoices: "माफ़ कीजिए, इस डिवाइस पर कोई और आवाज़ नहीं है।",
+            voiceChanged: (name) => `ठीक है, यह ${name} है। दूसरी आवाज़ सुनने के लिए फिर से कहिए आवाज़ बदलो।`,
+            whatToFind: "मैं क्या ढूँढूँ? उदाहरण के लिए कहिए, मेरी चाबियाँ ढूँढो।",
+            finishCrossingFirst: "पहले सड़क पार कर लेते हैं। उस पार पहुँचकर कहिए मैंने पार कर लिया।",
+            searchTarget: (target) => target.replace(/^मेरा\s/, 'आपका ').replace(/^मेरी\s/, 'आपकी ').replace(/^मेरे\s/, 'आपके '),
+            lookingFor: (name, walkingPaused) => `${name} ढूँढ रहा हूँ। कैमरे को धीरे-धीरे घुमाइए।${walkingPaused ? ' ढूँढते समय चलने की सूचनाएँ रुकी रहेंगी।' : ''}`,
+            stoppedLooking: "ठीक है, मैंने ढूँढना बंद कर दिया।",
+            searchGaveUp: (name) => `${name} नहीं मिला। शायद वह नज़र से बाहर है, या ऐसी जगह है जहाँ कैमरा नहीं देख सकता।`,
+            searchLost: (name, wasAt) => `${name} नज़र से हट गया। ${wasAt === 'center' ? 'एक पल स्थिर रहिए' : `वापस ${wasAt === 'left' ? 'बाईं' : 'दाईं'} ओर जाइए`}।`,
+            searchStill: (name) => `अभी भी ${name} ढूँढ रहा हूँ। कैमरे को धीरे-धीरे घुमाइए।`,
+            searchFound: (name, vertical) => `${name} मिल गया। यह ठीक सामने है${vertical}, लगभग एक हाथ की दूरी पर।`,
+            searchSee: (name, where) => `मुझे ${name} दिख रहा है, ${where}।`,
+            searchGuide: (where, closer, far) => `${closer ? `आप पास आ रहे हैं, ${where}` : where}${far ? ', अभी कुछ कदम दूर' : ''}।`,
+            searchHorizontal: { far_left: 'बाईं ओर मुड़िए', left: 'थोड़ा बाईं ओर', center: 'ठीक सामने', right: 'थोड़ा दाईं ओर', far_right: 'दाईं ओर मुड़िए' },
+            searchVertical: { up: ', थोड़ा ऊपर', level: '', down: ', थोड़ा नीचे' },
+            crossingOn: "सड़क पार करने का मोड। फ़ोन को सड़क के उस पार की ओर रखिए, सिग्नल बदलते ही मैं बताऊँगा।",
+            crossingOff: "सड़क पार करने का मोड बंद।",
+            crossingTimedOut: "सड़क पार करने का मोड बंद कर रहा हूँ।",
+            vehicleApproaching: (side) => `${{ left: 'बाईं ओर से ', right: 'दाईं ओर से ', center: 'सामने से ', unknown: '' }[side]}गाड़ी आ रही है!`,
+            signalWalk: "सिग्नल अब हरा है, चलिए।",
+            signalDontWalk: "सिग्नल अब लाल है। यहीं रुकिए।",
+            signalCountdown: (seconds) => seconds !== null ? `सिग्नल की उलटी गिनती चल रही है, ${seconds} सेकंड बाकी।` : "सिग्नल की उलटी गिनती चल रही है।",
+            secondsLeft: (seconds) => `${seconds} सेकंड बाकी।`,
+            backOnCrossing: "आप फिर से क्रॉसिंग पर हैं।",
+            driftingLeft: "आप बाईं ओर जा रहे हैं। दाईं ओर हटिए।",
+            driftingRight: "आप दाईं ओर जा रहे हैं। बाईं ओर हटिए।",
+            framingNoPage: "अभी कोई पन्ना नहीं दिख रहा। फ़ोन को सीधा, पन्ने से लगभग एक हाथ ऊपर रखिए।",
+            framingTooClose: "फ़ोन को थोड़ा दूर ले जाइए।",
+            framingCutOff: (edges) => `पन्ना ${edges.map(edge => ({ top: 'ऊपर', bottom: 'नीचे', left: 'बाईं ओर', right: 'दाईं ओर' })[edge]).join(' और ')} से कटा है। फ़ोन को ${edges.map(edge => ({ top: 'ऊपर', bottom: 'नीचे', left: 'बाईं ओर', right: 'दाईं ओर' })[edge]).join(' और ')} ले जाइए।`,
+            framingCloser: (offset) => offset === 'centered' ? "फ़ोन को पास लाइए।" : `फ़ोन को ${{ left: 'बाईं ओर', right: 'दाईं ओर', up: 'ऊपर', down: 'नीचे' }[offset]} और थोड़ा पास लाइए।`,
+            framingShift: (offset) => `फ़ोन को थोड़ा ${{ centered: '', left: 'बाईं ओर', right: 'दाईं ओर', up: 'ऊपर', down: 'नीचे' }[offset]} ले जाइए।`,
+            framingHoldStill: "पूरा पन्ना दिख रहा है। स्थिर रखिए।",
+            framingTimeout: "जो दिख रहा है वह पढ़ता हूँ।",
+            framingReady: "हो गया।",
+            vibrationsIntro: "ये रहे कंपन। हर कंपन उसके नाम के बाद बजेगा।",
+            vibrationsOutro: "बस इतने ही। फिर से सुनने के लिए कहिए कंपन सिखाओ।",
+            vibrations: {
+                hazardLeft: "बाईं ओर खतरा: एक झटका।",
+                hazardAhead: "सामने खतरा: दो झटके।",
+                hazardRight: "दाईं ओर खतरा: तीन झटके।",
+                hazardFar: "दूर का खतरा धीरे-धीरे आता है।",
+                hazardNear: "पास का खतरा जल्दी-जल्दी आता है।",
+                hazardSerious: "गंभीर खतरे में लंबे झटके, दो बार।",
+                turnLeft: "बाएं मुड़िए या हटिए: लंबा, फिर छोटा।",
+                turnRight: "दाएं मुड़िए या हटिए: छोटा, फिर लंबा।",
+                arrived: "आप पहुँच गए हैं।",
+                walk: "सिग्नल कहता है चलिए।",
+                dontWalk: "सिग्नल कहता है रुकिए।",
+                countdown: "सिग्नल की उलटी गिनती।",
+                vehicle: "गाड़ी आ रही है।",
+                emergencyCheck: "आपातकालीन जाँच: क्या आप ठीक हैं?",
+                emergencyAlerting: "आपके आपातकालीन संपर्कों को सूचना दे रहा हूँ।"
+            },
+            replayFinished: (matches) => matches ? "रीप्ले पूरा हुआ। खतरों की सूचनाएँ रिकॉर्डिंग से मेल खाती हैं।" : "रीप्ले पूरा हुआ। खतरों की सूचनाएँ रिकॉर्डिंग से अलग हैं।"
+        },
+        rules: {
+            safety: ['सुरक्षित', 'खतरा', 'ध्यान दो'],
+            stop: ['रोको', 'बंद करो', 'रद्द करो', 'बंद'],
+            negations: ['मत', 'नहीं'],
+            notStop: ['बंद है', 'बंद हैं'],
+            navigationWords: ['नेविगेशन', 'रास्ता', 'रूट'],
+            walkingWords: ['चलना', 'चलने', 'मोड'],
+            start: ['शुरू', 'चालू'],
+            navigate: ['ले चलो', 'ले चलिए', 'जाना है', 'रास्ता बताओ'],
+            destinationPrefixes: [],
+            savePlacePrefixes: [], // Verb-final phrasing ("इस जगह को घर के नाम से सेव करो"); the model handles it
+            deletePlacePrefixes: [],
+            listPlaces: ['मेरी जगहें', 'सेव की गई जगहें'],
+            addContactPrefixes: ['नया आपातकालीन संपर्क', 'आपातकालीन संपर्क जोड़ो', 'संपर्क जोड़ो', 'संपर्क जोड़ें'],
+            removeContactPrefixes: ['आपातकालीन संपर्क हटाओ', 'संपर्क हटाओ', 'संपर्क हटाएं'],
+            listContacts: ['आपातकालीन संपर्क', 'मेरे संपर्क', 'किसे बताओगे'],
+            findObjectPrefixes: [], // Verb-final too ("मेरी चाबी ढूंढो"); the model handles it
+            foundIt: ['मिल गया', 'मिल गई', 'ढूंढना बंद करो'],
+            crossing: ['क्रॉसिंग मोड', 'सड़क पार', 'ज़ेब्रा क्रॉसिंग'],
+            crossed: ['पार कर लिया', 'पार हो गया'],
+            whereAmI: ['मैं कहाँ हूँ', 'मैं कहां हूं', 'लोकेशन', 'पता'],
+            read: ['पढ़ो', 'पढ़िए', 'क्या लिखा है', 'टेक्स्ट', 'दस्तावेज़'],
+            companion: ['साथी', 'साथ रहो', 'दोस्त बनो'],
+            off: ['बंद', 'रोको'],
+            newPicture: ['नई फोटो', 'नई तस्वीर', 'दूसरी फोटो', 'फिर से देखो'],
+            describe: ['बताओ क्या है', 'क्या दिख रहा है', 'सामने क्या है', 'आसपास क्या है', 'यह क्या है', 'वर्णन करो'],
+            detailed: ['विस्तार से', 'सब कुछ'],
+            brief: ['संक्षेप में', 'जल्दी से'],
+            handsFree: ['हैंड्स फ्री', 'बिना हाथ'],
+            haptics: ['सिर्फ कंपन', 'केवल कंपन', 'कंपन', 'वाइब्रेशन', 'साइलेंट मोड'],
+            hapticsTutorial: ['कंपन सिखाओ', 'वाइब्रेशन सिखाओ', 'कंपन का मतलब', 'वाइब्रेशन का मतलब'],
+            wakePhrasePrefixes: [], // Verb-final phrasing ("... रखो") doesn't fit prefix extraction; the model handles it
+            readerPause: ['ठहरो', 'पॉज़', 'पढ़ना बंद करो'],
+            readerResume: ['आगे पढ़ो', 'जारी रखो', 'पढ़ते रहो'],
+            readerBack: ['पीछे जाओ', 'पिछला पैराग्राफ'],
+            readerForward: ['अगला पैराग्राफ', 'छोड़ दो'],
+            readerRepeat: ['दोबारा पढ़ो', 'फिर से पढ़ो'],
+            readerRestart: ['शुरू से'],
+            readerSpell: [], // Verb-final too ("इस शब्द की स्पेलिंग बताओ"); the model handles it
+            readerThatWord: ['वह शब्द', 'यह शब्द'],
+            readerAddPage: ['अगला पन्ना', 'एक और पन्ना', 'नया पन्ना', 'अगला पेज'],
+            filler: ['कृपया', 'ज़रा', 'सुनो', 'sightmate', 'मुझे', 'अब'],
+            slower: ['धीरे बोलो', 'धीरे बोलिए', 'धीमे'],
+            faster: ['तेज़ बोलो', 'जल्दी बोलो', 'तेज बोलो'],
+            normalSpeed: ['सामान्य गति'],
+            differentVoice: ['दूसरी आवाज़', 'आवाज़ बदलो', 'आवाज बदलो'],
+            defaultVoice: ['सामान्य आवाज़'],
+            lessOften: ['कम बोलो', 'कम बार'],
+            moreOften: ['ज़्यादा बोलो', 'ज्यादा बार'],
+            waitLonger: ['और इंतज़ार करो', 'ज़्यादा समय'],
+            waitLess: ['कम इंतज़ार'],
+            moreSensitive: ['ज़्यादा संवेदनशील'],
+            lessSensitive: ['कम संवेदनशील'],
+            pathClearLess: ['रास्ता साफ़ मत बोलो'],
+            pathClearMore: ['रास्ता साफ़ ज़्यादा बोलो'],
+            languageSwitch: ['भाषा', 'में बोलो', 'में बात करो']
+        }
+    }
+};
+
+export const getLocale = (code: string | undefined): LocaleDefinition => {
+    return (code && LOCALES[code]) || LOCALES[DEFAULT_LOCALE];
+};
+
+export const isSupportedLocale = (code: unknown): code is string => {
+    return typeof code === 'string' && code in LOCALES;
+};
+
+// "switch to Spanish" / "habla en francés" -> 'es-ES' / 'fr-FR'. Names are matched across all locales.
+export const findLocaleByName = (text: string): string | null => {
+    const t = text.toLowerCase();
+    for (const locale of Object.values(LOCALES)) {
+        if (locale.names.some(name => t.includes(name))) return locale.code;
+    }
+    return null;
+};
+
+export const includesAny = (text: string, keywords: string[]): boolean => keywords.some(k => text.includes(k));
+
+// Like includesAny, but only whole words count: "si" in "sí, si" and not in "sin"
+export const includesWord = (text: string, keywords: string[]): boolean => {
+    const padded = ` ${text.toLowerCase().replace(/[.,!?¿¡;:"“”()।]/g, ' ').replace(/\s+/g, ' ')} `;
+    return keywords.some(k => padded.includes(` ${k} `));
+};
+
+// The answer to "Are you okay?". Anything negated or asking for help is danger, whatever else it says,
+// so "not ok" or "no estoy bien" never cancels an emergency. null when the answer says neither.
+export const classifyCheckReply = (text: string, localeCode: string): 'safe' | 'danger' | null => {
+    const locale = getLocale(localeCode);
+    if (includesWord(text, locale.noReplies) || includesWord(text, locale.dangerReplies)) return 'danger';
+    return includesWord(text, locale.safeReplies) ? 'safe' : null;
+};
+
+// A yes to a question like "Is that right?", and not "that's not right"
+export const isConfirmation = (text: string, localeCode: string): boolean => {
+    const locale = getLocale(localeCode);
+    return includesWord(text, locale.yesReplies) && !includesWord(text, locale.noReplies);
+};
@@ -0,0 +1,142 @@
+import { EmergencySeverity } from "../types";
+
+// MotionService watches DeviceMotionEvent for the classic fall signature:
+//   free-fall (near 0 g) -> impact spike -> lying still
+// It works with the phone in a pocket or in the dark, where the camera-based fall check can't see anything.
+
+const GRAVITY = 9.81;
+
+// Free-fall: total acceleration well below 1 g for a short moment
+const FREE_FALL_THRESHOLD = 0.35 * GRAVITY;
+const FREE_FALL_MIN_MS = 60;
+// Impact: a spike shortly after the free-fall
+const IMPACT_WINDOW_MS = 1000;
+const IMPACT_THRESHOLD = 2.5 * GRAVITY;
+const HARD_IMPACT_THRESHOLD = 3.5 * GRAVITY;
+// Stillness: close to 1 g (phone resting) for a while after the impact
+const STILLNESS_TOLERANCE = 0.15 * GRAVITY;
+const STILLNESS_DURATION_MS = 2000;
+const STILLNESS_WINDOW_MS = 4000; // Give up waiting for stillness after this long
+// Don't report the same fall twice
+const COOLDOWN_MS = 10000;
+
+type Phase = 'idle' | 'free_fall' | 'awaiting_impact' | 'awaiting_stillness';
+
+export class MotionService {
+    private onFallCallback: ((type: string, severity: EmergencySeverity) => void) | null = null;
+    private isActive: boolean = false;
+
+    private phase: Phase = 'idle';
+    private phaseStart: number = 0;
+    private impactMagnitude: number = 0;
+    private stillSince: number | null = null;
+    private lastReportAt: number = 0;
+
+    private handleMotion = (event: DeviceMotionEvent) => {
+        const a = event.accelerationIncludingGravity;
+        if (!a || a.x === null || a.y === null || a.z === null) return;
+        const magnitude = Math.sqrt(a.x * a.x + a.y * a.y + a.z * a.z);
+        this.processSample(magnitude, Date.now());
+    };
+
+    isSupported(): boolean {
+        return typeof window !== 'undefined' && 'DeviceMotionEvent' in window;
+    }
+
+    // iOS 13+ needs explicit permission, and it must be requested from a user gesture
+    async requestPermission(): Promise<boolean> {
+        const DeviceMotion = (window as any).DeviceMotionEvent;
+        if (DeviceMotion && typeof DeviceMotion.requestPermission === 'function') {
+            try {
+                return (await DeviceMotion.requestPermission()) === 'granted';
+            } catch (e) {
+                console.warn("Motion permission request failed:", e);
+                return false;
+            }
+        }
+        return true;
+    }
+
+    start(callback: (type: string, severity: EmergencySeverity) => void) {
+        this.onFallCallback = callback;
+        if (this.isActive || !this.isSupported()) return;
+        this.isActive = true;
+        this.reset();
+        window.addEventListener('devicemotion', this.handleMotion);
+    }
+
+    stop() {
+        if (!this.isActive) return;
+        this.isActive = false;
+        window.removeEventListener('devicemotion', this.handleMotion);
+    }
+
+    private reset() {
+        this.phase = 'idle';
+        this.impactMagnitude = 0;
+        this.stillSince = null;
+    }
+
+    private processSample(magnitude: number, now: number) {
+        switch (this.phase) {
+            case 'idle':
+                if (magnitude < FREE_FALL_THRESHOLD && now - this.lastReportAt > COOLDOWN_MS) {
+                    this.phase = 'free_fall';
+                    this.phaseStart = now;
+                }
+                break;
+
+            case 'free_fall':
+                if (magnitude < FREE_FALL_THRESHOLD) break;
+                // Free-fall ended: long enough to count, or just a jolt?
+                if (now - this.phaseStart >= FREE_FALL_MIN_MS) {
+                    this.phase = 'awaiting_impact';
+                    this.phaseStart = now;
+                    // The sample that ends the free-fall is often the impact itself
+                    this.processSample(magnitude, now);
+                } else {
+                    this.reset();
+                }
+                break;
+
+            case 'awaiting_impact':
+                if (magnitude >= IMPACT_THRESHOLD) {
+                    this.impactMagnitude = magnitude;
+                    this.phase = 'awaiting_stillness';
+                    this.phaseStart = now;
+                    this.stillSince = null;
+                } else if (now - this.phaseStart > IMPACT_WINDOW_MS) {
+                    this.reset();
+                }
+                break;
+
+            case 'awaiting_stillness':
+                // Track the peak of the impact (it can last a few samples)
+                this.impactMagnitude = Math.max(this.impactMagnitude, magnitude);
+
+                if (Math.abs(magnitude - GRAVITY) < STILLNESS_TOLERANCE) {
+                    if (this.stillSince === null) this.stillSince = now;
+                    if (now - this.stillSince >= STILLNESS_DURATION_MS) {
+                        this.report(this.impactMagnitude >= HARD_IMPACT_THRESHOLD ? 'high' : 'medium', now);
+                    }
+                } else {
+                    this.stillSince = null;
+                }
+
+                if (this.phase === 'awaiting_stillness' && now - this.phaseStart > STILLNESS_WINDOW_MS) {
+                    // Fell/dropped but moving again: the user may have caught themselves or picked the phone up
+                    this.report('low', now);
+                }
+                break;
+        }
+    }
+
+    private report(severity: EmergencySeverity, now: number) {
+        console.log(`Motion: Fall signature detected [${severity}] peak=${(this.impactMagnitude / GRAVITY).toFixed(1)}g`);
+        this.lastReportAt = now;
+        this.reset();
+        if (this.onFallCallback) this.onFallCallback('motion_fall', severity);
+    }
+}
+
+export const motionService = new MotionService();
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { GeoPoint, NavigationPlan } from '../types';
+import { OffRouteDetector, RouteProgress, formatDistance } from './navigationService';
+
+// Two maneuvers 100 m apart along a meridian (0.0009° of latitude is about 100 m)
+const plan: NavigationPlan = {
+    destination: 'the pharmacy',
+    steps: [
+        { instruction: 'Turn left onto Main Street.', maneuver: { latitude: 0.0009, longitude: 0 }, distanceMeters: 100 },
+        { instruction: 'Arrive at the pharmacy.', maneuver: { latitude: 0.0018, longitude: 0 }, distanceMeters: 100 }
+    ],
+    totalDistance: '',
+    totalTime: ''
+};
+
+describe('formatDistance', () => {
+    it('rounds and speaks in the chosen language', () => {
+        expect(formatDistance(43, 'en-US')).toBe('45 meters');
+        expect(formatDistance(1234, 'en-US')).toBe('1.2 kilometers');
+        expect(formatDistance(1234, 'de-DE')).toBe('1,2 Kilometer');
+        expect(formatDistance(120, 'es-ES')).toBe('100 metros');
+    });
+});
+
+describe('RouteProgress', () => {
+    it('announces steps in the chosen language', () => {
+        const spanish = { ...plan, steps: [{ ...plan.steps[0], instruction: 'Gira a la izquierda en la calle Mayor.' }, plan.steps[1]] };
+        const progress = new RouteProgress(spanish, 'es-ES');
+        const [event] = progress.update({ latitude: 0, longitude: 0 });
+        expect(event.type).toBe('continue');
+        expect(event.text).toBe('Sigue 100 metros y luego gira a la izquierda en la calle Mayor.');
+    });
+});
+
+// A street that bends through a quarter circle of about 200 m radius, from (0, 0) to (0.0018, 0.0018)
+const RADIUS = 0.0018;
+const onBend = (degrees: number): GeoPoint => {
+    const angle = degrees * Math.PI / 180;
+    return { latitude: RADIUS * Math.sin(angle), longitude: RADIUS - RADIUS * Math.cos(angle) };
+};
+const bend: NavigationPlan = {
+    destination: 'the park',
+    steps: [
+        { instruction: 'Start walking.', maneuver: onBend(0), distanceMeters: 0 },
+        { instruction: 'Arrive at the park.', maneuver: onBend(90), distanceMeters: 314 }
+    ],
+    path: Array.from({ length: 19 }, (_, i) => onBend(i * 5)),
+    totalDistance: '',
+    totalTime: ''
+};
+
+describe('OffRouteDetector', () => {
+    it('follows the street around a bend', () => {
+        const halfway = onBend(45);
+        expect(new OffRouteDetector(bend).distanceFromRoute(halfway, 1)).toBeLessThan(5);
+        // Straight between the two maneuvers the same spot is well over the off-route distance
+        expect(new OffRouteDetector({ ...bend, path: undefined }).distanceFromRoute(halfway, 1)).toBeGreaterThan(40);
+
+        const detector = new OffRouteDetector(bend);
+        for (let t = 0; t <= 20000; t += 2000) expect(detector.update(halfway, 1, 5, t)).toBeNull();
+    });
+
+    it('calls off route only after sustained deviation, and not again during the cooldown', () => {
+        const detector = new OffRouteDetector(bend);
+        const away = { latitude: 0.0009, longitude: -0.001 }; // About 110 m west of the street
+        const now = 100000;
+        expect(detector.update(away, 1, 5, now)).toBeNull();
+        expect(detector.update(away, 1, 5, now + 4000)).toBeNull();
+        expect(detector.update(away, 1, 5, now + 8000)).toBe('off_route');
+        expect(detector.update(onBend(30), 1, 5, now + 10000)).toBe('back_on_route');
+
+        for (let t = now + 12000; t <= now + 24000; t += 4000) expect(detector.update(away, 1, 5, t)).toBeNull();
+    });
+});
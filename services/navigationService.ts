@@ -0,0 +1,243 @@
+import { GeoPoint, NavigationPlan, NavigationStep } from "../types";
+import { getLocale } from "./locales";
+
+// Route progress tracking for GPS-driven navigation.
+// Feed it positions from navigator.geolocation.watchPosition and it tells you what to announce and when to advance.
+
+// Announce the upcoming maneuver once we're this close
+const APPROACH_DISTANCE_M = 30;
+// Consider the maneuver point reached inside this radius
+const ARRIVAL_RADIUS_M = 10;
+// If we got this close and are now moving away again, we walked past the point (GPS missed the arrival radius)
+const PASSED_RADIUS_M = 25;
+const PASSED_MARGIN_M = 8;
+// Ignore fixes worse than this; they cause false arrivals
+const MAX_ACCURACY_M = 50;
+
+// Off-route hysteresis: must be this far off for this many consecutive fixes and this long before we call it
+const OFF_ROUTE_DISTANCE_M = 40;
+const OFF_ROUTE_MIN_FIXES = 3;
+const OFF_ROUTE_MIN_DURATION_MS = 8000;
+// ...and must come back inside this distance to count as back on route
+const BACK_ON_ROUTE_DISTANCE_M = 20;
+// Minimum time between two reroutes
+const REROUTE_COOLDOWN_MS = 30000;
+
+const EARTH_RADIUS_M = 6371000;
+
+export const distanceMeters = (a: GeoPoint, b: GeoPoint): number => {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(b.latitude - a.latitude);
+    const dLon = toRad(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Distance from a point to the segment a-b, using a local flat projection around the point
+export const distanceToSegmentMeters = (p: GeoPoint, a: GeoPoint, b: GeoPoint): number => {
+    const metersPerDegLat = 111320;
+    const metersPerDegLon = 111320 * Math.cos(p.latitude * Math.PI / 180);
+    const ax = (a.longitude - p.longitude) * metersPerDegLon, ay = (a.latitude - p.latitude) * metersPerDegLat;
+    const bx = (b.longitude - p.longitude) * metersPerDegLon, by = (b.latitude - p.latitude) * metersPerDegLat;
+    const dx = bx - ax, dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+    const cx = ax + t * dx, cy = ay + t * dy;
+    return Math.sqrt(cx * cx + cy * cy);
+};
+
+// "45" -> "45 meters", rounded so the speech doesn't sound robotic
+export const formatDistance = (meters: number, localeCode: string): string => {
+    const phrases = getLocale(localeCode).phrases;
+    if (meters >= 1000) return phrases.kilometers(Math.round(meters / 100) / 10);
+    const rounded = meters >= 100 ? Math.round(meters / 50) * 50 : Math.max(5, Math.round(meters / 5) * 5);
+    return phrases.meters(rounded);
+};
+
+// "Turn left onto Main Street." -> "turn left onto Main Street"
+const asClause = (instruction: string): string => {
+    const trimmed = instruction.trim().replace(/[.!]+$/, '');
+    return trimmed.charAt(0).toLowerCase() + trimmed.slice(1);
+};
+
+export type RouteEvent =
+    | { type: 'continue'; step: NavigationStep; index: number; text: string }
+    | { type: 'approach'; step: NavigationStep; index: number; text: string }
+    | { type: 'maneuver'; step: NavigationStep; index: number; text: string }
+    | { type: 'arrived'; text: string };
+
+// The part of a plan that GPS progress can be measured against. Map-routed plans are tracked step by step.
+// An estimated plan's points are the model's guesses, so only a saved place's exact point is tracked (for arrival);
+// without one there is nothing to track.
+export const trackablePlan = (plan: NavigationPlan): NavigationPlan | null => {
+    if (!plan.estimated) return plan;
+    if (!plan.destinationPoint || plan.steps.length === 0) return null;
+    const last = plan.steps[plan.steps.length - 1];
+    return { ...plan, steps: [{ instruction: last.instruction, maneuver: { ...plan.destinationPoint }, distanceMeters: 0 }] };
+};
+
+export class RouteProgress {
+    private plan: NavigationPlan;
+    private localeCode: string;
+    private index: number = 0;
+    private announcedContinue: boolean = false;
+    private announcedApproach: boolean = false;
+    private closestDistance: number = Infinity;
+    private finished: boolean = false;
+
+    constructor(plan: NavigationPlan, localeCode: string, startIndex: number = 0) {
+        this.plan = plan;
+        this.localeCode = localeCode;
+        this.index = startIndex;
+    }
+
+    get stepIndex(): number {
+        return this.index;
+    }
+
+    get isFinished(): boolean {
+        return this.finished;
+    }
+
+    get currentStep(): NavigationStep | null {
+        return this.plan.steps[this.index] || null;
+    }
+
+    // Returns the announcements triggered by this fix, in order. Advancing past a maneuver is reflected in stepIndex.
+    update(position: GeoPoint, accuracy: number = 0): RouteEvent[] {
+        const events: RouteEvent[] = [];
+        const phrases = getLocale(this.localeCode).phrases;
+        if (this.finished || accuracy > MAX_ACCURACY_M) return events;
+
+        // Several maneuvers can be reached by a single fix (closely spaced points, or a jump after a GPS gap)
+        while (!this.finished) {
+            const step = this.currentStep;
+            if (!step) {
+                this.finished = true;
+                events.push({ type: 'arrived', text: phrases.arrived });
+                break;
+            }
+
+            const distance = distanceMeters(position, step.maneuver);
+            const passed = this.closestDistance <= PASSED_RADIUS_M && distance > this.closestDistance + PASSED_MARGIN_M;
+            this.closestDistance = Math.min(this.closestDistance, distance);
+
+            if (distance <= ARRIVAL_RADIUS_M || passed) {
+                const isLast = this.index === this.plan.steps.length - 1;
+                if (!isLast) events.push({ type: 'maneuver', step, index: this.index, text: step.instruction });
+                this.advance();
+                continue;
+            }
+
+            if (distance <= APPROACH_DISTANCE_M) {
+                if (!this.announcedApproach) {
+                    this.announcedApproach = true;
+                    this.announcedContinue = true;
+                    events.push({ type: 'approach', step, index: this.index, text: phrases.approaching(formatDistance(distance, this.localeCode), asClause(step.instruction)) });
+                }
+            } else if (!this.announcedContinue) {
+                this.announcedContinue = true;
+                events.push({ type: 'continue', step, index: this.index, text: phrases.continueFor(formatDistance(distance, this.localeCode), asClause(step.instruction)) });
+            }
+            break;
+        }
+
+        return events;
+    }
+
+    private advance() {
+        this.index++;
+        this.announcedContinue = false;
+        this.announcedApproach = false;
+        this.closestDistance = Infinity;
+    }
+}
+
+export type DeviationEvent = 'off_route' | 'back_on_route';
+
+// Index of each step's maneuver point on the route line. Maneuvers come in order along it,
+// so each search starts where the previous one was found.
+const locateSteps = (line: GeoPoint[], steps: NavigationStep[]): number[] => {
+    let from = 0;
+    return steps.map(step => {
+        let best = from;
+        let bestDistance = Infinity;
+        for (let i = from; i < line.length; i++) {
+            const distance = distanceMeters(step.maneuver, line[i]);
+            if (distance < bestDistance) {
+                best = i;
+                bestDistance = distance;
+            }
+        }
+        from = best;
+        return best;
+    });
+};
+
+// Watches the distance between the user and the remaining route geometry.
+// Hysteresis (distance band + consecutive fixes + minimum duration + cooldown) keeps GPS jitter from causing reroute storms.
+export class OffRouteDetector {
+    // The street geometry when the router gave one; straight lines between maneuvers would cut every bend
+    private line: GeoPoint[];
+    private stepStarts: number[]; // Where each step's maneuver point lies on line
+    private offRouteFixes: number = 0;
+    private offRouteSince: number | null = null;
+    private isOffRoute: boolean = false;
+    private lastRerouteAt: number = 0;
+
+    constructor(plan: NavigationPlan, lastRerouteAt: number = 0) {
+        this.line = plan.path && plan.path.length >= 2 ? plan.path : plan.steps.map(s => s.maneuver);
+        this.stepStarts = locateSteps(this.line, plan.steps);
+        this.lastRerouteAt = lastRerouteAt;
+    }
+
+    get lastReroute(): number {
+        return this.lastRerouteAt;
+    }
+
+    // Closest distance from the position to the route, starting at the leg that leads into stepIndex
+    distanceFromRoute(position: GeoPoint, stepIndex: number): number {
+        const line = this.line;
+        if (line.length === 0) return 0;
+        if (line.length === 1) return distanceMeters(position, line[0]);
+
+        const start = stepIndex > 0 ? this.stepStarts[Math.min(stepIndex, this.stepStarts.length) - 1] : 0;
+        let best = Infinity;
+        for (let i = start + 1; i < line.length; i++) {
+            best = Math.min(best, distanceToSegmentMeters(position, line[i - 1], line[i]));
+        }
+        return best === Infinity ? distanceMeters(position, line[line.length - 1]) : best;
+    }
+
+    update(position: GeoPoint, stepIndex: number, accuracy: number = 0, now: number = Date.now()): DeviationEvent | null {
+        if (accuracy > MAX_ACCURACY_M) return null;
+
+        const distance = this.distanceFromRoute(position, stepIndex);
+        // A poor fix needs a larger deviation before we believe it
+        const offThreshold = Math.max(OFF_ROUTE_DISTANCE_M, accuracy * 1.5);
+
+        if (distance <= BACK_ON_ROUTE_DISTANCE_M) {
+            this.offRouteFixes = 0;
+            this.offRouteSince = null;
+            if (this.isOffRoute) {
+                this.isOffRoute = false;
+                return 'back_on_route';
+            }
+            return null;
+        }
+
+        if (distance < offThreshold) return null; // Inside the hysteresis band: keep the current state
+
+        this.offRouteFixes++;
+        if (this.offRouteSince === null) this.offRouteSince = now;
+
+        const sustained = this.offRouteFixes >= OFF_ROUTE_MIN_FIXES && now - this.offRouteSince >= OFF_ROUTE_MIN_DURATION_MS;
+        if (!sustained || now - this.lastRerouteAt < REROUTE_COOLDOWN_MS) return null;
+
+        this.isOffRoute = true;
+        this.lastRerouteAt = now;
+        this.offRouteFixes = 0;
+        this.offRouteSince = null;
+        return 'off_route';
+    }
+}
@@ -0,0 +1,129 @@
+import { ObjectSighting } from "../types";
+import { DEFAULT_LOCALE, getLocale } from "./locales";
+
+// ObjectSearch turns per-frame sightings of a searched-for object ("find my keys") into spoken guidance:
+// which way to turn, whether the user is getting closer, and when it is within reach.
+// Guidance is only spoken when it changes or has gone unrepeated for a while, so the user isn't talked over.
+
+export interface SearchStep {
+    say: string | null; // Guidance to speak now
+    done: boolean;      // The search is over (found or given up)
+    found: boolean;
+}
+
+// Within reach and centred on this many frames in a row before declaring it found
+const FOUND_AFTER_FRAMES = 2;
+// Sightings below this confidence count as misses
+const MIN_CONFIDENCE = 0.5;
+// After this many misses in a row, a seen object is reported as lost
+const LOST_AFTER_FRAMES = 3;
+// Say the same guidance again only after this long
+const REPEAT_AFTER_MS = 4000;
+// Nudge the user to keep scanning when nothing has been said for this long
+const SCAN_PROMPT_MS = 6000;
+// Give up after this long
+const SEARCH_TIMEOUT_MS = 90000;
+
+const DISTANCE_RANK: Record<ObjectSighting['distance'], number> = { far: 0, near: 1, within_reach: 2 };
+
+// "keys" -> "the keys"; "my cup" -> "your cup"
+export const describeTarget = (target: string, localeCode: string): string => getLocale(localeCode).phrases.searchTarget(target.trim());
+
+export class ObjectSearch {
+    private target: string | null = null;
+    private localeCode = DEFAULT_LOCALE;
+    private startedAt = 0;
+    private lastSighting: ObjectSighting | null = null; // Last frame the object was seen in
+    private missedFrames = 0;
+    private foundFrames = 0;
+    private lastSaid: { text: string; at: number } | null = null;
+
+    get isActive(): boolean {
+        return this.target !== null;
+    }
+
+    getTarget(): string | null {
+        return this.target;
+    }
+
+    start(target: string, localeCode: string, now: number = Date.now()) {
+        this.target = target;
+        this.localeCode = localeCode;
+        this.startedAt = now;
+        this.lastSighting = null;
+        this.missedFrames = 0;
+        this.foundFrames = 0;
+        this.lastSaid = { text: '', at: now }; // The "Looking for ..." announcement counts as guidance
+    }
+
+    stop() {
+        this.target = null;
+        this.lastSighting = null;
+    }
+
+    // Feed the result of one analysed frame (null = the model failed on this frame)
+    update(sighting: ObjectSighting | null, now: number = Date.now()): SearchStep {
+        if (!this.target) return { say: null, done: true, found: false };
+        const phrases = getLocale(this.localeCode).phrases;
+        const name = describeTarget(this.target, this.localeCode);
+
+        if (now - this.startedAt > SEARCH_TIMEOUT_MS) {
+            this.stop();
+            return { say: phrases.searchGaveUp(name), done: true, found: false };
+        }
+
+        const seen = sighting !== null && sighting.found && sighting.confidence >= MIN_CONFIDENCE;
+        if (!seen) {
+            this.foundFrames = 0;
+            this.missedFrames++;
+            if (this.lastSighting && this.missedFrames === LOST_AFTER_FRAMES) {
+                const wasAt = this.lastSighting.horizontal;
+                return this.speak(phrases.searchLost(name, wasAt === 'center' ? 'center' : wasAt.includes('left') ? 'left' : 'right'), now);
+            }
+            if (!this.lastSighting || this.missedFrames > LOST_AFTER_FRAMES) {
+                return this.nudge(phrases.searchStill(name), now);
+            }
+            return { say: null, done: false, found: false };
+        }
+
+        const previous = this.lastSighting;
+        const recovered = this.missedFrames >= LOST_AFTER_FRAMES;
+        this.lastSighting = sighting;
+        this.missedFrames = 0;
+
+        const inReach = sighting.distance === 'within_reach' && sighting.horizontal === 'center';
+        this.foundFrames = inReach ? this.foundFrames + 1 : 0;
+        if (this.foundFrames >= FOUND_AFTER_FRAMES) {
+            this.stop();
+            return { say: phrases.searchFound(name, phrases.searchVertical[sighting.vertical]), done: true, found: true };
+        }
+
+        const where = `${phrases.searchHorizontal[sighting.horizontal]}${phrases.searchVertical[sighting.vertical]}`;
+        if (!previous || recovered) {
+            return this.speak(phrases.searchSee(name, where), now);
+        }
+        const closer = DISTANCE_RANK[sighting.distance] > DISTANCE_RANK[previous.distance];
+        return this.guide(phrases.searchGuide(where, closer, sighting.distance === 'far'), now);
+    }
+
+    private speak(text: string, now: number): SearchStep {
+        this.lastSaid = { text, at: now };
+        return { say: text, done: false, found: false };
+    }
+
+    // Directions: spoken when they change, or repeated once they've gone unsaid for a while
+    private guide(text: string, now: number): SearchStep {
+        const last = this.lastSaid;
+        if (last && last.text === text && now - last.at < REPEAT_AFTER_MS) return { say: null, done: false, found: false };
+        return this.speak(text, now);
+    }
+
+    // Encouragement while nothing is in view: only after a stretch of silence
+    private nudge(text: string, now: number): SearchStep {
+        const last = this.lastSaid;
+        if (last && now - last.at < SCAN_PROMPT_MS) return { say: null, done: false, found: false };
+        return this.speak(text, now);
+    }
+}
+
+export const objectSearch = new ObjectSearch();
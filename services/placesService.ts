@@ -0,0 +1,79 @@
+import { SavedPlace } from "../types";
+
+// PlacesService keeps the user's named destinations ("home", "work") on the device, so
+// "take me home" plans to the exact saved coordinates instead of whatever the words geocode to.
+
+const PLACES_STORAGE_KEY = 'sightmate.savedPlaces';
+
+const generateId = (): string => {
+    return typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+// "My Home." / "the gym" / "home" all refer to the same place
+export const normalizeLabel = (label: string): string => label
+    .toLowerCase()
+    .replace(/[.,!?¿¡"“”]/g, '')
+    .replace(/^\s*(my|the|mi|mon|ma|mein|meine|meinen|el|la|le)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export class PlacesService {
+    private places: SavedPlace[] = [];
+
+    constructor() {
+        this.load();
+    }
+
+    private load() {
+        try {
+            const stored = localStorage.getItem(PLACES_STORAGE_KEY);
+            if (stored) this.places = JSON.parse(stored);
+        } catch (e) {
+            console.warn("Saved places could not be loaded:", e);
+            this.places = [];
+        }
+    }
+
+    private save() {
+        try {
+            localStorage.setItem(PLACES_STORAGE_KEY, JSON.stringify(this.places));
+        } catch (e) {
+            console.warn("Saved places could not be saved:", e);
+        }
+    }
+
+    list(): SavedPlace[] {
+        return [...this.places];
+    }
+
+    find(label: string): SavedPlace | null {
+        const key = normalizeLabel(label);
+        return key ? this.places.find(p => normalizeLabel(p.label) === key) || null : null;
+    }
+
+    // Saving under an existing label moves that place
+    savePlace(label: string, coords: { latitude: number; longitude: number; accuracy: number }): SavedPlace {
+        const existing = this.find(label);
+        const place: SavedPlace = {
+            id: existing?.id || generateId(),
+            label: normalizeLabel(label),
+            latitude: coords.latitude,
+            longitude: coords.longitude,
+            accuracy: coords.accuracy,
+            savedAt: Date.now()
+        };
+        this.places = existing ? this.places.map(p => p.id === existing.id ? place : p) : [...this.places, place];
+        this.save();
+        return place;
+    }
+
+    removePlace(label: string): SavedPlace | null {
+        const existing = this.find(label);
+        if (!existing) return null;
+        this.places = this.places.filter(p => p.id !== existing.id);
+        this.save();
+        return existing;
+    }
+}
+
+export const placesService = new PlacesService();
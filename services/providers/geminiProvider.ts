@@ -0,0 +1,686 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { CrossingObservation, DocumentFraming, GeoPoint, IntentContext, IntentResult, IntentType, NavigationPlan, ObjectSighting, RequestClass, VisionProvider, VisualExchange, WalkingHazard } from "../../types";
+import { parseIntent } from "../intentParser";
+import { requestScheduler } from "../requestScheduler";
+import { LOCALES, LocaleDefinition, getLocale } from "../locales";
+import { settingsService } from "../settingsService";
+import { formatDistance } from "../navigationService";
+import { RoutedWalk, describeStep, routingService } from "../routingService";
+
+const modelName = 'gemini-2.5-flash';
+
+// Local parses at or above this confidence are trusted without asking the model
+const LOCAL_PARSE_THRESHOLD = 0.85;
+// With a recent picture these may really be follow-up questions, so the model decides
+const VISUAL_INTENTS = [IntentType.DESCRIBE, IntentType.READ_TEXT, IntentType.SAFETY_CHECK];
+
+// Created on first use so the app can boot without a key when the local provider is active
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+    if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return client;
+};
+
+// Every request goes through the scheduler, which tracks rate, latency and quota errors across the app
+const generateContent = (requestClass: RequestClass, model: string, params: any): Promise<any> =>
+    requestScheduler.run(requestClass, () => getClient().models.generateContent({ model, ...params }));
+
+// Worth retrying: quota, overload and server errors (not e.g. 400 Bad Request)
+const isRecoverableError = (error: any): boolean =>
+    error.status === 429 || error.status === 503 || error.status === 500 || error.message?.includes('quota') || error.message?.includes('Overloaded');
+
+// Helper: Exponential Backoff Retry
+const generateContentWithRetry = async (model: string, params: any, requestClass: RequestClass = 'interactive', retryCount = 3): Promise<any> => {
+    let delay = 1000;
+    for (let i = 0; i < retryCount; i++) {
+        try {
+            return await generateContent(requestClass, model, params);
+        } catch (error: any) {
+             // If it's not a recoverable error, throw immediately
+             if (!isRecoverableError(error) || i === retryCount - 1) {
+                 throw error;
+             }
+             
+             console.warn(`Gemini API Error (${error.status || 'unknown'}). Retrying in ${delay}ms...`);
+             await new Promise(resolve => setTimeout(resolve, delay));
+             delay *= 2; // Exponential backoff
+        }
+    }
+};
+
+// Streaming variant: passes each piece of text on as it arrives and resolves with the whole answer.
+// Retried like above, but only until the first text has gone out; after that the user has heard part of the
+// answer, so a failure ends it with what was received.
+const streamContentWithRetry = async (model: string, params: any, onText: (delta: string) => void, signal?: AbortSignal, requestClass: RequestClass = 'interactive', retryCount = 3): Promise<string> => {
+    let delay = 1000;
+    for (let i = 0; ; i++) {
+        let text = '';
+        try {
+            return await requestScheduler.run(requestClass, async () => {
+                const stream = await getClient().models.generateContentStream({ model, ...params, config: { ...params.config, abortSignal: signal } });
+                for await (const chunk of stream) {
+                    const delta = chunk.text ?? '';
+                    if (!delta) continue;
+                    text += delta;
+                    onText(delta);
+                }
+                return text;
+            });
+        } catch (error: any) {
+            if (signal?.aborted) throw new Error("Aborted");
+            if (text) {
+                console.warn("Gemini stream broke off. Keeping the partial answer.", error);
+                return text;
+            }
+            if (!isRecoverableError(error) || i === retryCount - 1) throw error;
+
+            console.warn(`Gemini API Error (${error.status || 'unknown'}). Retrying in ${delay}ms...`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            delay *= 2;
+        }
+    }
+};
+
+// 1. Natural Language Understanding (NLU)
+const classifyIntent = async (transcript: string, signal?: AbortSignal, context?: IntentContext): Promise<IntentResult> => {
+  if (signal?.aborted) throw new Error("Aborted");
+
+  const locale = getLocale(settingsService.get().locale);
+
+  // Obvious commands ("stop", "take me to the pharmacy") skip the network round trip
+  const local = parseIntent(transcript, locale.code, context);
+  if (local && local.confidence >= LOCAL_PARSE_THRESHOLD && !(context?.hasVisualContext && VISUAL_INTENTS.includes(local.type))) {
+    return local;
+  }
+
+  // Follow-ups only make sense while there is a recent picture to ask about
+  const followUpIntents = context?.hasVisualContext ? `
+    6. FOLLOW_UP_INTENTS (the user just heard a description of a picture):
+       - FOLLOW_UP: A question about that same picture: "What colour is the door?", "Is there anything on the table?",
+         "What's on the left?", "How many people are there?".
+       - NEW_PICTURE: "New picture", "Take another photo", "Look again".
+       Prefer FOLLOW_UP over DESCRIBE unless the user clearly wants a new look.
+  ` : '';
+  const readerIntents = context?.hasDocument ? `
+    7. READER_INTENTS (a document is being read aloud, sentence by sentence):
+       - READER_CONTROL: Moving around that document. Set "readerAction" to one of:
+         pause ("Pause", "Hold on"), resume ("Continue", "Keep reading"), back ("Go back a paragraph"),
+         forward ("Skip this paragraph"), repeat ("Read that again"), restart ("Read from the top"),
+         spell ("Spell that word", or "Spell [word]" with "value" set to the word), add_page ("Add another page", "Next page").
+       Questions about what the document says are FOLLOW_UP.
+  ` : '';
+  const prompt = `
+    Classify the user's voice command into one of these categories.
+    The user usually speaks ${locale.language}, but may use any language. Examples are in English.
+
+    1. COMPANION_INTENTS:
+       - COMPANION_MODE_ON: "Start companion mode", "Stay with me", "Talk to me", "Be my friend".
+       - COMPANION_MODE_OFF: "Stop companion mode", "Quiet mode", "Leave me alone".
+
+    2. VISUAL_INTENTS (Requires Camera):
+       - DESCRIBE: "What is this?", "Describe the scene".
+       - READ_TEXT: "Read this", "Read the document", "Read the page", "What does this say?", "Read what's in front of me".
+       - SAFETY_CHECK: "Is it safe?", "Check for cars".
+       - WHERE_AM_I: "Where am I?", "What is my location?".
+       - FIND_OBJECT: "Find my keys", "Where is my cup?", "Help me find the door handle". Set "target" to the object, in the user's words.
+       - STOP_SEARCH: "Found it", "Stop looking" (only while searching).
+
+    3. NAVIGATION_INTENTS:
+       - NAVIGATE: "Take me to [Place]", "Go to [Place]".
+       - STOP_NAVIGATION: "Stop navigation", "Cancel route".
+       - SAVE_PLACE: "Save this place as home", "Remember this spot as work". Set "placeLabel" to the name.
+       - LIST_PLACES: "What are my saved places?", "List my places".
+       - DELETE_PLACE: "Delete the place work", "Forget the place gym". Set "placeLabel" to the name.
+       - ADD_CONTACT: "Add emergency contact Sam". Set "contactName" to the name.
+       - REMOVE_CONTACT: "Remove emergency contact Sam". Set "contactName" to the name.
+       - LIST_CONTACTS: "Who are my emergency contacts?".
+
+    4. CONTROL_INTENTS:
+       - WALKING_MODE_ON: "Start walking mode".
+       - WALKING_MODE_OFF: "Stop walking mode".
+       - CROSSING_MODE_ON: "Help me cross the street", "Start crossing mode".
+       - CROSSING_MODE_OFF: "Stop crossing mode", "I've crossed" (only while crossing).
+       - HANDS_FREE_ON: "Turn on hands-free", "Listen for my wake word".
+       - HANDS_FREE_OFF: "Turn off hands-free", "Stop listening for the wake word".
+       - HAPTICS_ONLY_ON: "Vibrations only", "Vibrate instead of talking", "Silent mode".
+       - HAPTICS_ONLY_OFF: "Turn off vibrations only", "Talk to me again".
+       - HAPTICS_TUTORIAL: "Teach me the vibrations", "What do the vibrations mean?".
+
+    5. SETTINGS_INTENTS:
+       - CHANGE_SETTING: "Speak slower", "Talk faster", "Use a different voice", "Talk to me less often",
+         "Wait longer before you stop listening", "Be less sensitive to noise", "Stop saying path clear".
+         Set "setting" to one of: speech_rate, voice, companion_interval, silence_timeout, noise_sensitivity, path_clear_frequency.
+         Set "adjustment" to increase, decrease, next (another voice) or reset (back to default).
+         "Less often" means increase companion_interval. "Less sensitive" means decrease noise_sensitivity.
+       - "Switch to Spanish", "Speak French": setting=language, adjustment=next, and "locale" to the matching code.
+       - "Change the wake phrase to hello buddy": setting=wake_phrase, adjustment=next, and "value" to the new phrase.
+${followUpIntents}${readerIntents}
+
+    Keep "destination" in the user's own words and language.
+    A bare "stop" means CROSSING_MODE_OFF while crossing, STOP_SEARCH while searching for an object, STOP_NAVIGATION while navigating, otherwise WALKING_MODE_OFF while walking.
+    Right now the user is ${context?.isCrossing ? 'crossing a street' : context?.isSearching ? 'searching for an object' : context?.isNavigating ? 'navigating' : context?.isWalking ? 'in walking mode' : 'not navigating or walking'}.
+
+    User said: "${transcript}"
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      intent: { type: Type.STRING, enum: Object.values(IntentType) },
+      destination: { type: Type.STRING },
+      placeLabel: { type: Type.STRING },
+      contactName: { type: Type.STRING },
+      target: { type: Type.STRING },
+      detailLevel: { type: Type.STRING, enum: ['simple', 'detailed'] },
+      setting: { type: Type.STRING, enum: ['speech_rate', 'voice', 'companion_interval', 'silence_timeout', 'noise_sensitivity', 'path_clear_frequency', 'language', 'wake_phrase'] },
+      adjustment: { type: Type.STRING, enum: ['increase', 'decrease', 'next', 'reset'] },
+      locale: { type: Type.STRING, enum: Object.keys(LOCALES) },
+      value: { type: Type.STRING },
+      readerAction: { type: Type.STRING, enum: ['pause', 'resume', 'back', 'forward', 'repeat', 'restart', 'spell', 'add_page'] },
+    },
+    required: ['intent'],
+  };
+
+  try {
+    const result = await generateContentWithRetry(modelName, {
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+        temperature: 0.1, 
+      }
+    });
+
+    if (signal?.aborted) throw new Error("Aborted");
+
+    const json = JSON.parse(result.text || "{}");
+    return {
+      type: json.intent as IntentType,
+      confidence: 1,
+      originalQuery: transcript,
+      detailLevel: json.detailLevel || 'simple',
+      destination: json.destination,
+      placeLabel: json.placeLabel,
+      contactName: json.contactName,
+      target: json.target,
+      setting: json.setting,
+      adjustment: json.adjustment,
+      locale: json.locale,
+      value: json.value,
+      readerAction: json.readerAction
+    };
+
+  } catch (error) {
+    if (signal?.aborted || (error as Error).message === "Aborted") {
+        throw new Error("Aborted");
+    }
+    console.warn("NLU Error (Gemini):", error);
+    
+    // FALLBACK: Use the local parser at whatever confidence if API fails (Rate Limit / Offline)
+    if (local) {
+        return local;
+    }
+    if (context?.hasVisualContext) return { type: IntentType.FOLLOW_UP, confidence: 0.5, originalQuery: transcript };
+
+    // Default safe fallback
+    return { type: IntentType.DESCRIBE, confidence: 0.5, originalQuery: transcript }; 
+  }
+};
+
+// 2. Vision Analysis (Q&A)
+const analyzeImage = async (base64Image: string, intent: IntentResult, location?: GeolocationCoordinates, signal?: AbortSignal, onText?: (delta: string) => void): Promise<string> => {
+  if (signal?.aborted) throw new Error("Aborted");
+
+  let systemInstruction = "You are SightMate, a gentle and supportive anime-style assistant. Respond with 2-4 clear, informative sentences. Be warm and encouraging.";
+  let promptText = "";
+  let temperature = 0.5;
+  const language = getLocale(settingsService.get().locale).language;
+
+  const base64Data = base64Image.split(',')[1]; 
+
+  switch (intent.type) {
+    case IntentType.WHERE_AM_I:
+      promptText = `Tell me exactly where I am in 2-3 sentences. (GPS: ${location ? `${location.latitude},${location.longitude}` : 'Unknown'})`;
+      break;
+    
+    case IntentType.SAFETY_CHECK:
+      promptText = `Scan for danger. Describe the path's safety in 2-3 sentences.`;
+      break;
+    
+    case IntentType.READ_TEXT:
+      // Special Document Reading Mode
+      systemInstruction = "You are a precise Document Reading Assistant. Your task is to perform OCR and read text exactly as it appears. Do not summarize unless explicitly asked. Do not add descriptions of the image.";
+      temperature = 0.1; // Low temp for accuracy
+      promptText = `
+        Read the text in this image.
+        
+        Rules:
+        1. If the text is hard to see (blur, low light), return EXACTLY: "I’m having trouble reading this. Please hold the phone steady and make sure there is enough light."
+           If the text runs past an edge of the image, read what you can, then end with a line saying which edge, e.g. "The page is cut off at the bottom."
+        2. If there is NO visible text, return EXACTLY: "I don’t see any readable text here."
+        3. If text IS found, return ONLY the text content. Read it in natural order (top to bottom).
+        4. Do NOT say "The text says". Just output the text.
+        5. Separate paragraphs with a blank line. Join lines that only wrap within a paragraph; keep real line breaks (addresses, lists) as single line breaks.
+        6. Keep the text in its original language. Only the messages in rules 1 and 2 are said in ${language}.
+      `;
+      break;
+      
+    case IntentType.DESCRIBE:
+    default:
+      promptText = `Describe the scene in 3-4 warm, informative sentences. User asked: "${intent.originalQuery}"`;
+      break;
+  }
+
+  // Reading keeps the document's own language; everything else answers in the user's language
+  if (intent.type !== IntentType.READ_TEXT) systemInstruction += ` Always respond in ${language}.`;
+
+  const config: any = {
+    systemInstruction: systemInstruction,
+    temperature: temperature,
+  };
+
+  // Add Maps Tool for Location if needed
+  if (intent.type === IntentType.WHERE_AM_I && location) {
+       config.tools = [{googleMaps: {}}];
+       config.toolConfig = { retrievalConfig: { latLng: { latitude: location.latitude, longitude: location.longitude } } };
+  }
+
+  const params = {
+    contents: {
+      parts: [
+        { inlineData: { mimeType: 'image/jpeg', data: base64Data } },
+        { text: promptText }
+      ]
+    },
+    config: config
+  };
+  const requestClass: RequestClass = intent.type === IntentType.SAFETY_CHECK ? 'urgent' : 'interactive'; // "Is it safe?" never waits for a cooldown
+
+  try {
+    if (onText) {
+      const text = await streamContentWithRetry(modelName, params, onText, signal, requestClass);
+      if (signal?.aborted) throw new Error("Aborted");
+      return text || getLocale(settingsService.get().locale).phrases.couldntSee;
+    }
+
+    const response = await generateContentWithRetry(modelName, params, requestClass);
+
+    if (signal?.aborted) throw new Error("Aborted");
+    return response.text || getLocale(settingsService.get().locale).phrases.couldntSee;
+
+  } catch (error) {
+    if (signal?.aborted || (error as Error).message === "Aborted") throw error;
+    // If quota exceeded, give a specific message
+    const phrases = getLocale(settingsService.get().locale).phrases;
+    if ((error as any).status === 429) return phrases.overloaded;
+    return phrases.connectionError;
+  }
+};
+
+// 2b. Follow-up questions about the same image, sent as one multi-turn conversation
+const askAboutImage = async (base64Image: string, history: VisualExchange[], question: string, signal?: AbortSignal): Promise<string> => {
+  if (signal?.aborted) throw new Error("Aborted");
+  if (history.length === 0) throw new Error("askAboutImage needs the exchange that produced the image");
+
+  const language = getLocale(settingsService.get().locale).language;
+  const systemInstruction = `You are SightMate, a gentle and supportive anime-style assistant helping a blind user. 
+    Answer follow-up questions about the picture from the first message in 1-3 short sentences. 
+    If the answer is not visible in the picture, say so and suggest saying "new picture". Always respond in ${language}.`;
+
+  // The image travels with the first question; later turns are text only
+  const [first, ...rest] = history;
+  const contents = [
+    { role: 'user', parts: [{ inlineData: { mimeType: 'image/jpeg', data: base64Image.split(',')[1] } }, { text: first.question }] },
+    { role: 'model', parts: [{ text: first.answer }] },
+    ...rest.flatMap(exchange => [
+      { role: 'user', parts: [{ text: exchange.question }] },
+      { role: 'model', parts: [{ text: exchange.answer }] }
+    ]),
+    { role: 'user', parts: [{ text: question }] }
+  ];
+
+  try {
+    const response = await generateContentWithRetry(modelName, {
+      contents,
+      config: { systemInstruction, temperature: 0.4 }
+    });
+
+    if (signal?.aborted) throw new Error("Aborted");
+    return response.text || "I couldn't tell from that picture.";
+
+  } catch (error) {
+    if (signal?.aborted || (error as Error).message === "Aborted") throw error;
+    const phrases = getLocale(settingsService.get().locale).phrases;
+    if ((error as any).status === 429) return phrases.overloaded;
+    return phrases.connectionError;
+  }
+};
+
+// 3. Walking Safety - Ultra Fast & Comprehensive
+const analyzeWalkingSafety = async (base64Image: string, signal?: AbortSignal): Promise<WalkingHazard | null> => {
+    if (signal?.aborted) return null;
+    const base64Data = base64Image.split(',')[1];
+    
+    // Condensed prompt for speed
+    const prompt = `
+      DETECT DANGER. FAST.
+      Categories:
+      - ground: holes, cracks, wet, steps, drop-offs, uneven.
+      - obstacle: poles, walls, low headroom.
+      - moving: cars, bikes, runners.
+      - structural: glass, doors, debris.
+      - animal: dogs, cattle.
+      - personal: approaching person.
+      - fall: camera on ground, sky only, sideways horizon, floor closeup.
+
+      Output JSON for the SINGLE HIGHEST RISK.
+      Priority: FALL > HIGH severity > NEAR distance > MOVING.
+      If confidence < 0.35 or no danger, hazard_type="none".
+      "message": MAX 3-5 words. Direct command. In ${getLocale(settingsService.get().locale).language}.
+    `;
+
+    const schema: Schema = {
+      type: Type.OBJECT,
+      properties: {
+        hazard_type: { type: Type.STRING },
+        category: { type: Type.STRING, enum: ['ground', 'level_change', 'obstacle', 'moving', 'structural', 'environmental', 'animal', 'personal', 'fall', 'none'] },
+        description: { type: Type.STRING },
+        direction: { type: Type.STRING, enum: ["left", "center", "right", "unknown"] },
+        distance: { type: Type.STRING, enum: ["near", "medium", "far", "unknown"] },
+        severity: { type: Type.STRING, enum: ["high", "medium", "low"] },
+        confidence: { type: Type.NUMBER },
+        message: { type: Type.STRING }
+      },
+      required: ["hazard_type", "category", "description", "direction", "distance", "severity", "confidence", "message"]
+    };
+
+    try {
+        // NO RETRIES for walking loop. Fail fast. The scheduler refuses the frame if it would eat into the reserved budget.
+        // maxOutputTokens=200 is enough for this JSON, prevents long gen/truncation.
+        const response = await generateContent('background', modelName, {
+            contents: { parts: [{ inlineData: { mimeType: 'image/jpeg', data: base64Data } }, { text: prompt }] },
+            config: { 
+                temperature: 0.1, 
+                responseMimeType: "application/json", 
+                responseSchema: schema, 
+                maxOutputTokens: 200 
+            }
+        });
+
+        if (signal?.aborted) return null;
+        
+        // ROBUST JSON PARSING (Extract JSON substring)
+        const rawText = response.text || "{}";
+
+        try {
+            // Find valid JSON object bounds
+            const jsonStart = rawText.indexOf('{');
+            const jsonEnd = rawText.lastIndexOf('}');
+            
+            if (jsonStart !== -1 && jsonEnd !== -1) {
+                const jsonStr = rawText.substring(jsonStart, jsonEnd + 1);
+                const result = JSON.parse(jsonStr) as WalkingHazard;
+                return result;
+            }
+            // Fallback if structured mode fails completely (rare)
+            return null;
+        } catch (parseError) {
+            console.warn("WalkingMode: JSON Parse Failed:", parseError);
+            return null;
+        }
+    } catch (e) { 
+        console.warn("WalkingMode: Analysis Error (Skipping Frame):", e);
+        return null; 
+    }
+}
+
+// 3b. Guided object search. Fast like the walking loop: no retries, a failed frame is just skipped.
+const locateObject = async (base64Image: string, target: string, signal?: AbortSignal): Promise<ObjectSighting | null> => {
+    if (signal?.aborted) return null;
+    const base64Data = base64Image.split(',')[1];
+
+    const prompt = `
+      The user is blind and looking for: "${target}". Is it in this photo from their phone camera?
+      If several match, pick the one closest to the camera. If unsure, found=false.
+      horizontal: where it is across the frame (far_left, left, center, right, far_right).
+      vertical: up if it is in the top third, down if in the bottom third, else level.
+      distance: within_reach (about an arm's length, fills a good part of the frame), near (a few steps), far.
+    `;
+
+    const schema: Schema = {
+      type: Type.OBJECT,
+      properties: {
+        found: { type: Type.BOOLEAN },
+        horizontal: { type: Type.STRING, enum: ['far_left', 'left', 'center', 'right', 'far_right'] },
+        vertical: { type: Type.STRING, enum: ['up', 'level', 'down'] },
+        distance: { type: Type.STRING, enum: ['within_reach', 'near', 'far'] },
+        confidence: { type: Type.NUMBER }
+      },
+      required: ['found', 'horizontal', 'vertical', 'distance', 'confidence']
+    };
+
+    try {
+        const response = await generateContent('background', modelName, {
+            contents: { parts: [{ inlineData: { mimeType: 'image/jpeg', data: base64Data } }, { text: prompt }] },
+            config: { temperature: 0.1, responseMimeType: "application/json", responseSchema: schema, maxOutputTokens: 100 }
+        });
+        if (signal?.aborted) return null;
+        return JSON.parse(response.text || "null") as ObjectSighting | null;
+    } catch (e) {
+        console.warn("Search: Analysis Error (Skipping Frame):", e);
+        return null;
+    }
+};
+
+// 3c. Street crossing. Same fast path as the walking loop.
+const analyzeCrossing = async (base64Image: string, signal?: AbortSignal): Promise<CrossingObservation | null> => {
+    if (signal?.aborted) return null;
+    const base64Data = base64Image.split(',')[1];
+
+    const prompt = `
+      A blind pedestrian is at or on a street crossing, phone camera pointing the way they walk.
+      signal: the pedestrian signal they face. walk (walking figure), dont_walk (hand or standing figure),
+        countdown (numbers counting down), unknown if not visible or unreadable.
+      countdownSeconds: the number shown during a countdown, else null.
+      alignment: aligned if the zebra stripes run straight ahead of the camera; drifting_left if the crossing
+        lies to the right of where they are heading (they are veering left); drifting_right for the opposite; no_crosswalk if no stripes are visible.
+      vehicle: the nearest vehicle that could cross their path. approaching if it is moving towards the crossing, stopped, or none.
+      vehicleDirection: where that vehicle is (left, center, right, unknown).
+      confidence: 0-1 for the whole reading.
+    `;
+
+    const schema: Schema = {
+      type: Type.OBJECT,
+      properties: {
+        signal: { type: Type.STRING, enum: ['walk', 'dont_walk', 'countdown', 'unknown'] },
+        countdownSeconds: { type: Type.NUMBER, nullable: true },
+        alignment: { type: Type.STRING, enum: ['aligned', 'drifting_left', 'drifting_right', 'no_crosswalk'] },
+        vehicle: { type: Type.STRING, enum: ['none', 'stopped', 'approaching'] },
+        vehicleDirection: { type: Type.STRING, enum: ['left', 'center', 'right', 'unknown'] },
+        confidence: { type: Type.NUMBER }
+      },
+      required: ['signal', 'alignment', 'vehicle', 'vehicleDirection', 'confidence']
+    };
+
+    try {
+        const response = await generateContent('crossing', modelName, {
+            contents: { parts: [{ inlineData: { mimeType: 'image/jpeg', data: base64Data } }, { text: prompt }] },
+            config: { temperature: 0.1, responseMimeType: "application/json", responseSchema: schema, maxOutputTokens: 120 }
+        });
+        if (signal?.aborted) return null;
+        const json = JSON.parse(response.text || "null");
+        return json ? { countdownSeconds: null, ...json } as CrossingObservation : null;
+    } catch (e) {
+        console.warn("Crossing: Analysis Error (Skipping Frame):", e);
+        return null;
+    }
+};
+
+// 3d. Document framing before OCR. Asked for while the user is waiting, so no retries: the next frame is the retry.
+const analyzeDocumentFraming = async (base64Image: string, signal?: AbortSignal): Promise<DocumentFraming | null> => {
+    if (signal?.aborted) return null;
+    const base64Data = base64Image.split(',')[1];
+
+    const prompt = `
+      A blind user is pointing their phone camera at a page, letter, label or screen they want read.
+      pageVisible: true if a page or a block of text is in view.
+      cutOff: the edges of the image (top, bottom, left, right) that the page or its text runs past. Empty if the whole page is in view.
+      size: too_small if the page fills less than about a third of the image (text too small to read), too_close if the page
+        runs past opposite edges, else good.
+      offset: where the centre of the page lies in the image (centered, left, right, up, down).
+      confidence: 0-1.
+    `;
+
+    const schema: Schema = {
+      type: Type.OBJECT,
+      properties: {
+        pageVisible: { type: Type.BOOLEAN },
+        cutOff: { type: Type.ARRAY, items: { type: Type.STRING, enum: ['top', 'bottom', 'left', 'right'] } },
+        size: { type: Type.STRING, enum: ['too_small', 'good', 'too_close'] },
+        offset: { type: Type.STRING, enum: ['centered', 'left', 'right', 'up', 'down'] },
+        confidence: { type: Type.NUMBER }
+      },
+      required: ['pageVisible', 'cutOff', 'size', 'offset', 'confidence']
+    };
+
+    try {
+        const response = await generateContent('interactive', modelName, {
+            contents: { parts: [{ inlineData: { mimeType: 'image/jpeg', data: base64Data } }, { text: prompt }] },
+            config: { temperature: 0.1, responseMimeType: "application/json", responseSchema: schema, maxOutputTokens: 120 }
+        });
+        if (signal?.aborted) return null;
+        return JSON.parse(response.text || "null") as DocumentFraming | null;
+    } catch (e) {
+        console.warn("Framing: Analysis Error (Skipping Frame):", e);
+        return null;
+    }
+};
+
+// 4. Navigation
+// With a router configured the steps come from map data and the model only words them. Without one the model plans
+// the whole route, but its step points are guesses: the plan is marked estimated and App won't track against them.
+const getWalkingDirections = async (destination: string, currentCoords: GeolocationCoordinates | null, signal?: AbortSignal, destinationPoint?: GeoPoint): Promise<NavigationPlan | null> => {
+    if (signal?.aborted) return null;
+    const locale = getLocale(settingsService.get().locale);
+    const language = locale.language;
+
+    if (currentCoords && routingService.canRoute) {
+        const origin: GeoPoint = { latitude: currentCoords.latitude, longitude: currentCoords.longitude };
+        // Saved places give the exact target; the name alone could resolve somewhere else
+        const target = destinationPoint ?? await routingService.geocode(destination, origin, signal);
+        const walk = target ? await routingService.route(origin, target, signal) : null;
+        if (signal?.aborted) return null;
+        if (walk) return phraseRoute(destination, walk, destinationPoint, locale);
+    }
+
+    const locationStr = currentCoords ? `${currentCoords.latitude}, ${currentCoords.longitude}` : "my location";
+    const destinationStr = destinationPoint ? `"${destination}" at ${destinationPoint.latitude}, ${destinationPoint.longitude}` : destination;
+    const prompt = `
+      Plan a walking route from ${locationStr} to ${destinationStr}.
+      One step per maneuver, in order. The last step is arriving at the destination.
+      For each step give the short spoken instruction, your best estimate of the latitude/longitude where it happens,
+      and the walking distance in meters from the previous step's point.
+      Write the instructions, destination and totals in ${language}.
+    `;
+    const schema: Schema = {
+        type: Type.OBJECT,
+        properties: {
+            destination: { type: Type.STRING },
+            steps: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        instruction: { type: Type.STRING },
+                        latitude: { type: Type.NUMBER },
+                        longitude: { type: Type.NUMBER },
+                        distanceMeters: { type: Type.NUMBER }
+                    },
+                    required: ["instruction", "latitude", "longitude", "distanceMeters"]
+                }
+            },
+            totalDistance: { type: Type.STRING },
+            totalTime: { type: Type.STRING }
+        },
+        required: ["steps", "destination"]
+    };
+
+    try {
+        const response = await generateContentWithRetry(modelName, {
+            contents: prompt,
+            config: { responseMimeType: "application/json", responseSchema: schema }
+        });
+        if (signal?.aborted) return null;
+        const json = JSON.parse(response.text || "{}");
+        if (!Array.isArray(json.steps) || json.steps.length === 0) return null;
+        return {
+            destination: destinationPoint ? destination : json.destination || destination,
+            destinationPoint,
+            steps: json.steps.map((step: any) => ({
+                instruction: step.instruction,
+                maneuver: { latitude: step.latitude, longitude: step.longitude },
+                distanceMeters: step.distanceMeters
+            })),
+            totalDistance: json.totalDistance || "",
+            totalTime: json.totalTime || "",
+            estimated: true
+        };
+    } catch (e) { return null; }
+}
+
+// Spoken instructions and totals for a routed walk, in the user's language. The geometry stays the router's;
+// if the model fails or miscounts the steps, the locale's own descriptions are used instead.
+const phraseRoute = async (destination: string, walk: RoutedWalk, destinationPoint: GeoPoint | undefined, locale: LocaleDefinition): Promise<NavigationPlan> => {
+    const minutes = Math.max(1, Math.round(walk.durationSeconds / 60));
+    let instructions = walk.steps.map(step => describeStep(step, destination, locale.code));
+    let totalDistance = formatDistance(walk.distanceMeters, locale.code);
+    let totalTime = locale.phrases.aboutMinutes(minutes);
+
+    const maneuvers = walk.steps.map(({ type, modifier, street, distanceMeters }) => ({ type, modifier, street, distanceMeters }));
+    const prompt = `
+      Write one short spoken walking instruction for each of these route maneuvers, in order, in ${locale.language}.
+      The destination is "${destination}". Use "left" and "right" as given; don't add or merge steps.
+      Also give the total distance (${Math.round(walk.distanceMeters)} meters) and time (${minutes} minutes) as short phrases.
+      Maneuvers: ${JSON.stringify(maneuvers)}
+    `;
+    const schema: Schema = {
+        type: Type.OBJECT,
+        properties: {
+            instructions: { type: Type.ARRAY, items: { type: Type.STRING } },
+            totalDistance: { type: Type.STRING },
+            totalTime: { type: Type.STRING }
+        },
+        required: ["instructions"]
+    };
+    try {
+        const response = await generateContentWithRetry(modelName, {
+            contents: prompt,
+            config: { responseMimeType: "application/json", responseSchema: schema }
+        });
+        const json = JSON.parse(response.text || "{}");
+        if (Array.isArray(json.instructions) && json.instructions.length === walk.steps.length) {
+            instructions = json.instructions;
+            totalDistance = json.totalDistance || totalDistance;
+            totalTime = json.totalTime || totalTime;
+        }
+    } catch (e) {
+        console.warn("Navigation: Could not phrase the route, using plain instructions:", e);
+    }
+
+    const steps = walk.steps.map((step, i) => ({ instruction: instructions[i], maneuver: step.maneuver, distanceMeters: step.distanceMeters }));
+    // The router ends on the nearest street; a saved place is the exact spot to arrive at
+    if (destinationPoint) steps[steps.length - 1].maneuver = { ...destinationPoint };
+    return { destination, destinationPoint, steps, path: walk.path, totalDistance, totalTime };
+};
+
+export const geminiProvider: VisionProvider = {
+    name: 'gemini',
+    classifyIntent,
+    analyzeImage,
+    askAboutImage,
+    analyzeWalkingSafety,
+    locateObject,
+    analyzeCrossing,
+    analyzeDocumentFraming,
+    getWalkingDirections
+};
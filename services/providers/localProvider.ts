@@ -0,0 +1,273 @@
+import { GeoPoint, IntentContext, IntentResult, IntentType, NavigationPlan, CrossingObservation, DocumentFraming, NavigationStep, ObjectSighting, VisionProvider, VisualExchange, WalkingHazard } from "../../types";
+import { parseIntent } from "../intentParser";
+import { settingsService } from "../settingsService";
+import { distanceMeters } from "../navigationService";
+
+// Deterministic offline stand-in for Gemini.
+// Answers come from fixtures so the full App flows can be exercised without network or API key.
+
+// Simulated model latency so the UI states (ANALYZING, watchdog, etc.) behave like the real thing
+const SIMULATED_LATENCY_MS = 350;
+// Streamed answers arrive a few words at a time, this far apart
+const STREAM_CHUNK_MS = 80;
+
+const DESCRIBE_FIXTURES = [
+    "You're in a bright room with a wooden table in front of you. There is a mug on the left side of the table and a window behind it. The floor ahead looks clear.",
+    "I can see a hallway stretching ahead of you. There is a door on the right about three steps away. Nothing is blocking the path.",
+    "It looks like a kitchen counter. There's a kettle near the middle and a bowl of fruit to the right. Everything seems tidy and within reach."
+];
+
+const READ_TEXT_FIXTURE = "Welcome to SightMate. This is a sample page used for offline testing.\n\nThe quick brown fox jumps over the lazy dog. It was not amused.\n\nSightMate\n1 Example Street";
+
+const FOLLOW_UP_FIXTURES = [
+    "From the same picture: it looks light brown, and there's nothing else on it.",
+    "I can only see part of that in this picture. Say new picture if you'd like me to look again.",
+    "In that picture it's on your right, about an arm's length away."
+];
+
+const SAFETY_FIXTURE = "The path ahead looks clear for several steps. There is a low step on your right, so keep to the left. No moving vehicles are visible.";
+
+const NONE_HAZARD: WalkingHazard = {
+    hazard_type: 'none',
+    category: 'none',
+    description: '',
+    direction: 'unknown',
+    distance: 'unknown',
+    severity: 'low',
+    message: '',
+    confidence: 0
+};
+
+// Scripted walk: one entry per analysed frame, cycled. Mostly clear, with a pole approaching and a bike passing.
+const WALKING_SCRIPT: WalkingHazard[] = [
+    NONE_HAZARD, NONE_HAZARD, NONE_HAZARD, NONE_HAZARD, NONE_HAZARD,
+    { hazard_type: 'pole', category: 'obstacle', description: 'metal pole', direction: 'right', distance: 'far', severity: 'low', message: 'Pole ahead, right', confidence: 0.8 },
+    { hazard_type: 'pole', category: 'obstacle', description: 'metal pole', direction: 'right', distance: 'medium', severity: 'medium', message: 'Pole right, keep left', confidence: 0.85 },
+    { hazard_type: 'pole', category: 'obstacle', description: 'metal pole', direction: 'right', distance: 'near', severity: 'high', message: 'Pole right, step left', confidence: 0.9 },
+    NONE_HAZARD, NONE_HAZARD, NONE_HAZARD,
+    { hazard_type: 'bicycle', category: 'moving', description: 'cyclist', direction: 'left', distance: 'medium', severity: 'medium', message: 'Bike on left', confidence: 0.75 },
+    NONE_HAZARD, NONE_HAZARD, NONE_HAZARD, NONE_HAZARD
+];
+
+let walkingFrameIndex = 0;
+
+const MISSING: ObjectSighting = { found: false, horizontal: 'center', vertical: 'level', distance: 'far', confidence: 0 };
+
+// Scripted search: nothing for a few frames, then the object comes into view on the left and is approached
+const SEARCH_SCRIPT: ObjectSighting[] = [
+    MISSING, MISSING, MISSING,
+    { found: true, horizontal: 'far_left', vertical: 'level', distance: 'far', confidence: 0.7 },
+    { found: true, horizontal: 'left', vertical: 'level', distance: 'far', confidence: 0.8 },
+    { found: true, horizontal: 'left', vertical: 'down', distance: 'near', confidence: 0.85 },
+    { found: true, horizontal: 'center', vertical: 'down', distance: 'near', confidence: 0.9 },
+    { found: true, horizontal: 'center', vertical: 'level', distance: 'within_reach', confidence: 0.9 },
+    { found: true, horizontal: 'center', vertical: 'level', distance: 'within_reach', confidence: 0.95 }
+];
+
+let searchFrameIndex = 0;
+let lastSearchTarget: string | null = null;
+
+const crossingFrame = (signal: CrossingObservation['signal'], alignment: CrossingObservation['alignment'], vehicle: CrossingObservation['vehicle'] = 'none', countdownSeconds: number | null = null): CrossingObservation =>
+    ({ signal, countdownSeconds, alignment, vehicle, vehicleDirection: vehicle === 'none' ? 'unknown' : 'left', confidence: 0.8 });
+
+// Scripted crossing, cycled: waiting at DON'T WALK with a car passing, WALK, a drift left mid-crossing, then the countdown
+const CROSSING_SCRIPT: CrossingObservation[] = [
+    crossingFrame('dont_walk', 'aligned'), crossingFrame('dont_walk', 'aligned', 'approaching'), crossingFrame('dont_walk', 'aligned', 'approaching'),
+    crossingFrame('dont_walk', 'aligned'), crossingFrame('walk', 'aligned', 'stopped'), crossingFrame('walk', 'aligned', 'stopped'),
+    crossingFrame('walk', 'aligned'), crossingFrame('walk', 'drifting_left'), crossingFrame('walk', 'drifting_left'),
+    crossingFrame('countdown', 'aligned', 'none', 12), crossingFrame('countdown', 'aligned', 'none', 10), crossingFrame('countdown', 'aligned', 'none', 8),
+    crossingFrame('countdown', 'aligned', 'none', 5), crossingFrame('countdown', 'no_crosswalk', 'none', 3), crossingFrame('unknown', 'no_crosswalk')
+];
+
+let crossingFrameIndex = 0;
+
+// Scripted framing, cycled: a small page off to the left, then cut off at the bottom, then framed (twice, so it's captured)
+const FRAMING_SCRIPT: DocumentFraming[] = [
+    { pageVisible: false, cutOff: [], size: 'too_small', offset: 'centered', confidence: 0.6 },
+    { pageVisible: true, cutOff: [], size: 'too_small', offset: 'left', confidence: 0.8 },
+    { pageVisible: true, cutOff: ['bottom'], size: 'good', offset: 'up', confidence: 0.85 },
+    { pageVisible: true, cutOff: [], size: 'good', offset: 'centered', confidence: 0.9 },
+    { pageVisible: true, cutOff: [], size: 'good', offset: 'centered', confidence: 0.9 }
+];
+
+let framingFrameIndex = 0;
+
+// Used for synthetic routes when there is no GPS fix
+const FALLBACK_ORIGIN: GeoPoint = { latitude: 51.5007, longitude: -0.1246 };
+
+// Shift a point by metres north/east (flat-earth approximation, fine at walking scale)
+const offsetPoint = (origin: GeoPoint, northM: number, eastM: number): GeoPoint => ({
+    latitude: origin.latitude + northM / 111320,
+    longitude: origin.longitude + eastM / (111320 * Math.cos(origin.latitude * Math.PI / 180))
+});
+
+// Stable string hash so the same frame always maps to the same fixture
+const hashString = (s: string): number => {
+    let h = 0;
+    for (let i = 0; i < s.length; i += 97) {
+        h = (h * 31 + s.charCodeAt(i)) | 0;
+    }
+    return Math.abs(h);
+};
+
+const simulateLatency = (signal?: AbortSignal, ms: number = SIMULATED_LATENCY_MS): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) { reject(new Error("Aborted")); return; }
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error("Aborted"));
+        }, { once: true });
+    });
+};
+
+const classifyIntent = async (transcript: string, signal?: AbortSignal, context?: IntentContext): Promise<IntentResult> => {
+    await simulateLatency(signal);
+
+    const parsed = parseIntent(transcript, settingsService.get().locale, context);
+    if (!parsed) {
+        // Anything unrecognised right after a description is treated as a question about that picture
+        if (context?.hasVisualContext) return { type: IntentType.FOLLOW_UP, confidence: 0.5, originalQuery: transcript };
+        return { type: IntentType.DESCRIBE, confidence: 0.5, originalQuery: transcript, detailLevel: 'simple' };
+    }
+    return parsed;
+};
+
+// Hand a fixture out a few words at a time, like a streamed answer
+const simulateStream = async (text: string, onText: (delta: string) => void, signal?: AbortSignal): Promise<string> => {
+    const pieces = text.match(/(\S+\s*){1,4}/g) ?? [];
+    for (const piece of pieces) {
+        await simulateLatency(signal, STREAM_CHUNK_MS);
+        onText(piece);
+    }
+    return text;
+};
+
+const fixtureAnswer = (base64Image: string, intent: IntentResult, location?: GeolocationCoordinates): string => {
+    switch (intent.type) {
+        case IntentType.WHERE_AM_I:
+            return location
+                ? `You are near latitude ${location.latitude.toFixed(4)}, longitude ${location.longitude.toFixed(4)}. I'm in offline mode, so I can't look up the street name.`
+                : "I'm in offline mode and don't have a GPS fix, so I can't tell where you are.";
+        case IntentType.SAFETY_CHECK:
+            return SAFETY_FIXTURE;
+        case IntentType.READ_TEXT:
+            return READ_TEXT_FIXTURE;
+        case IntentType.DESCRIBE:
+        default:
+            return DESCRIBE_FIXTURES[hashString(base64Image) % DESCRIBE_FIXTURES.length];
+    }
+};
+
+const analyzeImage = async (base64Image: string, intent: IntentResult, location?: GeolocationCoordinates, signal?: AbortSignal, onText?: (delta: string) => void): Promise<string> => {
+    await simulateLatency(signal);
+    const answer = fixtureAnswer(base64Image, intent, location);
+    return onText ? simulateStream(answer, onText, signal) : answer;
+};
+
+const askAboutImage = async (base64Image: string, history: VisualExchange[], question: string, signal?: AbortSignal): Promise<string> => {
+    await simulateLatency(signal);
+    return FOLLOW_UP_FIXTURES[(question.length + history.length) % FOLLOW_UP_FIXTURES.length];
+};
+
+const analyzeWalkingSafety = async (base64Image: string, signal?: AbortSignal): Promise<WalkingHazard | null> => {
+    try {
+        await simulateLatency(signal);
+    } catch (e) {
+        return null;
+    }
+    const hazard = WALKING_SCRIPT[walkingFrameIndex % WALKING_SCRIPT.length];
+    walkingFrameIndex++;
+    return { ...hazard };
+};
+
+const locateObject = async (base64Image: string, target: string, signal?: AbortSignal): Promise<ObjectSighting | null> => {
+    try {
+        await simulateLatency(signal);
+    } catch (e) {
+        return null;
+    }
+    // Each new search replays the script from the start
+    if (target !== lastSearchTarget || searchFrameIndex >= SEARCH_SCRIPT.length) {
+        lastSearchTarget = target;
+        searchFrameIndex = 0;
+    }
+    return { ...SEARCH_SCRIPT[searchFrameIndex++] };
+};
+
+const analyzeCrossing = async (base64Image: string, signal?: AbortSignal): Promise<CrossingObservation | null> => {
+    try {
+        await simulateLatency(signal);
+    } catch (e) {
+        return null;
+    }
+    const observation = CROSSING_SCRIPT[crossingFrameIndex % CROSSING_SCRIPT.length];
+    crossingFrameIndex++;
+    return { ...observation };
+};
+
+const analyzeDocumentFraming = async (base64Image: string, signal?: AbortSignal): Promise<DocumentFraming | null> => {
+    try {
+        await simulateLatency(signal);
+    } catch (e) {
+        return null;
+    }
+    const framing = FRAMING_SCRIPT[framingFrameIndex % FRAMING_SCRIPT.length];
+    framingFrameIndex++;
+    return { ...framing, cutOff: [...framing.cutOff] };
+};
+
+const getWalkingDirections = async (destination: string, currentCoords: GeolocationCoordinates | null, signal?: AbortSignal, destinationPoint?: GeoPoint): Promise<NavigationPlan | null> => {
+    try {
+        await simulateLatency(signal);
+    } catch (e) {
+        return null;
+    }
+
+    if (destinationPoint) {
+        // Saved place: walk the latitude leg, then the longitude leg, ending exactly on the saved point
+        const origin: GeoPoint = currentCoords ? { latitude: currentCoords.latitude, longitude: currentCoords.longitude } : FALLBACK_ORIGIN;
+        const corner: GeoPoint = { latitude: destinationPoint.latitude, longitude: origin.longitude };
+        const firstLeg = Math.round(distanceMeters(origin, corner));
+        const secondLeg = Math.round(distanceMeters(corner, destinationPoint));
+        const minutes = Math.max(1, Math.round((firstLeg + secondLeg) / 80));
+        return {
+            destination,
+            destinationPoint,
+            steps: [
+                { instruction: `Head ${destinationPoint.latitude >= origin.latitude ? 'north' : 'south'} for ${firstLeg} meters`, maneuver: origin, distanceMeters: 0 },
+                { instruction: `Turn ${destinationPoint.longitude >= origin.longitude ? 'east' : 'west'}`, maneuver: corner, distanceMeters: firstLeg },
+                { instruction: `Arrive at ${destination}`, maneuver: { ...destinationPoint }, distanceMeters: secondLeg }
+            ],
+            totalDistance: `${firstLeg + secondLeg} meters`,
+            totalTime: `About ${minutes} minute${minutes === 1 ? '' : 's'}`
+        };
+    }
+
+    // Synthetic L-shaped route starting from wherever the user is: 50m north, left, 100m west, right, 50m north
+    const origin = currentCoords || FALLBACK_ORIGIN;
+    const steps: NavigationStep[] = [
+        { instruction: "Head straight for 50 meters", maneuver: offsetPoint(origin, 0, 0), distanceMeters: 0 },
+        { instruction: "Turn left at the corner", maneuver: offsetPoint(origin, 50, 0), distanceMeters: 50 },
+        { instruction: "Turn right", maneuver: offsetPoint(origin, 50, -100), distanceMeters: 100 },
+        { instruction: `Arrive at ${destination} on your right`, maneuver: offsetPoint(origin, 100, -100), distanceMeters: 50 }
+    ];
+    return {
+        destination,
+        steps,
+        totalDistance: "200 meters",
+        totalTime: "About 3 minutes"
+    };
+};
+
+export const localProvider: VisionProvider = {
+    name: 'local',
+    classifyIntent,
+    analyzeImage,
+    askAboutImage,
+    analyzeWalkingSafety,
+    locateObject,
+    analyzeCrossing,
+    analyzeDocumentFraming,
+    getWalkingDirections
+};
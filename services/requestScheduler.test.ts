@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler } from './requestScheduler';
+
+const quotaError = () => Object.assign(new Error('RESOURCE_EXHAUSTED'), { status: 429 });
+
+// Resolves with how long the request waited before it went out
+const timed = async (scheduler: RequestScheduler, requestClass: 'interactive' | 'crossing') => {
+    const queuedAt = Date.now();
+    let sentAt = 0;
+    const request = scheduler.run(requestClass, async () => { sentAt = Date.now(); });
+    await vi.runAllTimersAsync();
+    await request;
+    return sentAt - queuedAt;
+};
+
+const hitQuota = async (scheduler: RequestScheduler) => {
+    await expect(scheduler.run('urgent', async () => { throw quotaError(); })).rejects.toThrow('RESOURCE_EXHAUSTED');
+};
+
+describe('RequestScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('sends crossing frames without delay while there is budget', async () => {
+        const scheduler = new RequestScheduler();
+        for (let i = 0; i < 20; i++) await scheduler.run('background', async () => {});
+        expect(scheduler.crossingDelay()).toBe(0);
+        expect(await timed(scheduler, 'crossing')).toBe(0);
+    });
+
+    it('holds a crossing frame at most a second during a quota cooldown', async () => {
+        const scheduler = new RequestScheduler();
+        await hitQuota(scheduler); // Cools down for 2s
+        expect(await timed(scheduler, 'crossing')).toBe(1000);
+
+        // A question waits the cooldown out
+        await hitQuota(scheduler);
+        expect(await timed(scheduler, 'interactive')).toBe(2000);
+    });
+
+    it('refuses background requests during a cooldown', async () => {
+        const scheduler = new RequestScheduler();
+        await hitQuota(scheduler);
+        await expect(scheduler.run('background', async () => {})).rejects.toThrow('Throttled');
+        vi.setSystemTime(2000);
+        await expect(scheduler.run('background', async () => 'sent')).resolves.toBe('sent');
+    });
+
+    it('paces the background loops only once half their share is used', async () => {
+        const scheduler = new RequestScheduler();
+        let sent = 0;
+        while (scheduler.backgroundDelay() === 0 && sent < 200) {
+            await scheduler.run('background', async () => {});
+            sent++;
+        }
+        // A burst well past the reserved requests goes out back to back...
+        expect(sent).toBeGreaterThan(28);
+        // ...then the rest of the share is spread over the minute, a fraction of a second apart, not held for the minute
+        expect(scheduler.backgroundDelay()).toBeLessThan(1100);
+        expect(scheduler.crossingDelay()).toBe(0);
+    });
+});
@@ -0,0 +1,144 @@
+import { RequestClass } from "../types";
+
+// RequestScheduler sees every Gemini request: how many went out in the last minute, how long they took and
+// which ones were refused for quota (429). It keeps an adaptive per-minute budget, backs off when the quota
+// runs out, and paces the walking and search loops so they never use up the capacity kept for the user's own
+// questions and for crossing the street.
+// It also watches how often walking mode actually gets a hazard verdict, so the user can be told when
+// hazard checking has slowed down.
+
+const WINDOW_MS = 60 * 1000;
+// The budget starts here and adapts: halved on a 429, grown by one per success
+const INITIAL_PER_MINUTE = 60;
+const MIN_PER_MINUTE = 6;
+const MAX_PER_MINUTE = 120;
+// Requests per minute the walking and search loops may never use, kept for questions and safety checks
+const RESERVED_PER_MINUTE = 4;
+// The background loops are only spread out once they have used this much of their share in the last minute
+const PACING_THRESHOLD = 0.5;
+// Backoff after a 429 without a retry delay: 2s, 4s, 8s ... up to a minute
+const BASE_COOLDOWN_MS = 2000;
+const MAX_COOLDOWN_MS = 60 * 1000;
+// A question waits at most this long for a cooldown before going out anyway
+const MAX_INTERACTIVE_WAIT_MS = 5000;
+// ...and a crossing frame this long, since the signal may change in the meantime
+const MAX_CROSSING_WAIT_MS = 1000;
+// Hazard verdicts further apart than this aren't a safe cadence for walking
+const SAFE_HAZARD_INTERVAL_MS = 4000;
+// ...and coverage is back to normal once they are this close together again
+const RESTORED_HAZARD_INTERVAL_MS = 2500;
+
+const isQuotaError = (error: any): boolean =>
+    error?.status === 429 || /quota|RESOURCE_EXHAUSTED|rate limit/i.test(error?.message ?? '');
+
+// Gemini puts the suggested wait in the message, e.g. "Please retry in 23.4s" or "retryDelay":"23s"
+const retryDelayMs = (error: any): number | null => {
+    const match = /retry(?:Delay)?["'\s:]*(?:in\s*)?"?(\d+(?:\.\d+)?)s/i.exec(error?.message ?? '');
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+export type CoverageChange = 'slowed' | 'restored';
+
+export class RequestScheduler {
+    private sent: number[] = []; // Start times of requests in the last minute
+    private perMinute = INITIAL_PER_MINUTE;
+    private cooldownUntil = 0;
+    private quotaStrikes = 0;     // 429s in a row
+    private lastBackgroundAt = 0;
+    private latencyMs = 0;        // Smoothed over recent requests
+    private lastHazardCheckAt = 0;
+    private coverageSlowed = false;
+
+    // Send one request through the scheduler. Background requests that don't fit the budget are refused
+    // with "Throttled" instead of being sent; questions and crossing frames wait out a short cooldown;
+    // urgent ones always go.
+    async run<T>(requestClass: RequestClass, send: () => Promise<T>): Promise<T> {
+        if (requestClass === 'background' && this.backgroundDelay() > 0) throw new Error("Throttled");
+        if (requestClass === 'interactive' || requestClass === 'crossing') {
+            const maxWait = requestClass === 'crossing' ? MAX_CROSSING_WAIT_MS : MAX_INTERACTIVE_WAIT_MS;
+            const wait = Math.min(this.cooldownUntil - Date.now(), maxWait);
+            if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+        }
+
+        const startedAt = Date.now();
+        this.sent.push(startedAt);
+        if (requestClass === 'background') this.lastBackgroundAt = startedAt;
+        try {
+            const result = await send();
+            this.onSuccess(Date.now() - startedAt);
+            return result;
+        } catch (error) {
+            if (isQuotaError(error)) this.onQuotaError(error, Date.now());
+            throw error;
+        }
+    }
+
+    // How long the walking or search loop should wait before its next request: 0 when it may send now
+    backgroundDelay(now: number = Date.now()): number {
+        this.prune(now);
+        const share = Math.max(1, this.perMinute - RESERVED_PER_MINUTE);
+        // Once the share is filling up, spread the rest of it evenly over the minute rather than spending it in a burst
+        const paced = this.sent.length >= share * PACING_THRESHOLD ? this.lastBackgroundAt + WINDOW_MS / share - now : 0;
+        return Math.max(0, this.cooldownUntil - now, paced, this.untilRoom(share, now));
+    }
+
+    // How long the crossing loop should wait before its next frame. Crossing may use the reserved requests too,
+    // so it only waits when the whole budget for the minute is spent.
+    crossingDelay(now: number = Date.now()): number {
+        this.prune(now);
+        return this.untilRoom(this.perMinute, now);
+    }
+
+    // The walking loop got a hazard verdict (fresh or reused for an unchanged scene)
+    noteHazardCheck(now: number = Date.now()) {
+        this.lastHazardCheckAt = now;
+    }
+
+    // Called once per walking-loop cycle with the delay before the next one.
+    // Returns 'slowed' when hazard checks fall below a safe cadence and 'restored' when they recover.
+    coverageChange(nextDelayMs: number, now: number = Date.now()): CoverageChange | null {
+        if (this.lastHazardCheckAt === 0) this.lastHazardCheckAt = now;
+        const expectedGap = now - this.lastHazardCheckAt + nextDelayMs + this.latencyMs;
+        if (!this.coverageSlowed && expectedGap > SAFE_HAZARD_INTERVAL_MS) {
+            this.coverageSlowed = true;
+            console.warn(`Scheduler: hazard checks slowed (${Math.round(expectedGap)}ms apart, budget ${this.perMinute}/min).`);
+            return 'slowed';
+        }
+        if (this.coverageSlowed && expectedGap < RESTORED_HAZARD_INTERVAL_MS) {
+            this.coverageSlowed = false;
+            return 'restored';
+        }
+        return null;
+    }
+
+    // Walking mode ended: the next session starts with a clean coverage record
+    resetCoverage() {
+        this.lastHazardCheckAt = 0;
+        this.coverageSlowed = false;
+    }
+
+    private onSuccess(latencyMs: number) {
+        this.latencyMs = this.latencyMs === 0 ? latencyMs : this.latencyMs * 0.8 + latencyMs * 0.2;
+        this.quotaStrikes = 0;
+        this.perMinute = Math.min(MAX_PER_MINUTE, this.perMinute + 1);
+    }
+
+    private onQuotaError(error: any, now: number) {
+        this.quotaStrikes++;
+        this.perMinute = Math.max(MIN_PER_MINUTE, Math.floor(this.perMinute / 2));
+        const backoff = Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (this.quotaStrikes - 1));
+        this.cooldownUntil = Math.max(this.cooldownUntil, now + (retryDelayMs(error) ?? backoff));
+        console.warn(`Scheduler: quota exceeded. Budget now ${this.perMinute}/min, cooling down ${this.cooldownUntil - now}ms.`);
+    }
+
+    // Time until fewer than `limit` requests remain in the last minute
+    private untilRoom(limit: number, now: number): number {
+        return this.sent.length >= limit ? Math.max(0, this.sent[this.sent.length - limit] + WINDOW_MS - now) : 0;
+    }
+
+    private prune(now: number) {
+        while (this.sent.length > 0 && now - this.sent[0] > WINDOW_MS) this.sent.shift();
+    }
+}
+
+export const requestScheduler = new RequestScheduler();
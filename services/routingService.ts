@@ -0,0 +1,107 @@
+import { GeoPoint } from "../types";
+import { TurnModifier, getLocale } from "./locales";
+
+// RoutingService gets walking routes from map data, so every maneuver point is a real place on the street network
+// and RouteProgress / OffRouteDetector can measure the user against it.
+//
+// HTTP protocol (both are public, self-hostable open-source servers):
+//   Routing:   GET {ROUTING_URL}/route/v1/foot/{lon},{lat};{lon},{lat}?steps=true&overview=full&geometries=geojson   (OSRM)
+//   Geocoding: GET {GEOCODER_URL}/search?format=jsonv2&limit=1&q={query}&viewbox=...             (Nominatim)
+
+// Search this far around the user first when looking up a destination by name (degrees, ~10 km)
+const GEOCODE_VIEWBOX_DEGREES = 0.1;
+
+// One maneuver of a routed walk
+export interface RoutedStep {
+    maneuver: GeoPoint;
+    distanceMeters: number;  // Length of the leg leading up to this maneuver
+    type: string;            // OSRM maneuver type: depart, turn, continue, fork, roundabout, arrive ...
+    modifier: string | null; // left, slight left, sharp left, straight, uturn, right ...
+    street: string;          // Name of the way the step continues on, '' when unnamed
+}
+
+export interface RoutedWalk {
+    steps: RoutedStep[];
+    path: GeoPoint[];        // The route's shape along the streets, including every bend between maneuvers
+    distanceMeters: number;
+    durationSeconds: number;
+}
+
+// Instruction for a routed step, used when the model can't phrase the route
+export const describeStep = (step: RoutedStep, destination: string, localeCode: string): string => {
+    const phrases = getLocale(localeCode).phrases;
+    switch (step.type) {
+        case 'depart': return phrases.routeDepart(step.street);
+        case 'arrive': return phrases.routeArrive(destination);
+        case 'roundabout':
+        case 'rotary': return phrases.routeRoundabout(step.street);
+    }
+    if (step.modifier === 'uturn') return phrases.routeTurnAround;
+    const side = step.modifier ? phrases.turnSides[step.modifier as TurnModifier] : undefined;
+    return side ? phrases.routeTurn(side, step.street) : phrases.routeStraight(step.street);
+};
+
+export class RoutingService {
+    constructor(private readonly routingUrl: string | undefined, private readonly geocoderUrl: string | undefined) {}
+
+    get canRoute(): boolean {
+        return !!this.routingUrl;
+    }
+
+    get canGeocode(): boolean {
+        return !!this.geocoderUrl;
+    }
+
+    // Coordinates for a place name, preferring matches near the user. null when not found or not configured.
+    async geocode(query: string, near: GeoPoint | null, signal?: AbortSignal): Promise<GeoPoint | null> {
+        if (!this.geocoderUrl) return null;
+        const params = new URLSearchParams({ format: 'jsonv2', limit: '1', q: query });
+        if (near) {
+            const d = GEOCODE_VIEWBOX_DEGREES;
+            params.set('viewbox', `${near.longitude - d},${near.latitude + d},${near.longitude + d},${near.latitude - d}`);
+        }
+        try {
+            const response = await fetch(`${this.geocoderUrl.replace(/\/$/, '')}/search?${params}`, { signal });
+            if (!response.ok) return null;
+            const [place] = await response.json();
+            if (!place) return null;
+            const point = { latitude: parseFloat(place.lat), longitude: parseFloat(place.lon) };
+            return isNaN(point.latitude) || isNaN(point.longitude) ? null : point;
+        } catch (e) {
+            console.warn("Routing: Geocoding failed:", e);
+            return null;
+        }
+    }
+
+    // A walking route between two points. null when there is none or routing is not configured.
+    async route(from: GeoPoint, to: GeoPoint, signal?: AbortSignal): Promise<RoutedWalk | null> {
+        if (!this.routingUrl) return null;
+        const coordinates = `${from.longitude},${from.latitude};${to.longitude},${to.latitude}`;
+        try {
+            const response = await fetch(`${this.routingUrl.replace(/\/$/, '')}/route/v1/foot/${coordinates}?steps=true&overview=full&geometries=geojson`, { signal });
+            if (!response.ok) return null;
+            const json = await response.json();
+            const route = json.code === 'Ok' ? json.routes?.[0] : null;
+            const osrmSteps: any[] = route?.legs?.[0]?.steps ?? [];
+            if (osrmSteps.length === 0) return null;
+            return {
+                // OSRM gives each step the length of the leg after its maneuver; ours carry the leg before it
+                steps: osrmSteps.map((step, i) => ({
+                    maneuver: { latitude: step.maneuver.location[1], longitude: step.maneuver.location[0] },
+                    distanceMeters: i === 0 ? 0 : Math.round(osrmSteps[i - 1].distance),
+                    type: step.maneuver.type,
+                    modifier: step.maneuver.modifier ?? null,
+                    street: step.name ?? ''
+                })),
+                path: (route.geometry?.coordinates ?? []).map(([longitude, latitude]: [number, number]) => ({ latitude, longitude })),
+                distanceMeters: route.distance,
+                durationSeconds: route.duration
+            };
+        } catch (e) {
+            console.warn("Routing: Route request failed:", e);
+            return null;
+        }
+    }
+}
+
+export const routingService = new RoutingService(process.env.ROUTING_URL, process.env.GEOCODER_URL);
@@ -0,0 +1,49 @@
+import { splitSentences } from "./documentReader";
+
+// SentenceStream collects a streamed answer and hands back each sentence once it is complete,
+// so speech can start on the first sentence while the rest is still being generated.
+
+// Shorter pieces ("Dr.", "Hi.") wait to be spoken with the sentence after them
+const MIN_SENTENCE_CHARS = 12;
+
+export class SentenceStream {
+    private buffer = '';
+    private received = '';
+
+    constructor(private readonly localeCode: string) {}
+
+    // Everything received so far
+    get text(): string {
+        return this.received;
+    }
+
+    // Add a piece of the answer. Returns the sentences it completed.
+    push(delta: string): string[] {
+        this.received += delta;
+        this.buffer += delta;
+        const sentences = splitSentences(this.buffer, this.localeCode);
+        // The last sentence may still be growing; it is held back until the next one starts
+        if (sentences.length < 2) return [];
+        const last = sentences[sentences.length - 1];
+        const complete: string[] = [];
+        let carry = '';
+        for (const sentence of sentences.slice(0, -1)) {
+            const joined = carry ? `${carry} ${sentence}` : sentence;
+            if (joined.length < MIN_SENTENCE_CHARS) {
+                carry = joined;
+            } else {
+                complete.push(joined);
+                carry = '';
+            }
+        }
+        this.buffer = (carry ? `${carry} ` : '') + this.buffer.slice(this.buffer.lastIndexOf(last));
+        return complete;
+    }
+
+    // The answer is complete: whatever is left over
+    flush(): string | null {
+        const rest = this.buffer.trim();
+        this.buffer = '';
+        return rest || null;
+    }
+}
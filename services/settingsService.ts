@@ -0,0 +1,147 @@
+import { SettingAdjustment, SettingKey, UserSettings } from "../types";
+import { DEFAULT_LOCALE, getLocale, isSupportedLocale } from "./locales";
+
+// SettingsService owns the user's preferences, persists them in localStorage and
+// notifies subscribers (AudioService, App) when they change. Read at use time, never cached.
+
+const SETTINGS_STORAGE_KEY = 'sightmate.settings';
+
+export const DEFAULT_SETTINGS: UserSettings = {
+    speechRate: 1.1,
+    voiceName: null,
+    companionIntervalMs: 15000,
+    silenceTimeoutMs: 2500,
+    distressNoiseThreshold: 0.85,
+    pathClearProbability: 0.05,
+    locale: DEFAULT_LOCALE,
+    handsFree: false,
+    wakePhrase: 'hey sightmate',
+    hapticsOnly: false
+};
+
+const MAX_WAKE_PHRASE_LENGTH = 40;
+
+// Allowed range and the size of one "a bit more / less" step for each numeric setting
+const LIMITS = {
+    speechRate: { min: 0.6, max: 2.0, step: 0.15 },
+    companionIntervalMs: { min: 5000, max: 120000, step: 7500 },
+    silenceTimeoutMs: { min: 1500, max: 8000, step: 1000 },
+    distressNoiseThreshold: { min: 0.6, max: 0.98, step: 0.05 },
+    pathClearProbability: { min: 0, max: 0.3, step: 0.05 }
+};
+
+type NumericSetting = keyof typeof LIMITS;
+
+const clamp = (key: NumericSetting, value: number): number => {
+    const { min, max } = LIMITS[key];
+    return Math.min(max, Math.max(min, Math.round(value * 1000) / 1000));
+};
+
+export class SettingsService {
+    private settings: UserSettings = { ...DEFAULT_SETTINGS };
+    private listeners: ((settings: UserSettings) => void)[] = [];
+
+    constructor() {
+        this.load();
+    }
+
+    private load() {
+        try {
+            const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+            if (stored) this.settings = this.sanitize({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) });
+        } catch (e) {
+            console.warn("Settings could not be loaded, using defaults:", e);
+            this.settings = { ...DEFAULT_SETTINGS };
+        }
+    }
+
+    private save() {
+        try {
+            localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+        } catch (e) {
+            console.warn("Settings could not be saved:", e);
+        }
+    }
+
+    // Drop anything out of range or of the wrong type (old versions, hand-edited storage)
+    private sanitize(raw: UserSettings): UserSettings {
+        const result = { ...raw };
+        (Object.keys(LIMITS) as NumericSetting[]).forEach(key => {
+            result[key] = typeof raw[key] === 'number' && !isNaN(raw[key]) ? clamp(key, raw[key]) : DEFAULT_SETTINGS[key];
+        });
+        if (typeof result.voiceName !== 'string') result.voiceName = null;
+        if (!isSupportedLocale(result.locale)) result.locale = DEFAULT_LOCALE;
+        result.handsFree = result.handsFree === true;
+        const wakePhrase = typeof result.wakePhrase === 'string' ? result.wakePhrase.trim().toLowerCase() : '';
+        result.wakePhrase = wakePhrase && wakePhrase.length <= MAX_WAKE_PHRASE_LENGTH ? wakePhrase : DEFAULT_SETTINGS.wakePhrase;
+        result.hapticsOnly = result.hapticsOnly === true;
+        return result;
+    }
+
+    get(): UserSettings {
+        return { ...this.settings };
+    }
+
+    update(changes: Partial<UserSettings>): UserSettings {
+        this.settings = this.sanitize({ ...this.settings, ...changes });
+        this.save();
+        this.listeners.forEach(listener => listener(this.get()));
+        return this.get();
+    }
+
+    reset(): UserSettings {
+        return this.update({ ...DEFAULT_SETTINGS });
+    }
+
+    subscribe(listener: (settings: UserSettings) => void): () => void {
+        this.listeners.push(listener);
+        return () => { this.listeners = this.listeners.filter(l => l !== listener); };
+    }
+
+    // Apply a spoken adjustment ("speak slower", "talk to me less often") and return the confirmation to say.
+    // Voice changes need the list of installed voices, so AudioService handles 'voice' itself; 'language' and 'wake_phrase' are set directly.
+    adjust(setting: Exclude<SettingKey, 'voice' | 'language' | 'wake_phrase'>, adjustment: SettingAdjustment): string {
+        const s = this.settings;
+        const phrases = getLocale(s.locale).phrases;
+        const stepped = (key: NumericSetting, direction: number) => clamp(key, s[key] + direction * LIMITS[key].step);
+        const atLimit = (key: NumericSetting, value: number) => value === s[key] && adjustment !== 'reset';
+        const up = adjustment === 'increase' ? 1 : -1;
+
+        switch (setting) {
+            case 'speech_rate': {
+                const value = adjustment === 'reset' ? DEFAULT_SETTINGS.speechRate : stepped('speechRate', up);
+                if (atLimit('speechRate', value)) return up > 0 ? phrases.fastest : phrases.slowest;
+                this.update({ speechRate: value });
+                return adjustment === 'reset' ? phrases.normalSpeed : up > 0 ? phrases.faster : phrases.slower;
+            }
+            case 'companion_interval': {
+                // 'increase' = longer gap = less often
+                const value = adjustment === 'reset' ? DEFAULT_SETTINGS.companionIntervalMs : stepped('companionIntervalMs', up);
+                if (atLimit('companionIntervalMs', value)) return up > 0 ? phrases.rarest : phrases.mostOften;
+                this.update({ companionIntervalMs: value });
+                return phrases.checkInEvery(Math.round(value / 1000));
+            }
+            case 'silence_timeout': {
+                const value = adjustment === 'reset' ? DEFAULT_SETTINGS.silenceTimeoutMs : stepped('silenceTimeoutMs', up);
+                if (atLimit('silenceTimeoutMs', value)) return phrases.silenceLimit;
+                this.update({ silenceTimeoutMs: value });
+                return phrases.silenceWait(Math.round(value / 100) / 10);
+            }
+            case 'noise_sensitivity': {
+                // More sensitive = lower amplitude threshold
+                const value = adjustment === 'reset' ? DEFAULT_SETTINGS.distressNoiseThreshold : stepped('distressNoiseThreshold', -up);
+                if (atLimit('distressNoiseThreshold', value)) return phrases.noiseLimit;
+                this.update({ distressNoiseThreshold: value });
+                return adjustment === 'reset' ? phrases.noiseReset : up > 0 ? phrases.quieterNoises : phrases.loudNoisesOnly;
+            }
+            case 'path_clear_frequency': {
+                const value = adjustment === 'reset' ? DEFAULT_SETTINGS.pathClearProbability : stepped('pathClearProbability', up);
+                if (atLimit('pathClearProbability', value)) return value === 0 ? phrases.pathClearAlreadyOff : phrases.pathClearMostOften;
+                this.update({ pathClearProbability: value });
+                return value === 0 ? phrases.pathClearOff : up > 0 ? phrases.pathClearMore : phrases.pathClearLess;
+            }
+        }
+    }
+}
+
+export const settingsService = new SettingsService();
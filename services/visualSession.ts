@@ -0,0 +1,56 @@
+import { IntentType, VisualExchange } from "../types";
+
+// VisualSession keeps the last captured frame and the questions asked about it, so follow-ups
+// ("what colour is the door?") are answered against the same picture instead of taking a new one.
+
+// Follow-ups are accepted for this long after the last exchange
+const FOLLOW_UP_WINDOW_MS = 90000;
+// Older turns are dropped to keep requests small
+const MAX_EXCHANGES = 6;
+
+export class VisualSession {
+    private frame: string | null = null;
+    private intentType: IntentType | null = null;
+    private history: VisualExchange[] = [];
+    private lastActivity: number = 0;
+
+    start(frame: string, intentType: IntentType, question: string, answer: string, now: number = Date.now()) {
+        this.frame = frame;
+        this.intentType = intentType;
+        this.history = [{ question, answer }];
+        this.lastActivity = now;
+    }
+
+    addExchange(question: string, answer: string, now: number = Date.now()) {
+        if (!this.frame) return;
+        this.history.push({ question, answer });
+        // Always keep the first exchange: it carries the original request for the picture
+        if (this.history.length > MAX_EXCHANGES) this.history.splice(1, this.history.length - MAX_EXCHANGES);
+        this.lastActivity = now;
+    }
+
+    isActive(now: number = Date.now()): boolean {
+        return this.frame !== null && now - this.lastActivity <= FOLLOW_UP_WINDOW_MS;
+    }
+
+    getFrame(now: number = Date.now()): string | null {
+        return this.isActive(now) ? this.frame : null;
+    }
+
+    getHistory(): VisualExchange[] {
+        return [...this.history];
+    }
+
+    getIntentType(): IntentType | null {
+        return this.intentType;
+    }
+
+    reset() {
+        this.frame = null;
+        this.intentType = null;
+        this.history = [];
+        this.lastActivity = 0;
+    }
+}
+
+export const visualSession = new VisualSession();
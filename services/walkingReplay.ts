@@ -0,0 +1,179 @@
+import { RecordedWalkingFrame, SpeechPriority, SpokenAnnouncement, WalkingFrameOutcome, WalkingHazard, WalkingRecording } from "../types";
+import { audioService } from "./audioService";
+
+// Record / replay harness for the walking loop.
+// WalkingRecorder saves every captured frame with what the loop did with it (analysed, reused or dropped),
+// the verdict and timing, plus what was spoken.
+// WalkingReplay stands in for Camera.capture, the quality check, the frame gate and analyzeWalkingSafety, feeding
+// a recording back through the real loop, hazard tracker, watchdog and speech queue at the original pace or faster.
+
+// Several minutes of walking, more when the scene is still and most frames are reused; low-res JPEGs still add up
+const MAX_RECORDED_FRAMES = 1500;
+
+// Only hazard speech is deterministic: companion phrases and "path clear" are picked at random
+const COMPARED_PRIORITIES: SpeechPriority[] = ['hazard'];
+
+export interface ReplayReport {
+    frames: number;
+    expected: SpokenAnnouncement[]; // From the recording
+    actual: SpokenAnnouncement[];   // Heard during the replay, offsets in recording time
+    matches: boolean;               // Same hazard announcements in the same order
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) { reject(new Error("Aborted")); return; }
+        const timer = setTimeout(resolve, Math.max(0, ms));
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error("Aborted"));
+        }, { once: true });
+    });
+};
+
+const downloadJson = (filename: string, data: unknown) => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(data)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const parseRecording = (json: string): WalkingRecording => {
+    const data = JSON.parse(json);
+    if (data?.version !== 1 || !Array.isArray(data.frames)) throw new Error("Not a SightMate walking recording");
+    // Older recordings kept only the analysed frames
+    const frames = data.frames.map((f: RecordedWalkingFrame) => ({ ...f, outcome: f.outcome ?? 'analysed' }));
+    return { announcements: [], ...data, frames } as WalkingRecording;
+};
+
+export class WalkingRecorder {
+    private recording: WalkingRecording | null = null;
+    private startedAt = 0;
+    private unsubscribe: (() => void) | null = null;
+    // Kept after stopping so a recording that hit the frame limit can still be saved
+    lastRecording: WalkingRecording | null = null;
+
+    get isRecording(): boolean {
+        return this.recording !== null;
+    }
+
+    start(provider: string, now: number = Date.now()) {
+        this.stop();
+        this.startedAt = now;
+        this.recording = { version: 1, recordedAt: now, provider, frames: [], announcements: [] };
+        this.unsubscribe = audioService.onSpoken((text, priority) => {
+            this.recording?.announcements.push({ offsetMs: Date.now() - this.startedAt, text, priority });
+        });
+    }
+
+    record(frame: string, hazard: WalkingHazard | null, capturedAt: number, latencyMs: number, outcome: WalkingFrameOutcome = 'analysed') {
+        if (!this.recording) return;
+        if (this.recording.frames.length >= MAX_RECORDED_FRAMES) {
+            console.warn("Recorder: Frame limit reached, stopping recording.");
+            this.stop();
+            return;
+        }
+        this.recording.frames.push({ offsetMs: capturedAt - this.startedAt, frame, outcome, hazard: hazard ? { ...hazard } : null, latencyMs });
+    }
+
+    stop(): WalkingRecording | null {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        const recording = this.recording;
+        this.recording = null;
+        if (recording) this.lastRecording = recording;
+        return recording;
+    }
+
+    download(recording: WalkingRecording | null = this.lastRecording) {
+        if (!recording) return;
+        downloadJson(`sightmate-walk-${new Date(recording.recordedAt).toISOString().replace(/[:.]/g, '-')}.json`, recording);
+    }
+}
+
+export class WalkingReplay {
+    private index = 0;
+    private current: RecordedWalkingFrame | null = null;
+    private startedAt = 0;
+    private actual: SpokenAnnouncement[] = [];
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(private readonly recording: WalkingRecording, private readonly speed: number = 1) {}
+
+    start(now: number = Date.now()) {
+        this.index = 0;
+        this.current = null;
+        this.startedAt = now;
+        this.actual = [];
+        this.unsubscribe?.();
+        this.unsubscribe = audioService.onSpoken((text, priority) => {
+            this.actual.push({ offsetMs: this.now() - this.recording.recordedAt, text, priority });
+        });
+    }
+
+    get isFinished(): boolean {
+        return this.index >= this.recording.frames.length;
+    }
+
+    // Recording time: what the clock read when this moment was recorded. Timing-sensitive logic
+    // (hazard clearing) uses it so accelerated replays make the same decisions as the original walk.
+    now(): number {
+        return this.recording.recordedAt + (Date.now() - this.startedAt) * this.speed;
+    }
+
+    // Stand-in for Camera.capture: waits until the next frame's recorded capture time. Null once finished.
+    async nextFrame(signal?: AbortSignal): Promise<string | null> {
+        if (this.isFinished) return null;
+        const next = this.recording.frames[this.index];
+        const due = this.recording.recordedAt + next.offsetMs;
+        await sleep((due - this.now()) / this.speed, signal);
+        // Advance only once the frame is handed out, so an aborted wait doesn't skip it
+        if (this.recording.frames[this.index] === next) this.index++;
+        this.current = next;
+        return next.frame;
+    }
+
+    // Stand-in for the quality check: the frame last handed out was dropped when it was recorded
+    get dropped(): boolean {
+        return this.current?.outcome === 'dropped';
+    }
+
+    // Stand-in for hazardFrameGate.reuse: the recorded verdict when the frame last handed out reused one
+    reuse(): { verdict: WalkingHazard | null } | undefined {
+        const recorded = this.current;
+        if (recorded?.outcome !== 'reused') return undefined;
+        return { verdict: recorded.hazard ? { ...recorded.hazard } : null };
+    }
+
+    // Stand-in for analyzeWalkingSafety: the recorded verdict for the frame last handed out, after its recorded latency
+    async analyze(frame: string, signal?: AbortSignal): Promise<WalkingHazard | null> {
+        const recorded = this.current;
+        if (!recorded || recorded.frame !== frame) return null;
+        try {
+            await sleep(recorded.latencyMs / this.speed, signal);
+        } catch (e) {
+            return null;
+        }
+        return recorded.hazard ? { ...recorded.hazard } : null;
+    }
+
+    finish(): ReplayReport {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        const compared = (list: SpokenAnnouncement[]) => list.filter(a => COMPARED_PRIORITIES.includes(a.priority)).map(a => a.text);
+        const expected = compared(this.recording.announcements);
+        const actual = compared(this.actual);
+        return {
+            frames: this.recording.frames.length,
+            expected: this.recording.announcements,
+            actual: [...this.actual],
+            matches: expected.length === actual.length && expected.every((text, i) => text === actual[i])
+        };
+    }
+}
+
+export const walkingRecorder = new WalkingRecorder();
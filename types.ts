@@ -7,6 +7,8 @@ export enum AppState {
   SPEAKING = 'SPEAKING',
   WALKING = 'WALKING',
   NAVIGATING = 'NAVIGATING',
+  SEARCHING = 'SEARCHING',
+  CROSSING = 'CROSSING',
   EMERGENCY_CHECK = 'EMERGENCY_CHECK',
   EMERGENCY_ACTING = 'EMERGENCY_ACTING',
   ERROR = 'ERROR'
@@ -18,6 +20,9 @@ export enum IntentType {
   SAFETY_CHECK = 'SAFETY_CHECK',
   HANDS_FREE_ON = 'HANDS_FREE_ON',
   HANDS_FREE_OFF = 'HANDS_FREE_OFF',
+  HAPTICS_ONLY_ON = 'HAPTICS_ONLY_ON',
+  HAPTICS_ONLY_OFF = 'HAPTICS_ONLY_OFF',
+  HAPTICS_TUTORIAL = 'HAPTICS_TUTORIAL',
   WALKING_MODE_ON = 'WALKING_MODE_ON',
   WALKING_MODE_OFF = 'WALKING_MODE_OFF',
   NAVIGATE = 'NAVIGATE',
@@ -25,6 +30,20 @@ export enum IntentType {
   WHERE_AM_I = 'WHERE_AM_I',
   COMPANION_MODE_ON = 'COMPANION_MODE_ON',
   COMPANION_MODE_OFF = 'COMPANION_MODE_OFF',
+  CHANGE_SETTING = 'CHANGE_SETTING',
+  FOLLOW_UP = 'FOLLOW_UP',
+  NEW_PICTURE = 'NEW_PICTURE',
+  SAVE_PLACE = 'SAVE_PLACE',
+  LIST_PLACES = 'LIST_PLACES',
+  DELETE_PLACE = 'DELETE_PLACE',
+  ADD_CONTACT = 'ADD_CONTACT',
+  LIST_CONTACTS = 'LIST_CONTACTS',
+  REMOVE_CONTACT = 'REMOVE_CONTACT',
+  READER_CONTROL = 'READER_CONTROL',
+  FIND_OBJECT = 'FIND_OBJECT',
+  STOP_SEARCH = 'STOP_SEARCH',
+  CROSSING_MODE_ON = 'CROSSING_MODE_ON',
+  CROSSING_MODE_OFF = 'CROSSING_MODE_OFF',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -34,8 +53,37 @@ export interface IntentResult {
   originalQuery: string;
   detailLevel?: 'simple' | 'detailed';
   destination?: string; // For navigation intents
+  placeLabel?: string; // For SAVE_PLACE / DELETE_PLACE
+  contactName?: string; // For ADD_CONTACT / REMOVE_CONTACT
+  setting?: SettingKey; // For CHANGE_SETTING
+  adjustment?: SettingAdjustment; // For CHANGE_SETTING
+  locale?: string; // For CHANGE_SETTING with setting 'language'
+  value?: string; // For CHANGE_SETTING with setting 'wake_phrase', or the word to spell for READER_CONTROL 'spell'
+  readerAction?: ReaderAction; // For READER_CONTROL
+  target?: string; // For FIND_OBJECT, in the user's words ("keys", "the door handle")
 }
 
+// Moving around the open document: "pause", "continue", "go back a paragraph", "spell that word", "add another page"
+export type ReaderAction = 'pause' | 'resume' | 'back' | 'forward' | 'repeat' | 'restart' | 'spell' | 'add_page';
+
+// --- User Settings ---
+
+export interface UserSettings {
+  speechRate: number;             // SpeechSynthesisUtterance.rate
+  voiceName: string | null;       // Preferred TTS voice (null = automatic)
+  companionIntervalMs: number;    // Gap between companion phrases
+  silenceTimeoutMs: number;       // Silence that ends a voice command
+  distressNoiseThreshold: number; // Normalised amplitude (0-1) treated as a distress noise
+  pathClearProbability: number;   // Chance per clear frame of saying "Path clear" (companion off)
+  locale: string;                 // BCP-47 code from services/locales.ts; drives STT, TTS, prompts and keywords
+  handsFree: boolean;             // Listen for the wake phrase instead of waiting for a tap
+  wakePhrase: string;             // Said to start a command in hands-free mode
+  hapticsOnly: boolean;           // Hazards, directions and crossing signals vibrate instead of speaking
+}
+
+export type SettingKey = 'language' | 'speech_rate' | 'voice' | 'companion_interval' | 'silence_timeout' | 'noise_sensitivity' | 'path_clear_frequency' | 'wake_phrase';
+export type SettingAdjustment = 'increase' | 'decrease' | 'next' | 'reset';
+
 export interface AnalysisResult {
   text: string;
   suggestedAction?: string;
@@ -46,11 +94,25 @@ export interface AudioFeedbackOptions {
   pitch?: number;
 }
 
+export interface GeoPoint {
+    latitude: number;
+    longitude: number;
+}
+
+export interface NavigationStep {
+    instruction: string;   // e.g. "Turn left onto Main Street"
+    maneuver: GeoPoint;    // Where the instruction should be carried out
+    distanceMeters: number; // Length of the leg leading up to this maneuver
+}
+
 export interface NavigationPlan {
     destination: string;
-    steps: string[];
+    destinationPoint?: GeoPoint; // Exact target for saved places; kept so re-routing aims at the same spot
+    steps: NavigationStep[];
+    path?: GeoPoint[];           // Route shape from map data, bends included; off-route checks measure against it
     totalDistance: string;
     totalTime: string;
+    estimated?: boolean;         // Step points are the model's guesses rather than map data: not tracked by GPS
 }
 
 export interface WalkingHazard {
@@ -64,4 +126,172 @@ export interface WalkingHazard {
     confidence: number;
 }
 
-export type EmergencySeverity = 'low' | 'medium' | 'high';
\ No newline at end of file
+// Where the searched-for object is in one camera frame ("find my keys")
+export interface ObjectSighting {
+    found: boolean;
+    horizontal: 'far_left' | 'left' | 'center' | 'right' | 'far_right';
+    vertical: 'up' | 'level' | 'down';
+    distance: 'within_reach' | 'near' | 'far';
+    confidence: number;
+}
+
+// One frame at a street crossing
+export interface CrossingObservation {
+    signal: 'walk' | 'dont_walk' | 'countdown' | 'unknown'; // Pedestrian signal facing the user
+    countdownSeconds: number | null;                          // When signal is 'countdown' and the digits are readable
+    alignment: 'aligned' | 'drifting_left' | 'drifting_right' | 'no_crosswalk'; // Heading relative to the zebra stripes
+    vehicle: 'none' | 'stopped' | 'approaching';              // Nearest vehicle that could cross the user's path
+    vehicleDirection: 'left' | 'center' | 'right' | 'unknown';
+    confidence: number;
+}
+
+export type CrossingEarcon = 'walk' | 'dont_walk' | 'countdown' | 'veer_left' | 'veer_right' | 'vehicle';
+
+export type FrameEdge = 'top' | 'bottom' | 'left' | 'right';
+
+// Where a page sits in the camera frame, for guiding the phone before reading it
+export interface DocumentFraming {
+    pageVisible: boolean;                                     // A page, label or block of text is in view
+    cutOff: FrameEdge[];                                      // Edges of the frame the page or its text runs past
+    size: 'too_small' | 'good' | 'too_close';                 // How much of the frame the page fills
+    offset: 'centered' | 'left' | 'right' | 'up' | 'down';    // Where the page's centre lies in the frame
+    confidence: number;
+}
+
+// Tiny grayscale thumbnail of a captured frame, for cheap on-device change detection
+export interface FrameSignature {
+    luma: Uint8Array; // width x height, row by row
+    width: number;
+    height: number;
+    capturedAt: number;
+}
+
+// Why a frame is a poor picture, or why the phone should be re-aimed before taking one
+export type QualityIssue = 'too_dark' | 'too_bright' | 'blurry' | 'covered' | 'tilted_left' | 'tilted_right' | 'pointing_down' | 'pointing_up' | 'moving';
+
+// On-device assessment of a captured frame
+export interface FrameQuality {
+    usable: boolean;       // Worth sending to the model
+    issues: QualityIssue[];
+    sharpness: number;     // Variance of the Laplacian; low means blurred
+    brightness: number;    // Mean luminance, 0-255
+}
+
+export type EmergencySeverity = 'low' | 'medium' | 'high';
+
+// Speech classes, highest first. Higher classes preempt lower ones in the AudioService queue.
+export type SpeechPriority = 'emergency' | 'hazard' | 'navigation' | 'answer' | 'companion';
+
+// Who a model request is for: safety checks, something the user asked, a crossing-mode frame,
+// or a walking/search loop frame
+export type RequestClass = 'urgent' | 'interactive' | 'crossing' | 'background';
+
+// One question/answer turn about a captured image
+export interface VisualExchange {
+    question: string;
+    answer: string;
+}
+
+// What the classifier should know about the conversation so far
+export interface IntentContext {
+    hasVisualContext: boolean; // A recent picture can answer follow-up questions
+    isNavigating?: boolean;    // A bare "stop" ends navigation...
+    isWalking?: boolean;       // ...or else walking mode
+    hasDocument?: boolean;     // "Continue", "go back a paragraph" etc. control the document reader
+    isSearching?: boolean;     // A bare "stop" or "found it" ends the object search
+    isCrossing?: boolean;      // A bare "stop" or "I've crossed" ends crossing mode
+}
+
+// Backend for the model-driven features. geminiService delegates to whichever provider is active.
+export interface VisionProvider {
+    name: string;
+    classifyIntent(transcript: string, signal?: AbortSignal, context?: IntentContext): Promise<IntentResult>;
+    // onText, when given, receives the answer piece by piece as it is generated; the full text is still returned
+    analyzeImage(base64Image: string, intent: IntentResult, location?: GeolocationCoordinates, signal?: AbortSignal, onText?: (delta: string) => void): Promise<string>;
+    askAboutImage(base64Image: string, history: VisualExchange[], question: string, signal?: AbortSignal): Promise<string>;
+    analyzeWalkingSafety(base64Image: string, signal?: AbortSignal): Promise<WalkingHazard | null>;
+    locateObject(base64Image: string, target: string, signal?: AbortSignal): Promise<ObjectSighting | null>;
+    analyzeCrossing(base64Image: string, signal?: AbortSignal): Promise<CrossingObservation | null>;
+    analyzeDocumentFraming(base64Image: string, signal?: AbortSignal): Promise<DocumentFraming | null>;
+    getWalkingDirections(destination: string, currentCoords: GeolocationCoordinates | null, signal?: AbortSignal, destinationPoint?: GeoPoint): Promise<NavigationPlan | null>;
+}
+
+// A destination the user saved by name ("home", "work")
+export interface SavedPlace {
+    id: string;
+    label: string;
+    latitude: number;
+    longitude: number;
+    accuracy: number; // Of the GPS fix it was saved from, in meters
+    savedAt: number;
+}
+
+// --- Emergency Alerts ---
+
+export interface EmergencyContact {
+    id: string;
+    name: string;
+    channel: 'sms' | 'webhook';
+    phone?: string;      // For 'sms'; passed on to the webhook so it can forward the alert
+    webhookUrl?: string; // For 'webhook'; ALERT_WEBHOOK_URL when unset
+}
+
+export interface EmergencyAlert {
+    id: string;
+    createdAt: number;
+    severity: EmergencySeverity;
+    detector: string; // What triggered it: 'keyword_high', 'loud_noise', 'visual_fall', ...
+    location: { latitude: number; longitude: number; accuracy: number } | null;
+    frame: string | null; // Last camera frame (JPEG data URL)
+    message: string;
+}
+
+// Delivery channel for alerts. acknowledged() is polled during escalation.
+export interface AlertAdapter {
+    channel: EmergencyContact['channel'];
+    canReach(contact: EmergencyContact): boolean; // Configured, and the contact has what this channel needs
+    send(contact: EmergencyContact, alert: EmergencyAlert, signal?: AbortSignal): Promise<void>;
+    acknowledged(contact: EmergencyContact, alert: EmergencyAlert, signal?: AbortSignal): Promise<boolean>;
+    cancel(contact: EmergencyContact, alert: EmergencyAlert): Promise<void>;
+}
+
+// --- Session Journal ---
+
+export type JournalEventType = 'intent' | 'hazard' | 'hazard_cleared' | 'navigation' | 'search' | 'crossing' | 'emergency' | 'state' | 'position';
+
+export interface JournalEntry {
+    id?: number;       // Assigned by IndexedDB
+    sessionId: string; // One per app launch
+    at: number;
+    type: JournalEventType;
+    position: { latitude: number; longitude: number; accuracy: number } | null; // Last known fix when the event happened
+    data: Record<string, unknown>; // Event payload: the IntentResult, WalkingHazard, AppState, ...
+}
+
+// --- Walking Loop Recordings ---
+
+export interface SpokenAnnouncement {
+    offsetMs: number; // Since the recording/replay started
+    text: string;
+    priority: SpeechPriority;
+}
+
+// What the walking loop did with a frame: sent it to the model, reused the last verdict (unchanged scene),
+// or dropped it as unusable (blur, covered lens, bad exposure)
+export type WalkingFrameOutcome = 'analysed' | 'reused' | 'dropped';
+
+export interface RecordedWalkingFrame {
+    offsetMs: number;  // When the frame was captured, since the recording started
+    frame: string;     // Base64 JPEG data URL, as returned by Camera.capture
+    outcome: WalkingFrameOutcome;
+    hazard: WalkingHazard | null; // The model's verdict for this frame, or the reused one; null when dropped
+    latencyMs: number; // How long analyzeWalkingSafety took; 0 unless analysed
+}
+
+export interface WalkingRecording {
+    version: 1;
+    recordedAt: number;
+    provider: string;
+    frames: RecordedWalkingFrame[];
+    announcements: SpokenAnnouncement[]; // What the user heard, for comparing against a replay
+}
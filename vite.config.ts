@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.VISION_PROVIDER': JSON.stringify(env.VISION_PROVIDER),
+        'process.env.SMS_GATEWAY_URL': JSON.stringify(env.SMS_GATEWAY_URL),
+        'process.env.ALERT_WEBHOOK_URL': JSON.stringify(env.ALERT_WEBHOOK_URL),
+        'process.env.ROUTING_URL': JSON.stringify(env.ROUTING_URL),
+        'process.env.GEOCODER_URL': JSON.stringify(env.GEOCODER_URL)
       },
       resolve: {
         alias: {